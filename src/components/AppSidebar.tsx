@@ -1,164 +1,169 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/context/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { hasHostedFeatures } from '@/integrations/backend';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Library, FolderPlus, LogIn, ClipboardList, Share } from 'lucide-react';
+import { Loader2, Library, FolderPlus, LogIn, ClipboardList, Share, Search, Users, Settings } from 'lucide-react';
 import { useNavigate, Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import LibraryManager from './LibraryManager';
+import WorkspaceManager from './WorkspaceManager';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import { useQueryClient } from '@tanstack/react-query';
+import { fetchLibraryPermissions } from '@/utils/libraryPermissions';
+import { subscribeToLibraryAccess } from '@/utils/realtime';
+import { UserLibrary } from '@/utils/libraries';
+import { libraryKeys, useLibraries } from '@/hooks/use-libraries';
+import { useBackgroundSync } from '@/hooks/use-sync-status';
 
-interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-}
-interface SharedLibrary extends UserLibrary {
-  shared_by: string;
-}
 interface AppSidebarProps {
   selectedLibraryId: string | null;
-  onLibrarySelect: (library: UserLibrary | SharedLibrary) => void;
+  onLibrarySelect: (library: UserLibrary) => void;
   activeView: 'parser' | 'library';
   onViewChange: (view: 'parser' | 'library') => void;
+  onSearchOpen?: () => void;
 }
 const AppSidebar: React.FC<AppSidebarProps> = ({
   selectedLibraryId,
   onLibrarySelect,
   activeView,
-  onViewChange
+  onViewChange,
+  onSearchOpen
 }) => {
-  const [libraries, setLibraries] = useState<UserLibrary[]>([]);
-  const [sharedLibraries, setSharedLibraries] = useState<SharedLibrary[]>([]);
-  const [loading, setLoading] = useState(true);
   const [manageLibrariesOpen, setManageLibrariesOpen] = useState(false);
-  const { user } = useAuth();
+  const [workspaceManagerOpen, setWorkspaceManagerOpen] = useState(false);
+  const [managedWorkspaceId, setManagedWorkspaceId] = useState<string | null>(null);
+  // Set by realtime events and cleared once the access check below has run
+  const [accessChanged, setAccessChanged] = useState(false);
+  const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  
-  // Refresh libraries when the component mounts or when user changes
-  useEffect(() => {
-    if (user) {
-      fetchLibraries();
-      fetchSharedLibraries();
-    } else {
-      setLoading(false);
-    }
-  }, [user]);
+  const queryClient = useQueryClient();
+  const { libraries: accessible, isLoading: loading, error } = useLibraries();
+  const { own: libraries, shared: sharedLibraries, workspaces, workspaceLibraries } = accessible;
+  useBackgroundSync();
 
-  const fetchLibraries = async () => {
-    try {
-      setLoading(true);
-      if (!user) return;
-      const {
-        data,
-        error
-      } = await supabase.from('user_libraries').select('*').eq('created_by', user.id).order('created_at', {
-        ascending: true
-      });
-      if (error) throw error;
-      setLibraries(data || []);
-
-      // Select the first library by default if none is selected and we're in library view
-      if (data && data.length > 0 && !selectedLibraryId && activeView === 'library') {
-        onLibrarySelect(data[0]);
-      }
-    } catch (error: any) {
+  useEffect(() => {
+    if (error) {
       console.error('Error fetching libraries:', error);
       toast({
         title: "Error fetching libraries",
         description: error.message,
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
-  
-  const fetchSharedLibraries = async () => {
-    try {
-      if (!user) return;
+  }, [error, toast]);
+
+  // Select the first library by default if none is selected and we're in library view
+  useEffect(() => {
+    if (libraries.length > 0 && !selectedLibraryId && activeView === 'library') {
+      onLibrarySelect(libraries[0]);
+    }
+  }, [libraries, selectedLibraryId, activeView, onLibrarySelect]);
+
+  const refreshLibraries = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: libraryKeys.lists() });
+  }, [queryClient]);
 
-      // Fetch libraries that have been shared with the current user
-      const {
-        data: permissions,
-        error: permissionsError
-      } = await supabase.from('shared_library_permissions').select('library_id, shared_by').eq('shared_with', user.id);
-      if (permissionsError) throw permissionsError;
-      if (permissions && permissions.length > 0) {
-        // Get unique library IDs
-        const libraryIds = [...new Set(permissions.map(p => p.library_id))].filter(Boolean) as string[];
-        if (libraryIds.length > 0) {
-          // Fetch the actual library details
-          const {
-            data: libraryData,
-            error: libraryError
-          } = await supabase.from('user_libraries').select('*').in('id', libraryIds);
-          if (libraryError) throw libraryError;
-          if (libraryData) {
-            // Combine library data with who shared it
-            const sharedLibs: SharedLibrary[] = libraryData.map(lib => {
-              const permission = permissions.find(p => p.library_id === lib.id);
-              return {
-                ...lib,
-                shared_by: permission?.shared_by || ''
-              };
-            });
-            setSharedLibraries(sharedLibs);
-          }
-        } else {
-          setSharedLibraries([]);
-        }
+  const handleLibraryDeleted = useCallback((deletedLibraryId: string) => {
+    // Check if the deleted library is the currently selected one
+    if (selectedLibraryId === deletedLibraryId) {
+      // Find another library to select
+      const remainingLibrary = libraries.find(lib => lib.id !== deletedLibraryId) || 
+                              sharedLibraries.find(lib => lib.id !== deletedLibraryId);
+      
+      if (remainingLibrary) {
+        onLibrarySelect(remainingLibrary);
       } else {
-        setSharedLibraries([]);
+        // If no libraries left, switch to parser view
+        onViewChange('parser');
       }
-    } catch (error: any) {
-      console.error('Error fetching shared libraries:', error);
+    }
+
+    // Refresh the libraries list
+    refreshLibraries();
+  }, [selectedLibraryId, libraries, sharedLibraries, onLibrarySelect, onViewChange, refreshLibraries]);
+
+  // Leave the open library as soon as the user loses access to it
+  const checkSelectedLibraryAccess = useCallback(async () => {
+    if (!selectedLibraryId || activeView !== 'library') return;
+
+    try {
+      const { role } = await fetchLibraryPermissions(selectedLibraryId);
+      if (role) return;
+
       toast({
-        title: "Error fetching shared libraries",
-        description: error.message,
+        title: "Library unavailable",
+        description: "Your access to this library was removed",
         variant: "destructive"
       });
+      handleLibraryDeleted(selectedLibraryId);
+    } catch (error) {
+      console.error('Error checking library access:', error);
     }
+  }, [selectedLibraryId, activeView, toast, handleLibraryDeleted]);
+
+  // Follow libraries being created, renamed, shared and revoked elsewhere
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToLibraryAccess(user.id, () => setAccessChanged(true));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !accessChanged) return;
+
+    // Changes tend to arrive in bursts, e.g. a library and its memberships
+    const timeout = setTimeout(() => {
+      setAccessChanged(false);
+      refreshLibraries();
+      checkSelectedLibraryAccess();
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [user, accessChanged, refreshLibraries, checkSelectedLibraryAccess]);
+
+  const openWorkspaceManager = (workspaceId: string | null = null) => {
+    setManagedWorkspaceId(workspaceId);
+    setWorkspaceManagerOpen(true);
   };
-  
+
   const handleManageLibraries = () => {
     setManageLibrariesOpen(true);
   };
   
-  const handleSelectLibrary = (library: UserLibrary | SharedLibrary) => {
+  const handleSelectLibrary = (library: UserLibrary) => {
     onLibrarySelect(library);
     setManageLibrariesOpen(false);
   };
   
   const handleLibraryCreated = () => {
-    // Refresh the libraries list when a new library is created
-    fetchLibraries();
-    fetchSharedLibraries();
+    // Creating a library updates the shared cache, so only pick up anything else
+    refreshLibraries();
   };
-  
-  const handleLibraryDeleted = (deletedLibraryId: string) => {
-    // Check if the deleted library is the currently selected one
-    if (selectedLibraryId === deletedLibraryId) {
-      // Find another library to select
-      const remainingLibrary = libraries.find(lib => lib.id !== deletedLibraryId) || 
-                              sharedLibraries.find(lib => lib.id !== deletedLibraryId);
-      
-      if (remainingLibrary) {
-        onLibrarySelect(remainingLibrary);
-      } else {
-        // If no libraries left, switch to parser view
-        onViewChange('parser');
-      }
-    }
 
-    // Refresh the libraries list
-    fetchLibraries();
-    fetchSharedLibraries();
-  };
+  // Group libraries under their workspace. Libraries outside the user's
+  // workspaces stay under My Libraries or Shared With Me.
+  const workspaceIds = new Set(workspaces.map(workspace => workspace.id));
+  const inWorkspace = (library: UserLibrary) => !!library.workspace_id && workspaceIds.has(library.workspace_id);
+  const workspaceGroups = workspaces.map(workspace => ({
+    workspace,
+    libraries: workspaceLibraries.filter(library => library.workspace_id === workspace.id)
+  }));
+  const personalLibraries = libraries.filter(library => !inWorkspace(library));
+  const otherSharedLibraries = sharedLibraries.filter(library => !inWorkspace(library));
 
   // Helper function to check if there are no libraries available
-  const noLibrariesAvailable = libraries.length === 0 && sharedLibraries.length === 0;
+  const noLibrariesAvailable = libraries.length === 0 && sharedLibraries.length === 0 && workspaceLibraries.length === 0;
+
+  const renderLibraryButton = (library: UserLibrary, Icon: React.ElementType) => (
+    <button 
+      key={library.id} 
+      onClick={() => handleSelectLibrary(library)} 
+      className={`w-full flex items-center px-4 py-2 text-sm ${selectedLibraryId === library.id && activeView === 'library' ? 'bg-gray-100 font-medium' : 'hover:bg-gray-50'}`}
+    >
+      <Icon size={16} className="mr-2" />
+      <span className="truncate">{library.name}</span>
+    </button>
+  );
 
   if (!user) {
     // ... keep existing code (login state UI)
@@ -222,20 +227,42 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
               <ClipboardList size={16} className="mr-2" />
               <span>Clipboard Parser</span>
             </button>
+            {onSearchOpen && (
+              <button 
+                onClick={onSearchOpen} 
+                className="w-full flex items-center px-4 py-2 text-sm hover:bg-gray-50">
+                <Search size={16} className="mr-2" />
+                <span>Search</span>
+                <kbd className="ml-auto text-[10px] text-muted-foreground border rounded px-1">⌘K</kbd>
+              </button>
+            )}
           </div>
           
           <div className="mt-4">
             <div className="px-4 py-1 flex justify-between items-center">
               <span className="text-xs font-medium text-gray-500">Libraries</span>
-              <Button 
-                variant="ghost" 
-                size="icon" 
-                className="h-5 w-5" 
-                onClick={handleManageLibraries} 
-                title="Manage Libraries"
-              >
-                <FolderPlus size={14} />
-              </Button>
+              <div className="flex items-center gap-1">
+                {hasHostedFeatures() && (
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="h-5 w-5" 
+                    onClick={() => openWorkspaceManager()} 
+                    title="Manage Workspaces"
+                  >
+                    <Users size={14} />
+                  </Button>
+                )}
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  className="h-5 w-5" 
+                  onClick={handleManageLibraries} 
+                  title="Manage Libraries"
+                >
+                  <FolderPlus size={14} />
+                </Button>
+              </div>
             </div>
             
             {loading ? (
@@ -259,37 +286,38 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
                   </div>
                 ) : (
                   <>
-                    {/* My Libraries */}
-                    {libraries.length > 0 && (
-                      <div className="mb-2">
-                        <div className="px-4 py-1 text-xs text-gray-500">My Libraries</div>
-                        {libraries.map(library => (
+                    {/* Workspaces */}
+                    {workspaceGroups.map(({ workspace, libraries: groupLibraries }) => (
+                      <div key={workspace.id} className="mb-2">
+                        <div className="px-4 py-1 flex items-center justify-between text-xs text-gray-500">
+                          <span className="truncate">{workspace.name}</span>
                           <button 
-                            key={library.id} 
-                            onClick={() => handleSelectLibrary(library)} 
-                            className={`w-full flex items-center px-4 py-2 text-sm ${selectedLibraryId === library.id && activeView === 'library' ? 'bg-gray-100 font-medium' : 'hover:bg-gray-50'}`}
+                            onClick={() => openWorkspaceManager(workspace.id)} 
+                            className="hover:text-gray-900" 
+                            title="Workspace Settings"
                           >
-                            <Library size={16} className="mr-2" />
-                            <span className="truncate">{library.name}</span>
+                            <Settings size={12} />
                           </button>
-                        ))}
+                        </div>
+                        {groupLibraries.length === 0 ? (
+                          <div className="px-4 py-1 text-xs text-muted-foreground">No libraries yet</div>
+                        ) : groupLibraries.map(library => renderLibraryButton(library, Library))}
+                      </div>
+                    ))}
+                    
+                    {/* My Libraries */}
+                    {personalLibraries.length > 0 && (
+                      <div className="mb-2">
+                        <div className="px-4 py-1 text-xs text-gray-500">My Libraries</div>
+                        {personalLibraries.map(library => renderLibraryButton(library, Library))}
                       </div>
                     )}
                     
                     {/* Shared With Me */}
-                    {sharedLibraries.length > 0 && (
+                    {otherSharedLibraries.length > 0 && (
                       <div>
                         <div className="px-4 py-1 text-xs text-gray-500">Shared With Me</div>
-                        {sharedLibraries.map(library => (
-                          <button 
-                            key={library.id} 
-                            onClick={() => handleSelectLibrary(library)} 
-                            className={`w-full flex items-center px-4 py-2 text-sm ${selectedLibraryId === library.id && activeView === 'library' ? 'bg-gray-100 font-medium' : 'hover:bg-gray-50'}`}
-                          >
-                            <Share size={16} className="mr-2" />
-                            <span className="truncate">{library.name}</span>
-                          </button>
-                        ))}
+                        {otherSharedLibraries.map(library => renderLibraryButton(library, Share))}
                       </div>
                     )}
                   </>
@@ -300,10 +328,11 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
         </div>
         
         <div className="p-4 mt-auto border-t border-gray-200">
+          <SyncStatusIndicator />
           <div className="flex items-center text-sm text-gray-600 mb-2">
             <span>{user?.email}</span>
           </div>
-          <Button variant="outline" size="sm" className="w-full" onClick={() => supabase.auth.signOut()}>
+          <Button variant="outline" size="sm" className="w-full" onClick={() => signOut()}>
             Sign Out
           </Button>
         </div>
@@ -319,6 +348,15 @@ const AppSidebar: React.FC<AppSidebarProps> = ({
           onLibraryDeleted={handleLibraryDeleted} 
         />
       )}
+
+      {workspaceManagerOpen && (
+        <WorkspaceManager 
+          open={workspaceManagerOpen} 
+          onClose={() => setWorkspaceManagerOpen(false)} 
+          workspaceId={managedWorkspaceId} 
+          onWorkspacesChanged={refreshLibraries} 
+        />
+      )}
     </>;
 };
 
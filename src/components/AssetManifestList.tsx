@@ -0,0 +1,61 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ExternalLink, File, FileVideo, Image, Sparkles, Type } from 'lucide-react';
+import { WebflowAssetKind, WebflowAssetReference } from '@/utils/assetManifest';
+
+interface AssetManifestListProps {
+  assets: WebflowAssetReference[];
+}
+
+const KIND_ICONS: Record<WebflowAssetKind, React.ElementType> = {
+  image: Image,
+  lottie: Sparkles,
+  font: Type,
+  video: FileVideo,
+  document: File,
+  other: File
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const AssetManifestList: React.FC<AssetManifestListProps> = ({ assets }) => {
+  if (assets.length === 0) {
+    return <p className="text-xs text-muted-foreground p-2">This payload doesn't reference any files</p>;
+  }
+
+  return (
+    <ul className="border rounded-md divide-y max-h-72 overflow-y-auto">
+      {assets.map(asset => {
+        const Icon = KIND_ICONS[asset.kind];
+
+        return (
+          <li key={asset.url} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+            <Icon size={14} className="shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate font-medium" title={asset.fileName}>{asset.fileName}</span>
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">{asset.kind}</Badge>
+                {asset.fileSize && <span className="text-xs text-muted-foreground">{formatSize(asset.fileSize)}</span>}
+              </div>
+              <div className="text-xs text-muted-foreground truncate" title={asset.paths.join('\n')}>
+                Used in {asset.paths.join(', ')}
+              </div>
+            </div>
+            <a
+              href={asset.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="shrink-0 text-muted-foreground hover:text-foreground"
+              title={asset.url}
+            >
+              <ExternalLink size={14} />
+            </a>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AssetManifestList;
@@ -1,12 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { getBackend } from '@/integrations/backend';
 import { useToast } from '@/components/ui/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Loader2 } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 const Auth: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -16,35 +16,36 @@ const Auth: React.FC = () => {
     toast
   } = useToast();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const {
     user
   } = useAuth();
 
+  // Only follow paths within the app, e.g. back to an invitation
+  const redirectParam = searchParams.get('redirect');
+  const redirectTo = redirectParam?.startsWith('/') && !redirectParam.startsWith('//') ? redirectParam : '/';
+
   // Redirect if user is already logged in
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(redirectTo);
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     try {
       const {
-        error
-      } = await supabase.auth.signUp({
-        email,
-        password
-      });
-      if (error) throw error;
+        session
+      } = await getBackend().auth.signUp(email, password, `${window.location.origin}${redirectTo}`);
       toast({
         title: "Sign up successful",
-        description: "Please check your email for the confirmation link."
+        description: session ? "Your account is ready." : "Please check your email for the confirmation link."
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Sign up failed",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive"
       });
     } finally {
@@ -55,23 +56,17 @@ const Auth: React.FC = () => {
     e.preventDefault();
     setLoading(true);
     try {
-      const {
-        error
-      } = await supabase.auth.signInWithPassword({
-        email,
-        password
-      });
-      if (error) throw error;
+      await getBackend().auth.signIn(email, password);
 
       // Successful login - navigation happens automatically via the useEffect
       toast({
         title: "Login successful",
         description: "You have been successfully logged in."
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Login failed",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive"
       });
     } finally {
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Copy, Download, Loader2, MoveRight, Tag, Trash2, X } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import { hasHostedFeatures } from '@/integrations/backend';
+import { libraryKeys } from '@/hooks/use-libraries';
+import MoveItemModal from './MoveItemModal';
+import TagInput from './TagInput';
+import { LibraryItem } from '@/utils/libraries';
+import { canChangeItem, canDeleteItem, LibraryPermissions } from '@/utils/libraryPermissions';
+import { LibraryTag, setItemTags } from '@/utils/tagUtils';
+import { downloadLibraryBundle, exportLibraryBundle } from '@/utils/libraryBundle';
+import { countItems, runBulk } from '@/utils/bulkItems';
+import { scheduleItemDeletes } from '@/utils/pendingDeletes';
+
+// How long a bulk delete can be undone
+const UNDO_WINDOW = 5000;
+
+interface BulkActionsBarProps {
+  libraryId: string;
+  selectedItems: LibraryItem[];
+  visibleCount: number;
+  permissions: LibraryPermissions;
+  itemTags: Record<string, LibraryTag[]>;
+  tagSuggestions: string[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onTagsChange: (tagsByItem: Record<string, LibraryTag[]>) => void;
+}
+
+const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  libraryId,
+  selectedItems,
+  visibleCount,
+  permissions,
+  itemTags,
+  tagSuggestions,
+  onSelectAll,
+  onClearSelection,
+  onTagsChange
+}) => {
+  const [moveMode, setMoveMode] = useState<'move' | 'copy' | null>(null);
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+  const [tagDialogOpen, setTagDialogOpen] = useState(false);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [tagging, setTagging] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const changeable = selectedItems.filter(item => canChangeItem(permissions, item, user?.id));
+  const deletable = selectedItems.filter(item => canDeleteItem(permissions, item, user?.id));
+  const count = selectedItems.length;
+  const hosted = hasHostedFeatures();
+
+  // Note the selected items the user's role doesn't cover
+  const describeSkipped = (allowed: number, action: string) => {
+    const skipped = count - allowed;
+    return skipped > 0 ? ` ${countItems(skipped)} you can't ${action} will be left as they are.` : '';
+  };
+
+  const handleDelete = () => {
+    if (!user) return;
+
+    const key = libraryKeys.items(libraryId);
+    const ids = deletable.map(item => item.id);
+
+    // Hidden now, and deleted once the undo window has passed
+    const undo = scheduleItemDeletes(deletable, user.id, UNDO_WINDOW, result => {
+      queryClient.invalidateQueries({ queryKey: key });
+      if (result.failed.length > 0) {
+        toast({
+          title: "Some items were not deleted",
+          description: `${countItems(result.failed.length)} could not be deleted: ${result.failed[0].message}`,
+          variant: "destructive"
+        });
+      }
+    });
+    queryClient.setQueryData<LibraryItem[]>(key, current => current?.filter(item => !ids.includes(item.id)));
+
+    const handleUndo = () => {
+      if (!undo()) {
+        toast({ title: "Too late to undo", description: "The items were already deleted." });
+      }
+      queryClient.invalidateQueries({ queryKey: key });
+    };
+
+    toast({
+      title: `${countItems(ids.length)} deleted`,
+      description: count > ids.length ? `${countItems(count - ids.length)} you can't delete were kept.` : undefined,
+      duration: UNDO_WINDOW,
+      action: <ToastAction altText="Undo delete" onClick={handleUndo}>Undo</ToastAction>
+    });
+
+    setConfirmDeleteOpen(false);
+    onClearSelection();
+  };
+
+  const handleTag = async () => {
+    if (!user || tagNames.length === 0) return;
+
+    const items = changeable;
+    const previous: Record<string, string[]> = Object.fromEntries(
+      items.map(item => [item.id, (itemTags[item.id] || []).map(tag => tag.name)])
+    );
+    const title = 'Tagging items';
+    const progress = toast({ title, description: `0 of ${items.length}` });
+
+    setTagging(true);
+    try {
+      const result = await runBulk(
+        items.map(item => item.id),
+        async itemId => [itemId, await setItemTags(itemId, libraryId, [...previous[itemId], ...tagNames], user.id)] as const,
+        (done, total) => progress.update({ id: progress.id, title, description: `${done} of ${total}` })
+      );
+      onTagsChange(Object.fromEntries(result.succeeded));
+
+      const tagged = result.succeeded.map(([itemId]) => itemId);
+      const undo = async () => {
+        const restored = await runBulk(
+          tagged,
+          async itemId => [itemId, await setItemTags(itemId, libraryId, previous[itemId], user.id)] as const
+        );
+        onTagsChange(Object.fromEntries(restored.succeeded));
+        if (restored.failed.length > 0) {
+          toast({
+            title: "Undo failed",
+            description: `The tags of ${countItems(restored.failed.length)} could not be restored.`,
+            variant: "destructive"
+          });
+        }
+      };
+
+      progress.update({
+        id: progress.id,
+        title: result.failed.length === 0 ? `${countItems(tagged.length)} tagged` : `${countItems(tagged.length)} of ${items.length} tagged`,
+        description: result.failed.length === 0
+          ? `Added ${tagNames.join(', ')}.`
+          : `${countItems(result.failed.length)} could not be tagged: ${result.failed[0].message}`,
+        variant: tagged.length === 0 ? 'destructive' : 'default',
+        action: tagged.length > 0 ? <ToastAction altText="Undo tagging" onClick={undo}>Undo</ToastAction> : undefined
+      });
+
+      setTagDialogOpen(false);
+      setTagNames([]);
+    } finally {
+      setTagging(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const bundle = await exportLibraryBundle(libraryId, selectedItems.map(item => item.id));
+      downloadLibraryBundle(bundle);
+      toast({
+        title: "Items exported",
+        description: `${countItems(bundle.items.length)} saved to a bundle file.`
+      });
+    } catch (err) {
+      console.error('Error exporting items:', err);
+      toast({
+        title: "Export failed",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border bg-card px-3 py-2">
+        <span className="text-sm font-medium mr-1">{countItems(count)} selected</span>
+        {count < visibleCount && (
+          <Button variant="ghost" size="sm" onClick={onSelectAll}>
+            Select all
+          </Button>
+        )}
+        <div className="flex flex-wrap gap-2 ml-auto">
+          <Button variant="outline" size="sm" className="gap-1" disabled={changeable.length === 0} onClick={() => setMoveMode('move')}>
+            <MoveRight size={14} /> Move
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" disabled={count === 0} onClick={() => setMoveMode('copy')}>
+            <Copy size={14} /> Copy
+          </Button>
+          {hosted && (
+            <>
+              <Button variant="outline" size="sm" className="gap-1" disabled={changeable.length === 0} onClick={() => setTagDialogOpen(true)}>
+                <Tag size={14} /> Tag
+              </Button>
+              <Button variant="outline" size="sm" className="gap-1" disabled={count === 0 || exporting} onClick={handleExport}>
+                {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Export
+              </Button>
+            </>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1 text-destructive hover:text-destructive/90"
+            disabled={deletable.length === 0}
+            onClick={() => setConfirmDeleteOpen(true)}
+          >
+            <Trash2 size={14} /> Delete
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClearSelection} title="Clear selection">
+            <X size={14} />
+          </Button>
+        </div>
+      </div>
+
+      {moveMode && (
+        <MoveItemModal
+          open={!!moveMode}
+          onClose={() => setMoveMode(null)}
+          itemIds={(moveMode === 'move' ? changeable : selectedItems).map(item => item.id)}
+          currentLibraryId={libraryId}
+          mode={moveMode}
+          onMoveComplete={onClearSelection}
+        />
+      )}
+
+      <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {countItems(deletable.length)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The items and their screenshots will be removed from this library.
+              {describeSkipped(deletable.length, 'delete')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={tagDialogOpen} onOpenChange={open => !tagging && setTagDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Tag {countItems(changeable.length)}</DialogTitle>
+            <DialogDescription>
+              These tags are added to the items' existing tags.
+              {describeSkipped(changeable.length, 'edit')}
+            </DialogDescription>
+          </DialogHeader>
+          <TagInput value={tagNames} onChange={setTagNames} suggestions={tagSuggestions} disabled={tagging} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagDialogOpen(false)} disabled={tagging}>
+              Cancel
+            </Button>
+            <Button onClick={handleTag} disabled={tagging || tagNames.length === 0} className="gap-2">
+              {tagging && <Loader2 className="h-4 w-4 animate-spin" />} Add tags
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BulkActionsBar;
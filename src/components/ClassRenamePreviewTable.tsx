@@ -0,0 +1,50 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ClassRenamePreview } from '@/utils/classRenamer';
+
+interface ClassRenamePreviewTableProps {
+  previews: ClassRenamePreview[];
+}
+
+const ClassRenamePreviewTable: React.FC<ClassRenamePreviewTableProps> = ({ previews }) => {
+  if (previews.length === 0) return null;
+
+  const collisions = previews.filter(preview => preview.collidesWith);
+
+  return (
+    <>
+      <div className="mt-3 border rounded-md bg-background max-h-48 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="px-2 py-1 font-medium">Before</th>
+              <th className="px-2 py-1 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {previews.map(preview => (
+              <tr key={preview.styleId} className={preview.collidesWith ? 'bg-amber-50' : ''}>
+                <td className="px-2 py-1 font-mono">{preview.before}</td>
+                <td className="px-2 py-1 font-mono">
+                  {preview.after}
+                  {preview.collidesWith && (
+                    <span className="ml-2 inline-flex items-center gap-1 text-amber-600 font-sans">
+                      <AlertTriangle size={12} /> collides with {preview.collidesWith}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {collisions.length > 0 && (
+        <p className="text-xs text-amber-600 mt-2">
+          {collisions.length} rename{collisions.length === 1 ? '' : 's'} would collide with an existing class and will be skipped.
+        </p>
+      )}
+    </>
+  );
+};
+
+export default ClassRenamePreviewTable;
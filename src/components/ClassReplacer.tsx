@@ -1,10 +1,14 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Wand2 } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Wand2, Plus, X, ArrowRight } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
-import { isValidJson } from '@/utils/clipboardUtils';
+import { parseWebflowData } from '@/utils/clipboardUtils';
+import { ClassRenameRule, detectClassPrefixes, previewClassRenames, renameClasses } from '@/utils/classRenamer';
+import ClassRenamePreviewTable from './ClassRenamePreviewTable';
+import NamingConventionConverter from './NamingConventionConverter';
 
 interface ClassReplacerProps {
   content: string;
@@ -12,42 +16,43 @@ interface ClassReplacerProps {
 }
 
 const ClassReplacer: React.FC<ClassReplacerProps> = ({ content, onReplace }) => {
-  const [sourceClass, setSourceClass] = useState<string>('');
-  const [targetClass, setTargetClass] = useState<string>('');
-  const [hasDetectedClass, setHasDetectedClass] = useState<boolean>(false);
+  const [rules, setRules] = useState<ClassRenameRule[]>([]);
   const { toast } = useToast();
 
-  // Analyze content to detect possible class prefixes
+  const data = useMemo(() => parseWebflowData(content).data, [content]);
+  const detectedPrefixes = useMemo(() => data ? detectClassPrefixes(data) : [], [data]);
+
+  // Start with one rule per detected prefix
   useEffect(() => {
-    if (!content || !isValidJson(content)) return;
+    if (detectedPrefixes.length === 0) return;
 
-    try {
-      // Look for patterns like "name":"test_class" in JSON
-      const classNameRegex = /"name"\s*:\s*"([a-zA-Z0-9_-]+)_/g;
-      const matches = Array.from(content.matchAll(classNameRegex));
-      
-      if (matches.length > 0) {
-        // Get unique prefixes
-        const uniquePrefixes = Array.from(
-          new Set(matches.map(match => match[1] + '_'))
-        );
-        
-        if (uniquePrefixes.length > 0) {
-          setSourceClass(uniquePrefixes[0]);
-          setHasDetectedClass(true);
-          toast({
-            title: "Class prefix detected",
-            description: `Found '${uniquePrefixes[0]}' in content. You can now replace it.`,
-          });
-        }
-      }
-    } catch (error) {
-      console.error("Error detecting classes:", error);
+    setRules(prev => {
+      const known = new Set(prev.map(rule => rule.from));
+      const added = detectedPrefixes
+        .filter(prefix => !known.has(prefix))
+        .map(prefix => ({ from: prefix, to: '' }));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, [detectedPrefixes]);
+
+  useEffect(() => {
+    if (detectedPrefixes.length > 0) {
+      toast({
+        title: "Class prefix detected",
+        description: `Found ${detectedPrefixes.map(prefix => `'${prefix}'`).join(', ')} in content. You can now replace it.`,
+      });
     }
-  }, [content, toast]);
+  }, [detectedPrefixes, toast]);
+
+  const activeRules = rules.filter(rule => rule.from && rule.to);
+  const previews = data ? previewClassRenames(data.payload.styles, activeRules) : [];
+
+  const updateRule = (index: number, changes: Partial<ClassRenameRule>) => {
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
 
   const handleReplace = () => {
-    if (!sourceClass || !targetClass) {
+    if (activeRules.length === 0) {
       toast({
         title: "Missing input",
         description: "Please provide both source and target class prefixes",
@@ -57,17 +62,18 @@ const ClassReplacer: React.FC<ClassReplacerProps> = ({ content, onReplace }) =>
     }
 
     try {
-      // Replace all occurrences of the class prefix in the content
-      const regex = new RegExp(sourceClass.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-      const newContent = content.replace(regex, targetClass);
-      
-      // Make sure the replaced content is properly updated for both display and copy
-      // This is critical - we need to pass the new content up to the parent component
-      onReplace(newContent);
-      
+      const result = renameClasses(content, activeRules);
+
+      // Pass the new content up so both the display and copy use it
+      onReplace(result.content);
+      // Rules are rebuilt from the prefixes detected in the new content
+      setRules([]);
+
       toast({
         title: "Classes replaced",
-        description: `Replaced '${sourceClass}' with '${targetClass}' in content`,
+        description: `Renamed ${result.renamed.length} class${result.renamed.length === 1 ? '' : 'es'}` +
+          (result.skipped.length > 0 ? `, skipped ${result.skipped.length} because of name collisions` : ''),
+        variant: result.skipped.length > 0 ? "destructive" : "default",
       });
     } catch (error) {
       toast({
@@ -79,49 +85,81 @@ const ClassReplacer: React.FC<ClassReplacerProps> = ({ content, onReplace }) =>
     }
   };
 
-  if (!isValidJson(content)) return null;
+  if (!data) return null;
 
   return (
     <div className="bg-muted/30 rounded-md p-3 mb-4 border border-border">
-      <h4 className="text-sm font-medium mb-2">Replace Class Prefix</h4>
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-        <div>
-          <label htmlFor="sourceClass" className="text-xs text-muted-foreground block mb-1">Source prefix:</label>
-          <Input
-            id="sourceClass"
-            placeholder="e.g. test_"
-            value={sourceClass}
-            onChange={(e) => setSourceClass(e.target.value)}
-            className="h-8 text-sm"
-          />
+      <Tabs defaultValue="prefix">
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-sm font-medium">Rename Classes</h4>
+          <TabsList className="h-8">
+            <TabsTrigger value="prefix" className="text-xs">Prefix</TabsTrigger>
+            <TabsTrigger value="convention" className="text-xs">Naming convention</TabsTrigger>
+          </TabsList>
         </div>
-        <div>
-          <label htmlFor="targetClass" className="text-xs text-muted-foreground block mb-1">Target prefix:</label>
-          <Input
-            id="targetClass"
-            placeholder="e.g. prod_"
-            value={targetClass}
-            onChange={(e) => setTargetClass(e.target.value)}
-            className="h-8 text-sm"
-          />
-        </div>
-        <div className="flex items-end">
-          <Button 
-            onClick={handleReplace} 
-            className="h-8 gap-1 w-full"
-            variant="secondary"
-            disabled={!sourceClass || !targetClass}
-          >
-            <Wand2 size={14} />
-            Replace
-          </Button>
-        </div>
-      </div>
-      {hasDetectedClass && (
-        <p className="text-xs text-muted-foreground mt-2">
-          Detected class prefix: <code className="bg-muted px-1 py-0.5 rounded">{sourceClass}</code>
-        </p>
-      )}
+        <TabsContent value="prefix" className="mt-0">
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={index} className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
+                <Input
+                  aria-label="Source prefix"
+                  placeholder="e.g. test_"
+                  value={rule.from}
+                  onChange={(e) => updateRule(index, { from: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                <ArrowRight size={14} className="text-muted-foreground" />
+                <Input
+                  aria-label="Target prefix"
+                  placeholder="e.g. prod_"
+                  value={rule.to}
+                  onChange={(e) => updateRule(index, { to: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <X size={14} />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 gap-1"
+              onClick={() => setRules(prev => [...prev, { from: '', to: '' }])}
+            >
+              <Plus size={14} /> Add prefix
+            </Button>
+            <Button
+              onClick={handleReplace}
+              className="h-8 gap-1"
+              variant="secondary"
+              disabled={previews.length === 0}
+            >
+              <Wand2 size={14} />
+              Replace
+            </Button>
+          </div>
+
+          <ClassRenamePreviewTable previews={previews} />
+          {detectedPrefixes.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Detected class prefixes: {detectedPrefixes.map(prefix => (
+                <code key={prefix} className="bg-muted px-1 py-0.5 rounded mr-1">{prefix}</code>
+              ))}
+            </p>
+          )}
+        </TabsContent>
+        <TabsContent value="convention" className="mt-0">
+          <NamingConventionConverter content={content} data={data} onReplace={onReplace} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
@@ -1,14 +1,19 @@
-import React, { useState } from 'react';
-import { Copy, Check, Clipboard, ClipboardCheck, Trash2 } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Copy, Check, Clipboard, ClipboardCheck, Trash2, Pin, PinOff } from 'lucide-react';
+import { formatDistance } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/components/ui/use-toast';
-import { formatContent, copyToClipboard, isValidJson } from '@/utils/clipboardUtils';
+import { formatContent, formatJson, isValidJson, parseWebflowData, getNodeJsonRanges } from '@/utils/clipboardUtils';
+import { describeClipboardWrite, writeToClipboard } from '@/utils/clipboardWriter';
 import ClassReplacer from './ClassReplacer';
+import WebflowNodeTree from './WebflowNodeTree';
 import SaveClipboardItem from './SaveClipboardItem';
+import AssetManifestList from './AssetManifestList';
+import { extractAssetManifest } from '@/utils/assetManifest';
 
 interface FileInfoProps {
   file: {
@@ -38,7 +43,7 @@ const FileInfo: React.FC<FileInfoProps> = ({ file }) => {
           <code className="bg-muted px-1 py-0.5 rounded">{file.type}</code>
         </div>
       </div>
-      {file.type.startsWith('image/') && (
+      {file.type.startsWith('image/') && file.url && (
         <div className="mt-2 border rounded p-2 bg-background/50">
           <a href={file.url} target="_blank" rel="noopener noreferrer">
             <img 
@@ -65,6 +70,34 @@ const ClipboardType: React.FC<ClipboardTypeProps> = ({ type, data, onCopy, onDel
   const { toast } = useToast();
   const [content, setContent] = useState<string>(typeof data === 'string' ? data : '');
   const [showSaveForm, setShowSaveForm] = useState(false);
+  const [viewMode, setViewMode] = useState<string>('tree');
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const webflowResult = useMemo(
+    () => typeof content === 'string' && content.includes('@webflow/XscpData') ? parseWebflowData(content) : null,
+    [content]
+  );
+  const nodeRanges = useMemo(
+    () => webflowResult?.data ? getNodeJsonRanges(content) : null,
+    [webflowResult, content]
+  );
+  const assetManifest = useMemo(
+    () => webflowResult?.data ? extractAssetManifest(webflowResult.data) : [],
+    [webflowResult]
+  );
+
+  // Bring the highlighted node into view once the raw tab has rendered it
+  useEffect(() => {
+    if (viewMode === 'raw' && selectedNodeId) {
+      highlightRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [viewMode, selectedNodeId]);
+
+  const handleSelectNode = (nodeId: string) => {
+    setSelectedNodeId(nodeId);
+    setViewMode('raw');
+  };
 
   const copyToClipboardHandler = async () => {
     if (typeof content !== 'string') {
@@ -76,31 +109,14 @@ const ClipboardType: React.FC<ClipboardTypeProps> = ({ type, data, onCopy, onDel
       return;
     }
 
-    // Always treat as JSON for Webflow when it's either:
-    // 1. Explicitly JSON type
-    // 2. Plain text that is valid JSON
-    const isJson = type.includes('json') || 
-                  (type === 'text/plain' && isValidJson(content));
-    
-    const success = await copyToClipboard(content, isJson);
+    // Webflow payloads keep their application/json flavour
+    const result = await writeToClipboard(content, type);
+    toast(describeClipboardWrite(result));
 
-    if (success) {
+    if (result.success) {
       setCopied(true);
-      toast({
-        title: "Copied to clipboard",
-        description: isJson ? 
-          "Content has been copied in a format compatible with Webflow" : 
-          "Content has been copied as plain text",
-      });
-      
       setTimeout(() => setCopied(false), 2000);
       if (onCopy) onCopy();
-    } else {
-      toast({
-        title: "Copy failed",
-        description: "Please try again or copy manually",
-        variant: "destructive"
-      });
     }
   };
 
@@ -114,6 +130,10 @@ const ClipboardType: React.FC<ClipboardTypeProps> = ({ type, data, onCopy, onDel
       return <FileInfo file={content} />;
     }
 
+    if (webflowResult?.data) {
+      return renderWebflowContent();
+    }
+
     const formattedContent = formatContent(content, type);
     const isJson = type === 'application/json' || (type === 'text/plain' && formattedContent !== content);
 
@@ -124,6 +144,56 @@ const ClipboardType: React.FC<ClipboardTypeProps> = ({ type, data, onCopy, onDel
     );
   };
 
+  const renderWebflowContent = () => {
+    const formattedContent = formatJson(content);
+    const range = selectedNodeId ? nodeRanges?.get(selectedNodeId) : undefined;
+    const errors = webflowResult?.errors || [];
+
+    return (
+      <Tabs value={viewMode} onValueChange={setViewMode}>
+        <TabsList className="mb-2 h-8">
+          <TabsTrigger value="tree" className="text-xs">Tree</TabsTrigger>
+          <TabsTrigger value="raw" className="text-xs">Raw</TabsTrigger>
+          <TabsTrigger value="assets" className="text-xs">Assets ({assetManifest.length})</TabsTrigger>
+        </TabsList>
+        {errors.length > 0 && (
+          <div className="text-xs text-amber-600 bg-amber-50 p-2 rounded-md mb-2 max-h-24 overflow-y-auto">
+            {errors.map((error, i) => (
+              <p key={i}>
+                <code>{error.path || 'root'}</code>: {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+        <TabsContent value="tree" className="mt-0">
+          <WebflowNodeTree
+            data={webflowResult.data}
+            selectedId={selectedNodeId}
+            onSelect={handleSelectNode}
+          />
+        </TabsContent>
+        <TabsContent value="raw" className="mt-0">
+          <pre className="code-block bg-muted max-h-72 overflow-y-auto">
+            {range ? (
+              <code className="code-wrap">
+                {formattedContent.slice(0, range.start)}
+                <mark ref={highlightRef} className="bg-yellow-200 rounded-sm">
+                  {formattedContent.slice(range.start, range.end)}
+                </mark>
+                {formattedContent.slice(range.end)}
+              </code>
+            ) : (
+              <code className="code-wrap">{formattedContent}</code>
+            )}
+          </pre>
+        </TabsContent>
+        <TabsContent value="assets" className="mt-0">
+          <AssetManifestList assets={assetManifest} />
+        </TabsContent>
+      </Tabs>
+    );
+  };
+
   // Only show class replacer for content that could be JSON and contain class names
   const showClassReplacer = typeof content === 'string' && (
     type.includes('json') || (type === 'text/plain' && isValidJson(content))
@@ -207,10 +277,13 @@ const ClipboardType: React.FC<ClipboardTypeProps> = ({ type, data, onCopy, onDel
 interface ClipboardItemProps {
   data: any;
   index: number;
+  timestamp?: number;
+  pinned?: boolean;
   onDelete?: (index: number) => void;
+  onTogglePin?: () => void;
 }
 
-const ClipboardItem: React.FC<ClipboardItemProps> = ({ data, index, onDelete }) => {
+const ClipboardItem: React.FC<ClipboardItemProps> = ({ data, index, timestamp, pinned = false, onDelete, onTogglePin }) => {
   const hasTypes = data.types && data.types.length > 0;
   const hasItems = data.items && data.items.length > 0;
   const hasFiles = data.files && data.files.length > 0;
@@ -256,17 +329,35 @@ const ClipboardItem: React.FC<ClipboardItemProps> = ({ data, index, onDelete })
             <Badge variant="outline" className="ml-2 font-normal text-xs">
               #{index + 1}
             </Badge>
+            {timestamp && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                {formatDistance(new Date(timestamp), new Date(), { addSuffix: true })}
+              </span>
+            )}
           </span>
-          {onDelete && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleDeleteItem}
-              className="h-8 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
-            >
-              <Trash2 size={16} />
-            </Button>
-          )}
+          <div className="flex gap-1">
+            {onTogglePin && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onTogglePin}
+                title={pinned ? "Unpin" : "Pin to keep it in history"}
+                className={`h-8 px-2 ${pinned ? 'text-primary' : ''}`}
+              >
+                {pinned ? <PinOff size={16} /> : <Pin size={16} />}
+              </Button>
+            )}
+            {onDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDeleteItem}
+                className="h-8 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 size={16} />
+              </Button>
+            )}
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -315,15 +406,10 @@ const ClipboardItem: React.FC<ClipboardItemProps> = ({ data, index, onDelete })
                           variant="outline"
                           onClick={async () => {
                             if (item.as_file) return; // Skip files
-                            const success = await copyToClipboard(item.string || '', 
-                              item.type.includes('json') || (item.type === 'text/plain' && item.string && isValidJson(item.string))
-                            );
-                            if (success) {
+                            const result = await writeToClipboard(item.string || '', item.type);
+                            toast(describeClipboardWrite(result));
+                            if (result.success) {
                               handleCopySection(`items-${i}`);
-                              toast({
-                                title: "Copied to clipboard",
-                                description: "Item content has been copied",
-                              });
                             }
                           }}
                           className="gap-1"
@@ -4,29 +4,41 @@ import ClipboardItem from './ClipboardItem';
 import EmptyState from './EmptyState';
 import SharedClipboardList from './SharedClipboardList';
 import { Button } from '@/components/ui/button';
-import { Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { addHistoryEntry, applyHistoryCap, ClipboardHistoryEntry, clearHistory as clearStoredHistory, createHistoryEntry, deleteHistoryEntry, getHistoryCap, HISTORY_CAP_OPTIONS, loadHistory, matchesHistoryQuery, setHistoryCap, sortHistory, trimHistory, updateHistoryEntry } from '@/utils/clipboardHistory';
 interface ClipboardParserProps {
   inModal?: boolean;
 }
 const ClipboardParser: React.FC<ClipboardParserProps> = ({
   inModal = false
 }) => {
-  const [clipboardHistory, setClipboardHistory] = useState<any[]>([]);
+  const [clipboardHistory, setClipboardHistory] = useState<ClipboardHistoryEntry[]>([]);
   const [label, setLabel] = useState<string>('');
+  const [query, setQuery] = useState('');
+  const [cap, setCap] = useState(getHistoryCap);
   const {
     toast
   } = useToast();
   const hasAsyncClipboard = !navigator.clipboard || !navigator.clipboard.read;
+
+
+  // History persists in IndexedDB so it survives reloads, signed in or not
+  useEffect(() => {
+    // Entries pasted while loading are already stored, so keep one copy of each
+    loadHistory().then(entries => setClipboardHistory(prev => sortHistory([...new Map([...entries, ...prev].map(entry => [entry.id, entry])).values()]))).catch(error => {
+      console.error("Failed to load clipboard history:", error);
+    });
+  }, []);
   const addToHistory = useCallback((data: any, source: string) => {
     if (data) {
-      // Add timestamp to identify each entry uniquely
-      const entry = {
-        data,
-        source,
-        timestamp: new Date().getTime()
-      };
-      setClipboardHistory(prev => [entry, ...prev]);
+      const entry = createHistoryEntry(data, source);
+      setClipboardHistory(prev => applyHistoryCap([entry, ...prev], getHistoryCap()));
+      addHistoryEntry(entry).catch(error => {
+        console.error("Failed to store clipboard history:", error);
+      });
       setLabel(source);
       toast({
         title: "Clipboard content parsed",
@@ -96,13 +108,42 @@ const ClipboardParser: React.FC<ClipboardParserProps> = ({
     e.preventDefault();
   }, []);
   const clearHistory = useCallback(() => {
-    setClipboardHistory([]);
+    setClipboardHistory(prev => prev.filter(entry => entry.pinned));
     setLabel('');
+    clearStoredHistory().catch(error => {
+      console.error("Failed to clear clipboard history:", error);
+    });
     toast({
       title: "Cleared",
-      description: "Clipboard history has been cleared"
+      description: "Clipboard history has been cleared, pinned items were kept"
     });
   }, [toast]);
+  const deleteEntry = useCallback((id: string) => {
+    setClipboardHistory(prev => prev.filter(entry => entry.id !== id));
+    deleteHistoryEntry(id).catch(error => {
+      console.error("Failed to delete history entry:", error);
+    });
+  }, []);
+  const togglePin = useCallback((entry: ClipboardHistoryEntry) => {
+    const updated = {
+      ...entry,
+      pinned: !entry.pinned
+    };
+    setClipboardHistory(prev => sortHistory(prev.map(item => item.id === entry.id ? updated : item)));
+    updateHistoryEntry(updated).catch(error => {
+      console.error("Failed to update history entry:", error);
+    });
+  }, []);
+  const handleCapChange = useCallback((value: string) => {
+    const newCap = Number(value);
+    setCap(newCap);
+    setHistoryCap(newCap);
+    setClipboardHistory(prev => applyHistoryCap(prev, newCap));
+    trimHistory(newCap).catch(error => {
+      console.error("Failed to trim clipboard history:", error);
+    });
+  }, []);
+  const visibleHistory = clipboardHistory.filter(entry => matchesHistoryQuery(entry, query));
   useEffect(() => {
     document.addEventListener('paste', handlePaste as EventListener);
     document.addEventListener('drop', handleDrop as EventListener);
@@ -121,20 +162,39 @@ const ClipboardParser: React.FC<ClipboardParserProps> = ({
               
             </div>
             
-            {clipboardHistory.length > 0 && <Button variant="outline" onClick={clearHistory} className="gap-1">
-                <Trash2 size={14} />
-                Clear All
-              </Button>}
+            {clipboardHistory.length > 0 && <div className="flex items-center gap-2">
+                <Select value={String(cap)} onValueChange={handleCapChange}>
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HISTORY_CAP_OPTIONS.map(option => <SelectItem key={option} value={String(option)}>
+                        Keep {option} items
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={clearHistory} className="gap-1">
+                  <Trash2 size={14} />
+                  Clear All
+                </Button>
+              </div>}
           </div>}
         
         {label && clipboardHistory.length > 0 && <p className="text-sm text-muted-foreground mt-1">
             Latest source: <code className="bg-muted px-1 py-0.5 rounded">{label}</code>
             <span className="ml-2">{clipboardHistory.length} {clipboardHistory.length === 1 ? 'item' : 'items'} in history</span>
           </p>}
+        
+        {clipboardHistory.length > 0 && <div className="relative mt-4">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search history..." className="pl-8" />
+          </div>}
       </header>
       
-      {clipboardHistory.length === 0 ? <EmptyState onPaste={handleAsyncPaste} hasAsyncClipboard={hasAsyncClipboard} /> : <div className="grid gap-6">
-          {clipboardHistory.map((item, index) => <ClipboardItem key={item.timestamp} data={item.data} index={index} />)}
+      {clipboardHistory.length === 0 ? <EmptyState onPaste={handleAsyncPaste} hasAsyncClipboard={hasAsyncClipboard} /> : visibleHistory.length === 0 ? <p className="text-sm text-muted-foreground text-center py-12">
+          No history entries match "{query}"
+        </p> : <div className="grid gap-6">
+          {visibleHistory.map((entry, index) => <ClipboardItem key={entry.id} data={entry.data} index={index} timestamp={entry.timestamp} pinned={entry.pinned} onDelete={() => deleteEntry(entry.id)} onTogglePin={() => togglePin(entry)} />)}
         </div>}
     </div>;
 };
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Copy } from 'lucide-react';
+import { copyHtmlAsWebflow, describeClipboardWrite } from '@/utils/clipboardWriter';
+
+interface HtmlConverterModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const HtmlConverterModal: React.FC<HtmlConverterModalProps> = ({ open, onClose }) => {
+  const [html, setHtml] = useState('');
+  const [css, setCss] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    const result = await copyHtmlAsWebflow(html, css);
+    setWarnings(result.warnings);
+    toast(describeClipboardWrite(result));
+
+    if (result.success) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>HTML to Webflow</DialogTitle>
+          <DialogDescription>
+            Convert markup and a stylesheet into elements you can paste into the Designer
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="converter-html">HTML</Label>
+            <Textarea
+              id="converter-html"
+              value={html}
+              onChange={(e) => setHtml(e.target.value)}
+              placeholder={'<section class="section_hero">\n  <h1 class="hero_title">Hello</h1>\n</section>'}
+              className="font-mono text-xs min-h-[240px]"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="converter-css">CSS</Label>
+            <Textarea
+              id="converter-css"
+              value={css}
+              onChange={(e) => setCss(e.target.value)}
+              placeholder={'.hero_title {\n  font-size: 3rem;\n}'}
+              className="font-mono text-xs min-h-[240px]"
+            />
+          </div>
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="text-xs text-amber-600 bg-amber-50 p-3 rounded-md max-h-32 overflow-y-auto">
+            {warnings.map((warning, i) => (
+              <p key={i}>{warning}</p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleCopy} disabled={!html.trim()} className="gap-1">
+            {copied ? <><Check size={14} /> Copied</> : <><Copy size={14} /> Copy to Webflow</>}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HtmlConverterModal;
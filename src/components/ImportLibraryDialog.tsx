@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ConflictStrategy, importLibraryBundle, LibraryBundle, parseLibraryBundle } from '@/utils/libraryBundle';
+
+interface ImportLibraryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  libraries: { id: string; name: string }[];
+  onImported: (libraryId: string) => void;
+}
+
+const NEW_LIBRARY = 'new';
+
+const CONFLICT_OPTIONS: { value: ConflictStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep the existing item' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace the existing item with the imported one' },
+  { value: 'duplicate', label: 'Duplicate', description: 'Add the imported item under a numbered title' }
+];
+
+const ImportLibraryDialog: React.FC<ImportLibraryDialogProps> = ({ open, onClose, libraries, onImported }) => {
+  const [bundle, setBundle] = useState<LibraryBundle | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [target, setTarget] = useState<string>(NEW_LIBRARY);
+  const [newLibraryName, setNewLibraryName] = useState('');
+  const [conflict, setConflict] = useState<ConflictStrategy>('skip');
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setBundle(null);
+    setFileError(null);
+    if (!file) return;
+
+    try {
+      const parsed = parseLibraryBundle(await file.text());
+      setBundle(parsed);
+      setNewLibraryName(parsed.library.name);
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
+  const reset = () => {
+    setBundle(null);
+    setFileError(null);
+    setProgress(0);
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!bundle || !user) return;
+
+    try {
+      setImporting(true);
+      setProgress(0);
+
+      let libraryId = target;
+      if (target === NEW_LIBRARY) {
+        const { data, error } = await supabase
+          .from('user_libraries')
+          .insert({
+            name: newLibraryName.trim(),
+            created_by: user.id,
+            is_shared: false
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+        libraryId = data.id;
+      }
+
+      const result = await importLibraryBundle(
+        bundle,
+        libraryId,
+        user.id,
+        conflict,
+        (done, total) => setProgress(Math.round((done / total) * 100))
+      );
+
+      const summary = [
+        `${result.created} added`,
+        result.updated > 0 && `${result.updated} overwritten`,
+        result.skipped > 0 && `${result.skipped} skipped`
+      ].filter(Boolean).join(', ');
+
+      if (result.failed.length > 0) {
+        toast({
+          title: "Import finished with errors",
+          description: `${summary}. Failed: ${result.failed.join(', ')}`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Library imported",
+          description: summary
+        });
+      }
+
+      onImported(libraryId);
+      reset();
+      onClose();
+    } catch (err) {
+      console.error('Error importing library:', err);
+      toast({
+        title: "Import failed",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const canImport = !!bundle && !importing && (target !== NEW_LIBRARY || !!newLibraryName.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload size={18} /> Import Library
+          </DialogTitle>
+          <DialogDescription>
+            Add the items of an exported library bundle to a new or existing library.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 my-2">
+          <div className="space-y-2">
+            <Label htmlFor="library-bundle">Bundle file</Label>
+            <Input id="library-bundle" type="file" accept=".json,application/json" onChange={handleFileChange} disabled={importing} />
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            {bundle && (
+              <p className="text-sm text-muted-foreground">
+                "{bundle.library.name}" with {bundle.items.length} item{bundle.items.length === 1 ? '' : 's'}
+                {bundle.exported_at && `, exported ${new Date(bundle.exported_at).toLocaleDateString()}`}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Import into</Label>
+            <Select value={target} onValueChange={setTarget} disabled={importing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_LIBRARY}>New library</SelectItem>
+                {libraries.map(library => (
+                  <SelectItem key={library.id} value={library.id}>{library.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {target === NEW_LIBRARY && (
+              <Input
+                placeholder="Library name"
+                value={newLibraryName}
+                onChange={e => setNewLibraryName(e.target.value)}
+                disabled={importing}
+              />
+            )}
+          </div>
+
+          {target !== NEW_LIBRARY && (
+            <div className="space-y-2">
+              <Label>When an item with the same title exists</Label>
+              <RadioGroup value={conflict} onValueChange={(value) => setConflict(value as ConflictStrategy)} disabled={importing}>
+                {CONFLICT_OPTIONS.map(option => (
+                  <div key={option.value} className="flex items-start space-x-2">
+                    <RadioGroupItem value={option.value} id={`conflict-${option.value}`} className="mt-0.5" />
+                    <Label htmlFor={`conflict-${option.value}`} className="font-normal">
+                      <span className="font-medium">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground">{option.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          {importing && <Progress value={progress} />}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            {importing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportLibraryDialog;
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { formatJson, isWebflowData } from '@/utils/clipboardUtils';
+import { diffLines, getDiffStats } from '@/utils/diffUtils';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import WebflowDiffView from './WebflowDiffView';
+
+interface ItemRevision {
+  id: string;
+  title: string;
+  content: string;
+  created_at: string;
+  author: { email: string } | null;
+}
+
+interface ItemHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: {
+    id: string;
+    title: string;
+    updated_at?: string;
+  };
+  canEdit: boolean;
+  onRestored: (item: Tables<'shared_clipboard_items'>) => void;
+}
+
+const ItemHistoryPanel: React.FC<ItemHistoryPanelProps> = ({ open, onOpenChange, item, canEdit, onRestored }) => {
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchRevisions = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('clipboard_item_revisions')
+          .select('id, title, content, created_at, author:users(email)')
+          .eq('item_id', item.id)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        setRevisions(data || []);
+        setSelectedId(data?.[0]?.id || null);
+      } catch (err) {
+        console.error('Error fetching item history:', err);
+        toast({
+          title: "Error loading history",
+          description: (err as Error).message,
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [open, item.id, item.updated_at, toast]);
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = revisions[selectedIndex];
+  // Revisions are newest first, so the one before is next in the list
+  const previous = revisions[selectedIndex + 1];
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    return diffLines(previous ? formatJson(previous.content) : '', formatJson(selected.content));
+  }, [selected, previous]);
+  const stats = getDiffStats(diff);
+  const canCompareStructure = useMemo(
+    () => !!selected && !!previous && isWebflowData(selected.content) && isWebflowData(previous.content),
+    [selected, previous]
+  );
+
+  const handleRestore = async (revision: ItemRevision) => {
+    try {
+      setRestoring(true);
+
+      let query = supabase
+        .from('shared_clipboard_items')
+        .update({ title: revision.title, content: revision.content })
+        .eq('id', item.id);
+
+      // Don't overwrite an edit made while the panel was open
+      if (item.updated_at) {
+        query = query.eq('updated_at', item.updated_at);
+      }
+
+      const { data, error } = await query.select();
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        toast({
+          title: "Item was changed",
+          description: "Someone else edited this item. Reload the library and try again.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      onRestored(data[0]);
+      toast({
+        title: "Version restored",
+        description: `Restored the version from ${new Date(revision.created_at).toLocaleString()}`
+      });
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      toast({
+        title: "Restore failed",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const lineDiff = (
+    <ScrollArea className="flex-1 border rounded-md bg-gray-50">
+      <pre className="text-xs font-mono">
+        {diff.map((line, i) => (
+          <div
+            key={i}
+            className={
+              line.type === 'added'
+                ? 'bg-green-100 text-green-900'
+                : line.type === 'removed'
+                  ? 'bg-red-100 text-red-900'
+                  : 'text-gray-600'
+            }
+          >
+            <span className="select-none inline-block w-4 text-center">
+              {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+            </span>
+            {line.value}
+          </div>
+        ))}
+      </pre>
+    </ScrollArea>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription>Every saved version of "{item.title}"</SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6">No history recorded for this item yet.</p>
+        ) : (
+          <div className="flex flex-1 gap-4 min-h-0">
+            <ScrollArea className="w-56 shrink-0 border rounded-md">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-3 py-2 border-b text-sm ${revision.id === selectedId ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {formatDistance(new Date(revision.created_at), new Date(), { addSuffix: true })}
+                    </span>
+                    {index === 0 && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Current</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {revision.author?.email || 'Unknown author'}
+                  </div>
+                </button>
+              ))}
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex-1 flex flex-col min-w-0 gap-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{selected.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {previous
+                        ? <>Changes in this version: <span className="text-green-600">+{stats.added}</span> <span className="text-red-600">-{stats.removed}</span></>
+                        : 'First version'}
+                      {previous && previous.title !== selected.title && ` · renamed from "${previous.title}"`}
+                    </p>
+                  </div>
+                  {canEdit && selectedIndex > 0 && (
+                    <Button size="sm" className="gap-1 shrink-0" onClick={() => handleRestore(selected)} disabled={restoring}>
+                      {restoring ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+
+                {canCompareStructure && previous ? (
+                  <Tabs defaultValue="structure" className="flex-1 flex flex-col min-h-0">
+                    <TabsList className="self-start">
+                      <TabsTrigger value="structure">Structure</TabsTrigger>
+                      <TabsTrigger value="lines">Lines</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="structure" className="flex-1 min-h-0">
+                      <ScrollArea className="h-full border rounded-md p-3">
+                        <WebflowDiffView before={previous.content} after={selected.content} />
+                      </ScrollArea>
+                    </TabsContent>
+                    <TabsContent value="lines" className="flex-1 min-h-0 flex flex-col">
+                      {lineDiff}
+                    </TabsContent>
+                  </Tabs>
+                ) : (
+                  lineDiff
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ItemHistoryPanel;
@@ -1,147 +1,142 @@
-import React, { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, AlertCircle, Library, Settings } from 'lucide-react';
+import { Loader2, AlertCircle, Library, Settings, Tag, CheckSquare } from 'lucide-react';
 import SharedClipboardItem from './SharedClipboardItem';
+import BulkActionsBar from './BulkActionsBar';
+import { Checkbox } from './ui/checkbox';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import { useAuth } from '@/context/AuthContext';
 import { Button } from './ui/button';
+import { removeScreenshots } from '@/utils/imageStorage';
+import { isDeletePending } from '@/utils/pendingDeletes';
+import { fetchItemTags, fetchLibraryTags, LibraryTag } from '@/utils/tagUtils';
+import { isPendingItem } from '@/utils/syncQueue';
+import { Badge } from './ui/badge';
+import { canChangeItem, canDeleteItem, fetchLibraryMembers } from '@/utils/libraryPermissions';
+import { subscribeToLibraryItems } from '@/utils/realtime';
+import { LibraryItem } from '@/utils/libraries';
+import { hasHostedFeatures } from '@/integrations/backend';
+import { libraryKeys, useDeleteLibraryItem, useLibraryItems, useLibraryPermissions } from '@/hooks/use-libraries';
 
 interface LibraryGridProps {
   libraryId: string | null;
+  highlightedItemId?: string | null;
 }
 
-interface SharedItem {
-  id: string;
-  title: string;
-  content: string;
-  content_type: string;
-  created_at: string;
-  created_by: string | null;
-  screenshot_url?: string | null;
-  library_id: string | null;
-}
-
-interface LibraryDetails {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-  created_by: string;
-  isOwner: boolean;
-}
+// Replace an item or add it, keeping the newest first
+const upsertItem = (items: LibraryItem[], item: LibraryItem): LibraryItem[] => {
+  const others = items.filter(existing => existing.id !== item.id);
+  const previous = items.find(existing => existing.id === item.id);
+  return [{ ...previous, ...item }, ...others].sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
 
-const LibraryGrid: React.FC<LibraryGridProps> = ({ libraryId }) => {
-  const [items, setItems] = useState<SharedItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [hasEditPermission, setHasEditPermission] = useState(false);
-  const [hasDeletePermission, setHasDeletePermission] = useState(false);
-  const [libraryDetails, setLibraryDetails] = useState<LibraryDetails | null>(null);
+const LibraryGrid: React.FC<LibraryGridProps> = ({ libraryId, highlightedItemId }) => {
+  const [libraryTags, setLibraryTags] = useState<LibraryTag[]>([]);
+  const [itemTags, setItemTags] = useState<Record<string, LibraryTag[]>>({});
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  // Items picked for a bulk action, while selecting is switched on
+  const [selecting, setSelecting] = useState(false);
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  // Who added items that arrived while the library was open
+  const [newItemAuthors, setNewItemAuthors] = useState<Record<string, string>>({});
+  const memberEmails = useRef<Record<string, string | null>>({});
   const { toast } = useToast();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { items, isLoading: loading, error } = useLibraryItems(user ? libraryId : null);
+  const { permissions } = useLibraryPermissions(user ? libraryId : null);
+  const deleteItem = useDeleteLibraryItem(libraryId);
 
   useEffect(() => {
-    if (libraryId && user) {
-      fetchLibraryItems(libraryId);
-      fetchLibraryDetails(libraryId);
-      checkLibraryPermissions(libraryId);
-    } else {
-      setItems([]);
-      setLoading(false);
+    setSelectedTagIds([]);
+    setSelecting(false);
+    setSelectedItemIds([]);
+  }, [libraryId]);
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error fetching library items:', error);
+      toast({
+        title: "Error loading library content",
+        description: error.message,
+        variant: "destructive"
+      });
     }
-  }, [libraryId, user]);
+  }, [error, toast]);
 
-  const fetchLibraryDetails = async (id: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('user_libraries')
-        .select('*')
-        .eq('id', id)
-        .single();
-      
-      if (error) throw error;
-      
-      if (data) {
-        setLibraryDetails({
-          ...data,
-          isOwner: data.created_by === user?.id
+  // Tags follow the items, so items added live get theirs too. Items still
+  // waiting to sync have no tags on the server yet.
+  const savedItemIds = items.filter(item => !isPendingItem(item)).map(item => item.id).join(',');
+  useEffect(() => {
+    if (!libraryId || !user || !hasHostedFeatures()) return;
+
+    Promise.all([fetchLibraryTags(libraryId), fetchItemTags(savedItemIds ? savedItemIds.split(',') : [])])
+      .then(([tags, tagsByItem]) => {
+        setLibraryTags(tags);
+        setItemTags(tagsByItem);
+      })
+      .catch(err => console.error('Error fetching library tags:', err));
+  }, [libraryId, user, savedItemIds]);
+
+  const getMemberEmail = useCallback(async (id: string, memberId: string): Promise<string | null> => {
+    if (!(memberId in memberEmails.current)) {
+      try {
+        const members = await fetchLibraryMembers(id);
+        members.forEach(member => {
+          memberEmails.current[member.user_id] = member.email;
         });
+      } catch (err) {
+        console.error('Error fetching library members:', err);
       }
-    } catch (err) {
-      console.error('Error fetching library details:', err);
     }
-  };
+    return memberEmails.current[memberId] || null;
+  }, []);
 
-  const checkLibraryPermissions = async (id: string) => {
-    try {
-      if (!user) return;
-
-      // Check if the user owns this library
-      const { data: ownLibrary, error: ownError } = await supabase
-        .from('user_libraries')
-        .select('id')
-        .eq('id', id)
-        .eq('created_by', user.id)
-        .single();
-
-      if (!ownError && ownLibrary) {
-        setHasEditPermission(true);
-        setHasDeletePermission(true);
+  const announceNewItem = useCallback(async (id: string, item: LibraryItem) => {
+    const author = (item.created_by && await getMemberEmail(id, item.created_by)) || 'A teammate';
+    setNewItemAuthors(current => ({ ...current, [item.id]: author }));
+
+    toast({
+      title: "New item added",
+      description: `${author} added "${item.title}"`
+    });
+  }, [getMemberEmail, toast]);
+
+  // Patch the list as other members add, edit, move and delete items
+  useEffect(() => {
+    if (!libraryId || !user) return;
+
+    setNewItemAuthors({});
+    memberEmails.current = {};
+
+    const key = libraryKeys.items(libraryId);
+
+    return subscribeToLibraryItems(libraryId, change => {
+      if (change.type === 'remove') {
+        queryClient.setQueryData<LibraryItem[]>(key, current => current?.filter(item => item.id !== change.itemId));
         return;
       }
 
-      // If not the owner, check permissions
-      const { data: permissions, error: permError } = await supabase
-        .from('shared_library_permissions')
-        .select('can_edit, can_delete')
-        .eq('library_id', id)
-        .eq('shared_with', user.id)
-        .single();
-
-      if (!permError && permissions) {
-        setHasEditPermission(permissions.can_edit);
-        setHasDeletePermission(permissions.can_delete);
-      } else {
-        setHasEditPermission(false);
-        setHasDeletePermission(false);
+      // Our own deletes waiting out their undo window stay hidden
+      if (isDeletePending(change.item.id)) return;
+      queryClient.setQueryData<LibraryItem[]>(key, current => current && upsertItem(current, change.item));
+
+      if (change.type === 'insert' && change.item.created_by && change.item.created_by !== user.id) {
+        announceNewItem(libraryId, change.item);
       }
-    } catch (err) {
-      console.error('Error checking library permissions:', err);
-      setHasEditPermission(false);
-      setHasDeletePermission(false);
-    }
-  };
+    });
+  }, [libraryId, user, queryClient, announceNewItem]);
 
-  const fetchLibraryItems = async (id: string) => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const { data, error } = await supabase
-        .from('shared_clipboard_items')
-        .select('*')
-        .eq('library_id', id)
-        .order('created_at', { ascending: false });
-        
-      if (error) throw error;
-      
-      setItems(data || []);
-    } catch (err: any) {
-      console.error('Error fetching library items:', err);
-      setError(err.message);
-      toast({
-        title: "Error loading library content",
-        description: err.message,
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Bring an item opened from search into view once it has loaded
+  useEffect(() => {
+    if (!highlightedItemId || loading) return;
+    document.getElementById(`library-item-${highlightedItemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedItemId, loading, items]);
 
   const handleDelete = async (id: string) => {
-    if (!hasDeletePermission && !(items.find(item => item.id === id)?.created_by === user?.id)) {
+    const item = items.find(item => item.id === id);
+    if (!item || !canDeleteItem(permissions, item, user?.id)) {
       toast({
         title: "Permission denied",
         description: "You don't have permission to delete this item",
@@ -151,39 +146,74 @@ const LibraryGrid: React.FC<LibraryGridProps> = ({ libraryId }) => {
     }
 
     try {
-      const { error } = await supabase
-        .from('shared_clipboard_items')
-        .delete()
-        .eq('id', id);
-        
-      if (error) throw error;
+      await deleteItem.mutateAsync(id);
       
-      setItems(items.filter(item => item.id !== id));
+      // The item is gone, so a failed cleanup only leaves unused files behind
+      removeScreenshots([item?.screenshot_url, item?.thumbnail_url]).catch(err =>
+        console.error('Error removing screenshots:', err)
+      );
       
       toast({
         title: "Item deleted",
         description: "The item has been successfully removed"
       });
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error deleting item:', err);
       toast({
         title: "Delete failed",
-        description: err.message,
+        description: (err as Error).message,
         variant: "destructive"
       });
     }
   };
 
-  const handleItemMoved = () => {
-    // Refresh the library items if an item was moved
+  const handleTagsChange = (itemId: string, tags: LibraryTag[]) => {
+    setItemTags(current => ({ ...current, [itemId]: tags }));
+    
+    // New tags may have been added to the vocabulary
     if (libraryId) {
-      fetchLibraryItems(libraryId);
+      fetchLibraryTags(libraryId)
+        .then(setLibraryTags)
+        .catch(err => console.error('Error fetching library tags:', err));
     }
   };
 
+  const handleBulkTagsChange = (tagsByItem: Record<string, LibraryTag[]>) => {
+    setItemTags(current => ({ ...current, ...tagsByItem }));
+    
+    if (libraryId) {
+      fetchLibraryTags(libraryId)
+        .then(setLibraryTags)
+        .catch(err => console.error('Error fetching library tags:', err));
+    }
+  };
+
+  const toggleItemSelection = (itemId: string) => {
+    setSelectedItemIds(current =>
+      current.includes(itemId) ? current.filter(id => id !== itemId) : [...current, itemId]
+    );
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedItemIds([]);
+  };
+
+  const handleItemUpdated = (updated: LibraryItem) => {
+    queryClient.setQueryData<LibraryItem[]>(libraryKeys.items(libraryId), current =>
+      current?.map(item => item.id === updated.id ? { ...item, ...updated } : item)
+    );
+  };
+
+  const toggleTagFilter = (tagId: string) => {
+    setSelectedTagIds(current =>
+      current.includes(tagId) ? current.filter(id => id !== tagId) : [...current, tagId]
+    );
+  };
+
   const renderManageLibraryButton = () => {
-    // Only show the button if the user is the owner or has edit/delete permissions
-    if (libraryDetails?.isOwner || hasEditPermission || hasDeletePermission) {
+    // Every member can open the settings, which show what their role allows
+    if (permissions.role) {
       return (
         <Button 
           variant="outline" 
@@ -214,7 +244,7 @@ const LibraryGrid: React.FC<LibraryGridProps> = ({ libraryId }) => {
       <Alert variant="destructive" className="mb-6">
         <AlertCircle className="h-4 w-4" />
         <AlertTitle>Error</AlertTitle>
-        <AlertDescription>{error}</AlertDescription>
+        <AlertDescription>{error.message}</AlertDescription>
       </Alert>
     );
   }
@@ -247,24 +277,105 @@ const LibraryGrid: React.FC<LibraryGridProps> = ({ libraryId }) => {
     );
   }
 
+  // Items matching any of the selected tags
+  const visibleItems = selectedTagIds.length === 0
+    ? items
+    : items.filter(item => (itemTags[item.id] || []).some(tag => selectedTagIds.includes(tag.id)));
+  const tagSuggestions = libraryTags.map(tag => tag.name);
+  // Items still waiting to sync can't take part in bulk actions
+  const selectableItems = visibleItems.filter(item => !isPendingItem(item));
+  const selectedItems = selectableItems.filter(item => selectedItemIds.includes(item.id));
+
   return (
     <>
-      {renderManageLibraryButton() && (
-        <div className="mb-4 flex justify-end">
-          {renderManageLibraryButton()}
+      <div className="mb-4 flex justify-end gap-2">
+        <Button
+          variant={selecting ? 'secondary' : 'outline'}
+          size="sm"
+          className="gap-2"
+          onClick={() => selecting ? stopSelecting() : setSelecting(true)}
+        >
+          <CheckSquare size={16} />
+          {selecting ? 'Done' : 'Select'}
+        </Button>
+        {renderManageLibraryButton()}
+      </div>
+      {selecting && (
+        <BulkActionsBar
+          libraryId={libraryId}
+          selectedItems={selectedItems}
+          visibleCount={selectableItems.length}
+          permissions={permissions}
+          itemTags={itemTags}
+          tagSuggestions={tagSuggestions}
+          onSelectAll={() => setSelectedItemIds(selectableItems.map(item => item.id))}
+          onClearSelection={() => setSelectedItemIds([])}
+          onTagsChange={handleBulkTagsChange}
+        />
+      )}
+      {libraryTags.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-1.5">
+          <Tag size={14} className="text-muted-foreground mr-1" />
+          {libraryTags.map(tag => (
+            <Badge
+              key={tag.id}
+              variant={selectedTagIds.includes(tag.id) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleTagFilter(tag.id)}
+            >
+              {tag.name}
+            </Badge>
+          ))}
+          {selectedTagIds.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setSelectedTagIds([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+      {visibleItems.length === 0 && (
+        <div className="text-center py-12 border rounded-lg bg-card text-muted-foreground">
+          No items with the selected tags
         </div>
       )}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {items.map(item => (
-          <SharedClipboardItem 
+        {visibleItems.map(item => (
+          <div 
             key={item.id} 
-            item={item} 
-            onDelete={handleDelete}
-            onMoved={handleItemMoved}
-            canDelete={hasDeletePermission || (item.created_by === user?.id)}
-            canEdit={hasEditPermission || (item.created_by === user?.id)}
-            showMoveOption={true}
-          />
+            id={`library-item-${item.id}`}
+            className={item.id === highlightedItemId || selectedItemIds.includes(item.id) ? 'rounded-lg ring-2 ring-primary ring-offset-2' : undefined}
+          >
+            {selecting && (
+              <label className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+                <Checkbox
+                  checked={selectedItemIds.includes(item.id)}
+                  onCheckedChange={() => toggleItemSelection(item.id)}
+                  disabled={isPendingItem(item)}
+                />
+                {isPendingItem(item) ? 'Waiting to sync' : 'Select'}
+              </label>
+            )}
+            {newItemAuthors[item.id] && (
+              <Badge
+                className="mb-1 text-xs font-normal cursor-pointer"
+                title="Dismiss"
+                onClick={() => setNewItemAuthors(({ [item.id]: _, ...rest }) => rest)}
+              >
+                New · added by {newItemAuthors[item.id]}
+              </Badge>
+            )}
+            <SharedClipboardItem 
+              item={item} 
+              tags={itemTags[item.id]}
+              tagSuggestions={tagSuggestions}
+              onDelete={handleDelete}
+              onTagsChange={handleTagsChange}
+              onUpdated={handleItemUpdated}
+              canDelete={canDeleteItem(permissions, item, user?.id)}
+              canEdit={canChangeItem(permissions, item, user?.id)}
+              showMoveOption={true}
+            />
+          </div>
         ))}
       </div>
     </>
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Edit, Trash2, Loader2, Library, AlertCircle } from 'lucide-react';
+import { Plus, Edit, Trash2, Loader2, Library, AlertCircle, Upload, Download } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
+import { hasHostedFeatures } from '@/integrations/backend';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   Dialog,
   DialogContent,
@@ -26,13 +27,10 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-
-interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-}
+import ImportLibraryDialog from './ImportLibraryDialog';
+import { downloadLibraryBundle, exportLibraryBundle } from '@/utils/libraryBundle';
+import { countLibraryItems, UserLibrary } from '@/utils/libraries';
+import { libraryKeys, useCreateLibrary, useDeleteLibrary, useLibraries, useUpdateLibrary } from '@/hooks/use-libraries';
 
 interface LibraryManagerProps {
   open: boolean;
@@ -51,25 +49,34 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
   onLibraryCreated,
   onLibraryDeleted
 }) => {
-  const [libraries, setLibraries] = useState<UserLibrary[]>([]);
-  const [loading, setLoading] = useState(true);
   const [newLibraryName, setNewLibraryName] = useState('');
-  const [creatingLibrary, setCreatingLibrary] = useState(false);
   const [editLibrary, setEditLibrary] = useState<UserLibrary | null>(null);
   const [isShared, setIsShared] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [libraryToDelete, setLibraryToDelete] = useState<string | null>(null);
-  const [deletingLibrary, setDeletingLibrary] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
   const [libraryItems, setLibraryItems] = useState<number>(0);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { libraries: { own: libraries }, isLoading: loading, error: librariesError } = useLibraries();
+  const createLibrary = useCreateLibrary();
+  const updateLibrary = useUpdateLibrary();
+  const deleteLibrary = useDeleteLibrary();
+  const creatingLibrary = createLibrary.isPending;
+  const deletingLibrary = deleteLibrary.isPending;
 
   useEffect(() => {
-    if (user && open) {
-      fetchLibraries();
+    if (librariesError) {
+      toast({
+        title: "Error fetching libraries",
+        description: librariesError.message,
+        variant: "destructive"
+      });
     }
-  }, [user, open]);
+  }, [librariesError, toast]);
   
   useEffect(() => {
     if (libraryToDelete) {
@@ -77,42 +84,10 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
     }
   }, [libraryToDelete]);
 
-  const fetchLibraries = async () => {
-    try {
-      setLoading(true);
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('user_libraries')
-        .select('*')
-        .eq('created_by', user.id)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-      
-      setLibraries(data || []);
-    } catch (error: any) {
-      toast({
-        title: "Error fetching libraries",
-        description: error.message,
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const checkLibraryItems = async (libraryId: string) => {
     try {
-      const { count, error } = await supabase
-        .from('shared_clipboard_items')
-        .select('*', { count: 'exact', head: true })
-        .eq('library_id', libraryId);
-
-      if (error) throw error;
-      
-      setLibraryItems(count || 0);
-    } catch (error: any) {
+      setLibraryItems(await countLibraryItems(libraryId));
+    } catch (error) {
       console.error("Error checking library items:", error);
       setLibraryItems(0);
     }
@@ -122,21 +97,8 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
     if (!newLibraryName.trim() || !user) return;
 
     try {
-      setCreatingLibrary(true);
+      const data = await createLibrary.mutateAsync({ name: newLibraryName, is_shared: isShared });
 
-      const { data, error } = await supabase
-        .from('user_libraries')
-        .insert({
-          name: newLibraryName.trim(),
-          created_by: user.id,
-          is_shared: isShared
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setLibraries([...libraries, data]);
       setNewLibraryName('');
       setIsShared(false);
 
@@ -149,14 +111,12 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
         title: "Library created",
         description: `"${data.name}" library has been created.`
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error creating library",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive"
       });
-    } finally {
-      setCreatingLibrary(false);
     }
   };
 
@@ -164,29 +124,20 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
     if (!editLibrary) return;
 
     try {
-      const { data, error } = await supabase
-        .from('user_libraries')
-        .update({ 
-          name: editLibrary.name.trim(),
-          is_shared: editLibrary.is_shared 
-        })
-        .eq('id', editLibrary.id)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setLibraries(libraries.map(lib => lib.id === data.id ? data : lib));
       setEditLibrary(null);
+      const data = await updateLibrary.mutateAsync({
+        id: editLibrary.id,
+        values: { name: editLibrary.name, is_shared: editLibrary.is_shared }
+      });
 
       toast({
         title: "Library updated",
         description: `"${data.name}" library has been updated.`
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error updating library",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive"
       });
     }
@@ -216,34 +167,7 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
     }
 
     try {
-      setDeletingLibrary(true);
-
-      // First, delete any shared library permissions for this library
-      const { error: permissionsError } = await supabase
-        .from('shared_library_permissions')
-        .delete()
-        .eq('library_id', libraryToDelete);
-        
-      if (permissionsError) throw permissionsError;
-
-      // Then, update all clipboard items to set their library_id to null
-      const { error: updateError } = await supabase
-        .from('shared_clipboard_items')
-        .update({ library_id: null })
-        .eq('library_id', libraryToDelete);
-
-      if (updateError) throw updateError;
-      
-      // Finally, delete the library
-      const { error: deleteError } = await supabase
-        .from('user_libraries')
-        .delete()
-        .eq('id', libraryToDelete);
-
-      if (deleteError) throw deleteError;
-
-      // Update local state
-      setLibraries(libraries.filter(lib => lib.id !== libraryToDelete));
+      await deleteLibrary.mutateAsync(libraryToDelete);
 
       // Notify the parent component about the deletion
       if (onLibraryDeleted) {
@@ -262,20 +186,44 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
         title: "Library deleted",
         description: "Library has been deleted successfully."
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error deleting library",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive"
       });
     } finally {
-      setDeletingLibrary(false);
       setDeleteDialogOpen(false);
       setLibraryToDelete(null);
       setDeleteConfirmText('');
     }
   };
 
+  const handleExportBeforeDelete = async () => {
+    if (!libraryToDelete) return;
+
+    try {
+      setExporting(true);
+      downloadLibraryBundle(await exportLibraryBundle(libraryToDelete));
+    } catch (err) {
+      console.error('Error exporting library:', err);
+      toast({
+        title: "Export failed",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleLibraryImported = () => {
+    queryClient.invalidateQueries({ queryKey: libraryKeys.lists() });
+    if (onLibraryCreated) {
+      onLibraryCreated();
+    }
+  };
+
   const getLibraryName = (id: string | null) => {
     if (!id) return '';
     const library = libraries.find(lib => lib.id === id);
@@ -424,6 +372,19 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
                     </Button>
                   </div>
                 </div>
+
+                {hasHostedFeatures() && (
+                  <div className="pt-2 border-t mt-4">
+                    <h3 className="text-sm font-medium mb-2">Import library</h3>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Restore a backup or add a component kit from an exported bundle file.
+                    </p>
+                    <Button variant="outline" className="w-full" onClick={() => setImportOpen(true)}>
+                      <Upload size={16} className="mr-2" />
+                      Import from file
+                    </Button>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -449,6 +410,13 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
               <br/><br/>
               To confirm deletion of "{getLibraryName(libraryToDelete)}", please type <strong>DELETE</strong> below:
             </AlertDialogDescription>
+
+            {libraryItems > 0 && hasHostedFeatures() && (
+              <Button variant="outline" size="sm" className="gap-1 self-start" onClick={handleExportBeforeDelete} disabled={exporting}>
+                {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                Export a backup first
+              </Button>
+            )}
             
             <div className="mt-4">
               <Input
@@ -476,6 +444,13 @@ const LibraryManager: React.FC<LibraryManagerProps> = ({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ImportLibraryDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        libraries={libraries}
+        onImported={handleLibraryImported}
+      />
     </>
   );
 };
@@ -1,10 +1,11 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Library, ChevronDown, Plus, Share } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
 import LibraryManager from './LibraryManager';
+import { flattenLibraries, UserLibrary } from '@/utils/libraries';
+import { useLibraries } from '@/hooks/use-libraries';
 import {
   Popover,
   PopoverContent,
@@ -20,14 +21,6 @@ import {
   CommandSeparator,
 } from '@/components/ui/command';
 
-interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-  shared_by?: string;
-}
-
 interface LibrarySelectorProps {
   selectedLibraryId: string | null;
   onLibraryChange: (library: UserLibrary) => void;
@@ -39,111 +32,45 @@ const LibrarySelector: React.FC<LibrarySelectorProps> = ({
   onLibraryChange,
   disabled = false
 }) => {
-  const [libraries, setLibraries] = useState<UserLibrary[]>([]);
-  const [sharedLibraries, setSharedLibraries] = useState<UserLibrary[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedLibrary, setSelectedLibrary] = useState<UserLibrary | null>(null);
   const [open, setOpen] = useState(false);
   const [manageOpen, setManageOpen] = useState(false);
   const { user } = useAuth();
+  const { libraries: accessible, isLoading, error } = useLibraries();
+  const loading = !!user && isLoading;
+  const libraries = accessible.own;
+  // Everything the user can open but doesn't own, including workspace libraries
+  const sharedLibraries = useMemo(
+    () => flattenLibraries(accessible).filter(library => !!library.shared_by),
+    [accessible]
+  );
 
   useEffect(() => {
-    if (user) {
-      fetchLibraries();
-    } else {
-      setLibraries([]);
-      setSharedLibraries([]);
-      setSelectedLibrary(null);
-      setLoading(false);
+    if (error) {
+      console.error("Error fetching libraries:", error);
     }
-  }, [user]);
+  }, [error]);
 
-  const fetchLibraries = async () => {
-    try {
-      setLoading(true);
-      if (!user) {
-        setLibraries([]);
-        setSharedLibraries([]);
-        setSelectedLibrary(null);
-        setLoading(false);
-        return;
-      }
-
-      // Fetch user's own libraries
-      const { data: ownLibraries, error: ownError } = await supabase
-        .from('user_libraries')
-        .select('*')
-        .eq('created_by', user.id)
-        .order('created_at', { ascending: true });
+  // Keep the selection valid as the libraries load and change
+  useEffect(() => {
+    if (!user || loading) {
+      setSelectedLibrary(null);
+      return;
+    }
 
-      if (ownError) throw ownError;
-      setLibraries(ownLibraries || []);
-      
-      // Fetch libraries shared with the user
-      const { data: permissions, error: permissionsError } = await supabase
-        .from('shared_library_permissions')
-        .select('library_id, shared_by')
-        .eq('shared_with', user.id);
+    const allLibraries = [...libraries, ...sharedLibraries];
+    const selected = selectedLibraryId ? allLibraries.find(lib => lib.id === selectedLibraryId) : undefined;
 
-      if (permissionsError) throw permissionsError;
-      
-      if (permissions && permissions.length > 0) {
-        // Get unique library ids
-        const libraryIds = [...new Set(permissions.map(p => p.library_id))];
-        
-        if (libraryIds.length > 0) {
-          const { data: sharedLibs, error: sharedError } = await supabase
-            .from('user_libraries')
-            .select('*')
-            .in('id', libraryIds)
-            .order('created_at', { ascending: true });
-            
-          if (sharedError) throw sharedError;
-          
-          // Add shared_by information to each library
-          const sharedWithInfo = (sharedLibs || []).map(lib => {
-            const permission = permissions.find(p => p.library_id === lib.id);
-            return {
-              ...lib,
-              shared_by: permission?.shared_by || null
-            };
-          });
-          
-          setSharedLibraries(sharedWithInfo);
-        }
-      } else {
-        setSharedLibraries([]);
-      }
-      
-      // All available libraries (owned + shared)
-      const allLibraries = [...(ownLibraries || []), ...(sharedLibraries || [])];
-      
-      // If there's a selectedLibraryId, find and select that library
-      if (selectedLibraryId && allLibraries.length > 0) {
-        const selected = allLibraries.find(lib => lib.id === selectedLibraryId);
-        if (selected) {
-          setSelectedLibrary(selected);
-        } else if (allLibraries.length > 0) {
-          // Default to the first library if selected library not found
-          setSelectedLibrary(allLibraries[0]);
-          onLibraryChange(allLibraries[0]);
-        }
-      } else if (allLibraries.length > 0 && !selectedLibraryId) {
-        // If no library is selected but libraries exist, select the first one
-        setSelectedLibrary(allLibraries[0]);
-        onLibraryChange(allLibraries[0]);
-      } else {
-        setSelectedLibrary(null);
-      }
-    } catch (error) {
-      console.error("Error fetching libraries:", error);
-      setLibraries([]);
-      setSharedLibraries([]);
+    if (selected) {
+      setSelectedLibrary(selected);
+    } else if (allLibraries.length > 0) {
+      // Default to the first library if none is selected or it's gone
+      setSelectedLibrary(allLibraries[0]);
+      onLibraryChange(allLibraries[0]);
+    } else {
       setSelectedLibrary(null);
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [user, loading, libraries, sharedLibraries, selectedLibraryId, onLibraryChange]);
 
   const handleSelectLibrary = (library: UserLibrary) => {
     if (!library) return;
@@ -157,8 +84,6 @@ const LibrarySelector: React.FC<LibrarySelectorProps> = ({
     setSelectedLibrary(library);
     onLibraryChange(library);
     setManageOpen(false);
-    // Refresh the libraries list
-    fetchLibraries();
   };
 
   const handleCreateLibrary = () => {
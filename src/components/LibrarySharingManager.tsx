@@ -4,8 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Share, Users, Loader2, Trash2 } from 'lucide-react';
 import { 
   Dialog,
@@ -16,13 +16,16 @@ import {
 } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
-
-interface SharePermission {
-  id: string;
-  shared_with: string;
-  can_edit: boolean;
-  can_delete: boolean;
-}
+import {
+  fetchLibraryMembers,
+  fetchLibraryPermissions,
+  getAssignableRoles,
+  LibraryMember,
+  LibraryRole,
+  ROLE_LABELS
+} from '@/utils/libraryPermissions';
+import useLibraryInvitations from './library-settings/useLibraryInvitations';
+import PendingInvitationsList from './library-settings/PendingInvitationsList';
 
 interface LibrarySharingManagerProps {
   onClose: () => void;
@@ -31,7 +34,9 @@ interface LibrarySharingManagerProps {
 
 const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose, libraryId }) => {
   const [email, setEmail] = useState('');
-  const [sharedPermissions, setSharedPermissions] = useState<SharePermission[]>([]);
+  const [newMemberRole, setNewMemberRole] = useState<LibraryRole>('viewer');
+  const [members, setMembers] = useState<LibraryMember[]>([]);
+  const [currentRole, setCurrentRole] = useState<LibraryRole | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingPermissions, setLoadingPermissions] = useState(true);
   const [libraryName, setLibraryName] = useState('');
@@ -70,26 +75,17 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
     try {
       setLoadingPermissions(true);
       
-      // Fetch all permissions for the specific library
-      const { data, error } = await supabase
-        .from('shared_library_permissions')
-        .select(`
-          id,
-          shared_with,
-          can_edit,
-          can_delete
-        `)
-        .eq('shared_by', user.id)
-        .eq('library_id', libraryId);
+      const [libraryMembers, permissions] = await Promise.all([
+        fetchLibraryMembers(libraryId),
+        fetchLibraryPermissions(libraryId)
+      ]);
       
-      if (error) throw error;
-      
-      // For simplicity, we're just using the UUID - in a production app, you would want to fetch user profiles/emails
-      setSharedPermissions(data || []);
-    } catch (error: any) {
+      setMembers(libraryMembers);
+      setCurrentRole(permissions.role);
+    } catch (error) {
       toast({
         title: "Error fetching sharing permissions",
-        description: error.message || "An error occurred fetching permissions",
+        description: (error as Error).message || "An error occurred fetching permissions",
         variant: "destructive"
       });
     } finally {
@@ -97,6 +93,15 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
     }
   };
 
+  const assignableRoles = getAssignableRoles(currentRole);
+  const {
+    invitations,
+    handleInvite,
+    handleResend,
+    handleCopyLink,
+    handleRevoke
+  } = useLibraryInvitations(libraryId, assignableRoles.length > 0);
+
   const handleShare = async () => {
     if (!email.trim() || !user || !libraryId) return;
     
@@ -109,12 +114,13 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
         { email_input: email.toLowerCase().trim() }
       );
       
-      if (userError || !userData) {
-        toast({
-          title: "User not found",
-          description: "No user with that email address was found",
-          variant: "destructive"
-        });
+      if (userError) throw userError;
+      
+      // No account yet, so invite them to sign up
+      if (!userData) {
+        if (await handleInvite(email, newMemberRole)) {
+          setEmail('');
+        }
         return;
       }
       
@@ -130,21 +136,12 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
         return;
       }
       
-      // Check if this specific library is already shared with this user
-      const { data: existingPermission, error: checkError } = await supabase
-        .from('shared_library_permissions')
-        .select('id')
-        .eq('shared_by', user.id)
-        .eq('shared_with', recipientId)
-        .eq('library_id', libraryId)
-        .maybeSingle();
-        
-      if (checkError) throw checkError;
-      
-      if (existingPermission) {
+      // Each user has one role per library. Workspace members can be given
+      // a library role that overrides their workspace role.
+      if (members.some(member => member.user_id === recipientId && member.source !== 'workspace')) {
         toast({
           title: "Already shared",
-          description: `You've already shared "${libraryName}" with this user`,
+          description: `This user already has access to "${libraryName}"`,
         });
         return;
       }
@@ -155,8 +152,7 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
         .insert({
           shared_by: user.id,
           shared_with: recipientId,
-          can_edit: false,
-          can_delete: false,
+          role: newMemberRole,
           library_id: libraryId
         })
         .select()
@@ -185,31 +181,30 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
     }
   };
 
-  const updatePermissions = async (id: string, field: 'can_edit' | 'can_delete', value: boolean) => {
+  const updateRole = async (id: string, role: LibraryRole) => {
     if (!user) return;
     
     try {
       const { error } = await supabase
         .from('shared_library_permissions')
-        .update({ [field]: value })
-        .eq('id', id)
-        .eq('shared_by', user.id);
+        .update({ role })
+        .eq('id', id);
       
       if (error) throw error;
       
       // Update local state
-      setSharedPermissions(prev => 
-        prev.map(p => p.id === id ? { ...p, [field]: value } : p)
+      setMembers(prev => 
+        prev.map(member => member.permission_id === id ? { ...member, role } : member)
       );
       
       toast({
-        title: "Permissions updated",
-        description: `Sharing permission has been updated`,
+        title: "Role updated",
+        description: `Member is now ${ROLE_LABELS[role].toLowerCase()}`,
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
-        title: "Error updating permissions",
-        description: error.message || "An error occurred updating permissions",
+        title: "Error updating role",
+        description: (error as Error).message || "An error occurred updating the role",
         variant: "destructive"
       });
     }
@@ -222,22 +217,21 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
       const { error } = await supabase
         .from('shared_library_permissions')
         .delete()
-        .eq('id', id)
-        .eq('shared_by', user.id);
+        .eq('id', id);
       
       if (error) throw error;
       
       // Update local state
-      setSharedPermissions(prev => prev.filter(p => p.id !== id));
+      setMembers(prev => prev.filter(member => member.permission_id !== id));
       
       toast({
         title: "Sharing removed",
-        description: "This user no longer has access to your library",
+        description: "This user no longer has access to the library",
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error removing sharing",
-        description: error.message || "An error occurred removing sharing permission",
+        description: (error as Error).message || "An error occurred removing sharing permission",
         variant: "destructive"
       });
     }
@@ -265,9 +259,19 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
                 className="w-full"
               />
             </div>
+            <Select value={newMemberRole} onValueChange={(value) => setNewMemberRole(value as LibraryRole)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assignableRoles.map(role => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button 
               onClick={handleShare} 
-              disabled={loading || !email.trim()}
+              disabled={loading || !email.trim() || assignableRoles.length === 0}
               className="gap-2"
             >
               {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Share size={16} />}
@@ -285,59 +289,64 @@ const LibrarySharingManager: React.FC<LibrarySharingManagerProps> = ({ onClose,
               <div className="flex justify-center py-4">
                 <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
               </div>
-            ) : sharedPermissions.length === 0 ? (
+            ) : members.length <= 1 ? (
               <div className="text-center py-4 text-muted-foreground">
-                <p>You haven't shared "{libraryName}" with anyone yet.</p>
+                <p>"{libraryName}" hasn't been shared with anyone yet.</p>
               </div>
             ) : (
               <div className="space-y-3">
-                {sharedPermissions.map(permission => (
-                  <Card key={permission.id} className="overflow-hidden">
-                    <CardContent className="p-3">
-                      <div className="flex flex-col gap-3">
-                        <div className="flex justify-between items-center">
-                          <span className="font-mono text-sm truncate">
-                            {permission.shared_with}
+                {members.map(member => {
+                  const permissionId = member.permission_id;
+                  const canManage = !!permissionId && assignableRoles.includes(member.role);
+
+                  return (
+                    <Card key={member.user_id} className="overflow-hidden">
+                      <CardContent className="p-3">
+                        <div className="flex justify-between items-center gap-2">
+                          <span className="text-sm truncate flex-1">
+                            {member.email || member.user_id}
                           </span>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => removeSharing(permission.id)}
-                            className="h-8 w-8 p-0"
-                          >
-                            <Trash2 size={16} />
-                          </Button>
+                          {canManage ? (
+                            <>
+                              <Select
+                                value={member.role}
+                                onValueChange={(value) => updateRole(permissionId, value as LibraryRole)}
+                              >
+                                <SelectTrigger className="w-[130px] h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {assignableRoles.map(role => (
+                                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => removeSharing(permissionId)}
+                                className="h-8 w-8 p-0"
+                              >
+                                <Trash2 size={16} />
+                              </Button>
+                            </>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role]}{member.source === 'workspace' && ' · workspace'}</span>
+                          )}
                         </div>
-                        
-                        <div className="flex justify-between items-center gap-4">
-                          <div className="flex items-center space-x-2">
-                            <Switch
-                              id={`edit-${permission.id}`}
-                              checked={permission.can_edit}
-                              onCheckedChange={(checked) => {
-                                updatePermissions(permission.id, 'can_edit', checked);
-                              }}
-                            />
-                            <Label htmlFor={`edit-${permission.id}`}>Can edit</Label>
-                          </div>
-                          
-                          <div className="flex items-center space-x-2">
-                            <Switch
-                              id={`delete-${permission.id}`}
-                              checked={permission.can_delete}
-                              onCheckedChange={(checked) => {
-                                updatePermissions(permission.id, 'can_delete', checked);
-                              }}
-                            />
-                            <Label htmlFor={`delete-${permission.id}`}>Can delete</Label>
-                          </div>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
             )}
+
+            <PendingInvitationsList
+              invitations={invitations}
+              onResend={handleResend}
+              onCopyLink={handleCopyLink}
+              onRevoke={handleRevoke}
+            />
           </div>
         </div>
         
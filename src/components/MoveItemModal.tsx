@@ -1,9 +1,7 @@
 
-import React, { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/context/AuthContext';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, MoveRight } from 'lucide-react';
+import { Copy, Loader2, MoveRight } from 'lucide-react';
 import { 
   Dialog, 
   DialogContent, 
@@ -14,142 +12,176 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-
-interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-}
+import { ToastAction } from '@/components/ui/toast';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+import { deleteLibraryItem, flattenLibraries, moveLibraryItem } from '@/utils/libraries';
+import { isRoleAtLeast } from '@/utils/libraryPermissions';
+import { removeScreenshots } from '@/utils/imageStorage';
+import { BulkResult, copyLibraryItem, countItems, runBulk } from '@/utils/bulkItems';
+import { libraryKeys, useLibraries, useLibraryItems, useMoveLibraryItems } from '@/hooks/use-libraries';
 
 interface MoveItemModalProps {
   open: boolean;
   onClose: () => void;
-  itemId: string;
+  itemIds: string[];
   currentLibraryId: string | null;
+  // Copying leaves the items where they are
+  mode?: 'move' | 'copy';
   onMoveComplete: () => void;
 }
 
 const MoveItemModal: React.FC<MoveItemModalProps> = ({
   open,
   onClose,
-  itemId,
+  itemIds,
   currentLibraryId,
+  mode = 'move',
   onMoveComplete
 }) => {
-  const [libraries, setLibraries] = useState<UserLibrary[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedLibraryId, setSelectedLibraryId] = useState<string | null>(null);
-  const [moving, setMoving] = useState(false);
-  const { user } = useAuth();
+  const [copying, setCopying] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { libraries: accessible, isLoading: loading, error } = useLibraries();
+  // Copies are made from the items already loaded for the current library
+  const { items: currentItems } = useLibraryItems(open && mode === 'copy' ? currentLibraryId : null);
+  const moveItems = useMoveLibraryItems(currentLibraryId);
+  const moving = moveItems.isPending || copying;
+  const isCopy = mode === 'copy';
 
-  // Fetch libraries that the user has access to
-  useEffect(() => {
-    if (!user || !open) return;
-    
-    fetchLibraries();
-  }, [user, open]);
+  // Other libraries whose role allows adding items
+  const libraries = useMemo(
+    () => flattenLibraries(accessible).filter(lib =>
+      lib.id !== currentLibraryId && !!lib.role && isRoleAtLeast(lib.role, 'contributor')
+    ),
+    [accessible, currentLibraryId]
+  );
 
-  const fetchLibraries = async () => {
-    try {
-      setLoading(true);
-      
-      // Fetch user's own libraries
-      const { data: ownLibraries, error: ownError } = await supabase
-        .from('user_libraries')
-        .select('*')
-        .eq('created_by', user?.id)
-        .order('created_at', { ascending: true });
-      
-      if (ownError) throw ownError;
-      
-      // Fetch libraries that have been shared with the user and they have edit permissions
-      const { data: permissions, error: permError } = await supabase
-        .from('shared_library_permissions')
-        .select('library_id')
-        .eq('shared_with', user?.id)
-        .eq('can_edit', true);
-      
-      if (permError) throw permError;
-      
-      let allLibraries = ownLibraries || [];
-      
-      // If there are shared libraries with edit permissions, fetch their details
-      if (permissions && permissions.length > 0) {
-        const sharedLibraryIds = permissions.map(p => p.library_id);
-        
-        const { data: sharedLibraries, error: sharedError } = await supabase
-          .from('user_libraries')
-          .select('*')
-          .in('id', sharedLibraryIds);
-          
-        if (sharedError) throw sharedError;
-        
-        if (sharedLibraries) {
-          allLibraries = [...allLibraries, ...sharedLibraries];
-        }
-      }
-      
-      // Filter out the current library
-      const filteredLibraries = allLibraries.filter(lib => lib.id !== currentLibraryId);
-      setLibraries(filteredLibraries);
-      
-      // Set first library as default selection if any exist
-      if (filteredLibraries.length > 0) {
-        setSelectedLibraryId(filteredLibraries[0].id);
-      } else {
-        setSelectedLibraryId(null);
-      }
-    } catch (error: any) {
+  useEffect(() => {
+    if (error) {
       console.error('Error fetching libraries:', error);
       toast({
         title: "Error fetching libraries",
         description: error.message,
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
+  }, [error, toast]);
+
+  // Set first library as default selection if any exist
+  useEffect(() => {
+    if (!open) return;
+    setSelectedLibraryId(current =>
+      libraries.some(lib => lib.id === current) ? current : libraries[0]?.id || null
+    );
+  }, [open, libraries]);
+
+  const describeResult = (result: BulkResult<unknown>, targetName: string) => {
+    const done = result.succeeded.length;
+    const verb = isCopy ? 'copied' : 'moved';
+    if (result.failed.length === 0) {
+      return {
+        title: itemIds.length === 1 ? `Item ${verb} successfully` : `${countItems(done)} ${verb}`,
+        description: `The ${done === 1 ? 'item has' : 'items have'} been ${verb} to "${targetName}".`
+      };
+    }
+    return {
+      title: `${countItems(done)} of ${itemIds.length} ${verb}`,
+      description: `${countItems(result.failed.length)} could not be ${verb}: ${result.failed[0].message}`,
+      variant: done === 0 ? 'destructive' as const : 'default' as const
+    };
+  };
+
+  const undoMove = async (movedIds: string[], targetId: string) => {
+    if (!currentLibraryId) return;
+    const result = await runBulk(movedIds, itemId => moveLibraryItem(itemId, currentLibraryId));
+    queryClient.invalidateQueries({ queryKey: libraryKeys.items(currentLibraryId) });
+    queryClient.invalidateQueries({ queryKey: libraryKeys.items(targetId) });
+    toast(result.failed.length === 0
+      ? { title: "Move undone", description: `${countItems(movedIds.length)} moved back.` }
+      : { title: "Undo failed", description: `${countItems(result.failed.length)} could not be moved back.`, variant: "destructive" });
+  };
+
+  const undoCopy = async (copies: { id: string; screenshot_url: string | null; thumbnail_url: string | null }[], targetId: string) => {
+    const result = await runBulk(copies.map(copy => copy.id), async itemId => {
+      await deleteLibraryItem(itemId);
+      return itemId;
+    });
+    // The copies had their own screenshot files
+    removeScreenshots(
+      copies
+        .filter(copy => result.succeeded.includes(copy.id))
+        .flatMap(copy => [copy.screenshot_url, copy.thumbnail_url])
+    ).catch(err => console.error('Error removing screenshots:', err));
+    queryClient.invalidateQueries({ queryKey: libraryKeys.items(targetId) });
+    toast(result.failed.length === 0
+      ? { title: "Copy undone", description: `${countItems(copies.length)} removed.` }
+      : { title: "Undo failed", description: `${countItems(result.failed.length)} could not be removed.`, variant: "destructive" });
   };
 
   const handleMove = async () => {
     if (!selectedLibraryId) {
       toast({
         title: "No target library selected",
-        description: "Please select a library to move this item to.",
+        description: `Please select a library to ${mode} ${itemIds.length === 1 ? 'this item' : 'these items'} to.`,
         variant: "destructive"
       });
       return;
     }
 
+    const target = libraries.find(lib => lib.id === selectedLibraryId);
+    const targetName = target?.name || 'the selected library';
+    const onProgress = (done: number, total: number) => setProgress(`${done}/${total}`);
+
     try {
-      setMoving(true);
-      
-      // Update the item's library_id
-      const { error } = await supabase
-        .from('shared_clipboard_items')
-        .update({ library_id: selectedLibraryId })
-        .eq('id', itemId);
-        
-      if (error) throw error;
-      
-      toast({
-        title: "Item moved successfully",
-        description: "The item has been moved to the selected library."
-      });
+      if (isCopy) {
+        if (!user) return;
+        setCopying(true);
+        const items = currentItems.filter(item => itemIds.includes(item.id));
+        const result = await runBulk(
+          items.map(item => item.id),
+          itemId => copyLibraryItem(items.find(item => item.id === itemId)!, selectedLibraryId, user.id),
+          onProgress
+        );
+        queryClient.invalidateQueries({ queryKey: libraryKeys.items(selectedLibraryId) });
+
+        toast({
+          ...describeResult(result, targetName),
+          action: result.succeeded.length > 0 ? (
+            <ToastAction altText="Undo copy" onClick={() => undoCopy(result.succeeded, selectedLibraryId)}>
+              Undo
+            </ToastAction>
+          ) : undefined
+        });
+      } else {
+        // The items leave this library's list before the requests finish
+        const result = await moveItems.mutateAsync({ itemIds, libraryId: selectedLibraryId, onProgress });
+
+        toast({
+          ...describeResult(result, targetName),
+          action: result.succeeded.length > 0 && currentLibraryId ? (
+            <ToastAction altText="Undo move" onClick={() => undoMove(result.succeeded, selectedLibraryId)}>
+              Undo
+            </ToastAction>
+          ) : undefined
+        });
+      }
       
       onMoveComplete();
       onClose();
-    } catch (error: any) {
-      console.error('Error moving item:', error);
+    } catch (error) {
+      console.error(`Error during ${mode}:`, error);
       toast({
-        title: "Failed to move item",
-        description: error.message,
+        title: `Failed to ${mode} ${itemIds.length === 1 ? 'item' : 'items'}`,
+        description: (error as Error).message,
         variant: "destructive"
       });
     } finally {
-      setMoving(false);
+      setCopying(false);
+      setProgress(null);
     }
   };
 
@@ -157,9 +189,9 @@ const MoveItemModal: React.FC<MoveItemModalProps> = ({
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Move to Another Library</DialogTitle>
+          <DialogTitle>{isCopy ? 'Copy' : 'Move'} to Another Library</DialogTitle>
           <DialogDescription>
-            Select a target library to move this item to.
+            Select a target library to {mode} {itemIds.length === 1 ? 'this item' : `these ${countItems(itemIds.length)}`} to.
           </DialogDescription>
         </DialogHeader>
         
@@ -203,7 +235,9 @@ const MoveItemModal: React.FC<MoveItemModalProps> = ({
             className="gap-2"
           >
             {moving ? (
-              <><Loader2 className="h-4 w-4 animate-spin" /> Moving...</>
+              <><Loader2 className="h-4 w-4 animate-spin" /> {isCopy ? 'Copying' : 'Moving'}{progress ? ` ${progress}` : '...'}</>
+            ) : isCopy ? (
+              <><Copy className="h-4 w-4" /> Copy</>
             ) : (
               <><MoveRight className="h-4 w-4" /> Move</>
             )}
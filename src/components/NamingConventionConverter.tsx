@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowRight, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { WebflowXscpData } from '@/utils/webflowTypes';
+import { previewStyleRenames, renameStyles } from '@/utils/classRenamer';
+import { NAMING_RULE_SETS, NamingRuleSet, convertClassName, detectNamingRuleSet, validateRuleSet } from '@/utils/namingConventions';
+import ClassRenamePreviewTable from './ClassRenamePreviewTable';
+
+interface NamingConventionConverterProps {
+  content: string;
+  data: WebflowXscpData;
+  onReplace: (newContent: string) => void;
+}
+
+const CUSTOM_ID = 'custom';
+
+const NamingConventionConverter: React.FC<NamingConventionConverterProps> = ({ content, data, onReplace }) => {
+  const [fromId, setFromId] = useState<string>(NAMING_RULE_SETS[0].id);
+  const [toId, setToId] = useState<string>(NAMING_RULE_SETS[1].id);
+  const [customRuleSet, setCustomRuleSet] = useState<NamingRuleSet>({
+    id: CUSTOM_ID,
+    label: 'Custom',
+    elementSeparator: '_',
+    wordSeparator: '-',
+    modifierSeparator: '--',
+    wordCase: 'lower'
+  });
+  const { toast } = useToast();
+
+  const detected = useMemo(
+    () => detectNamingRuleSet(data.payload.styles.map(style => style.name)),
+    [data]
+  );
+
+  useEffect(() => {
+    if (detected) {
+      setFromId(detected.id);
+    }
+  }, [detected]);
+
+  const getRuleSet = (id: string) =>
+    id === CUSTOM_ID ? customRuleSet : NAMING_RULE_SETS.find(ruleSet => ruleSet.id === id) as NamingRuleSet;
+
+  const from = getRuleSet(fromId);
+  const to = getRuleSet(toId);
+  const usesCustom = fromId === CUSTOM_ID || toId === CUSTOM_ID;
+  const customError = usesCustom ? validateRuleSet(customRuleSet) : null;
+
+  // Combo classes such as `is-active` are modifiers in every system, leave them be
+  const convert = (name: string, style: { comb?: string }) =>
+    style.comb === '&' ? name : convertClassName(name, from, to);
+
+  const previews = (fromId === toId && fromId !== CUSTOM_ID) || customError
+    ? []
+    : previewStyleRenames(data.payload.styles, convert);
+
+  const handleConvert = () => {
+    try {
+      const result = renameStyles(content, convert);
+      onReplace(result.content);
+
+      toast({
+        title: "Classes converted",
+        description: `Converted ${result.renamed.length} class${result.renamed.length === 1 ? '' : 'es'} to ${to.label}` +
+          (result.skipped.length > 0 ? `, skipped ${result.skipped.length} because of name collisions` : ''),
+        variant: result.skipped.length > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Error converting classes",
+        description: "Failed to convert class names",
+        variant: "destructive",
+      });
+      console.error("Error converting classes:", error);
+    }
+  };
+
+  const renderRuleSetSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="h-8 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {NAMING_RULE_SETS.map(ruleSet => (
+          <SelectItem key={ruleSet.id} value={ruleSet.id}>
+            {ruleSet.label}
+          </SelectItem>
+        ))}
+        <SelectItem value={CUSTOM_ID}>Custom</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  const updateCustom = (changes: Partial<NamingRuleSet>) => {
+    setCustomRuleSet(prev => ({ ...prev, ...changes }));
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-[1fr_auto_1fr] gap-2 items-end">
+        <div>
+          <Label htmlFor="convention-from" className="text-xs text-muted-foreground block mb-1">
+            From{detected && fromId === detected.id ? ' (detected)' : ''}:
+          </Label>
+          {renderRuleSetSelect('convention-from', fromId, setFromId)}
+        </div>
+        <ArrowRight size={14} className="text-muted-foreground mb-2" />
+        <div>
+          <Label htmlFor="convention-to" className="text-xs text-muted-foreground block mb-1">To:</Label>
+          {renderRuleSetSelect('convention-to', toId, setToId)}
+        </div>
+      </div>
+
+      {usesCustom && (
+        <div className="grid grid-cols-3 gap-2 mt-2">
+          <div>
+            <Label htmlFor="custom-element" className="text-xs text-muted-foreground block mb-1">Element separator</Label>
+            <Input
+              id="custom-element"
+              value={customRuleSet.elementSeparator}
+              onChange={(e) => updateCustom({ elementSeparator: e.target.value })}
+              className="h-8 text-sm font-mono"
+            />
+          </div>
+          <div>
+            <Label htmlFor="custom-word" className="text-xs text-muted-foreground block mb-1">Word separator</Label>
+            <Input
+              id="custom-word"
+              value={customRuleSet.wordSeparator}
+              onChange={(e) => updateCustom({ wordSeparator: e.target.value, wordCase: e.target.value ? 'lower' : 'camel' })}
+              placeholder="camelCase"
+              className="h-8 text-sm font-mono"
+            />
+          </div>
+          <div>
+            <Label htmlFor="custom-modifier" className="text-xs text-muted-foreground block mb-1">Modifier separator</Label>
+            <Input
+              id="custom-modifier"
+              value={customRuleSet.modifierSeparator}
+              onChange={(e) => updateCustom({ modifierSeparator: e.target.value })}
+              className="h-8 text-sm font-mono"
+            />
+          </div>
+          {customError && (
+            <p className="col-span-3 text-xs text-destructive">{customError}</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end mt-2">
+        <Button
+          onClick={handleConvert}
+          className="h-8 gap-1"
+          variant="secondary"
+          disabled={previews.filter(preview => !preview.collidesWith).length === 0}
+        >
+          <Wand2 size={14} />
+          Convert
+        </Button>
+      </div>
+
+      <ClassRenamePreviewTable previews={previews} />
+    </div>
+  );
+};
+
+export default NamingConventionConverter;
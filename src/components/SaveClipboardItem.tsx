@@ -1,8 +1,8 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
 import { Save, Share, Loader2, Image, Camera, Upload } from 'lucide-react';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -14,14 +14,16 @@ import { useAuth } from '@/context/AuthContext';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import LibrarySelector from './LibrarySelector';
-
-interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-  shared_by?: string;
-}
+import { removeScreenshots, uploadScreenshot, UploadedScreenshot } from '@/utils/imageStorage';
+import { fetchLibraryTags, setItemTags } from '@/utils/tagUtils';
+import TagInput from './TagInput';
+import { fetchLibraryPermissions } from '@/utils/libraryPermissions';
+import { isWebflowData, parseWebflowData } from '@/utils/clipboardUtils';
+import { createLibraryItem, UserLibrary } from '@/utils/libraries';
+import { hasHostedFeatures } from '@/integrations/backend';
+import { isNetworkError, queueItemCreate } from '@/utils/syncQueue';
+import { libraryKeys } from '@/hooks/use-libraries';
+import { extractAssetManifest, rehostAssets, removeRehostedAssets, rewriteAssetUrls, RehostResult } from '@/utils/assetManifest';
 
 const formSchema = z.object({
   title: z.string().min(1, 'Title is required').max(100, 'Title must be less than 100 characters')
@@ -38,13 +40,26 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
   const [addScreenshot, setAddScreenshot] = useState(false);
   const [imageUploading, setImageUploading] = useState(false);
   const [imageData, setImageData] = useState<string | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
   const [selectedLibrary, setSelectedLibrary] = useState<UserLibrary | null>(null);
-  const [hasEditPermission, setHasEditPermission] = useState(false);
+  const [canAddItems, setCanAddItems] = useState(false);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [rehostFiles, setRehostFiles] = useState(false);
+  const [rehostProgress, setRehostProgress] = useState<string | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const hosted = hasHostedFeatures();
   
+  // Files the component loads from its source site's CDN
+  const assetManifest = useMemo(() => {
+    const data = isWebflowData(content) ? parseWebflowData(content).data : null;
+    return data ? extractAssetManifest(data) : [];
+  }, [content]);
+
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -52,46 +67,35 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
     },
   });
 
-  // Check if the user has edit permission for the selected library
+  // Check if the user's role lets them add items to the selected library
   useEffect(() => {
     if (user && selectedLibrary) {
       checkLibraryPermissions(selectedLibrary.id);
     }
   }, [selectedLibrary, user]);
 
-  const checkLibraryPermissions = async (libraryId: string) => {
-    if (!user) return;
+  // Suggest the selected library's existing tags
+  useEffect(() => {
+    if (!user || !selectedLibrary || !hosted) {
+      setTagSuggestions([]);
+      return;
+    }
     
-    try {
-      // Check if user owns this library
-      const { data: ownLibrary, error: ownError } = await supabase
-        .from('user_libraries')
-        .select('id')
-        .eq('id', libraryId)
-        .eq('created_by', user.id)
-        .single();
-
-      if (!ownError && ownLibrary) {
-        setHasEditPermission(true);
-        return;
-      }
-
-      // If not the owner, check permissions
-      const { data: permissions, error: permError } = await supabase
-        .from('shared_library_permissions')
-        .select('can_edit')
-        .eq('library_id', libraryId)
-        .eq('shared_with', user.id)
-        .single();
+    fetchLibraryTags(selectedLibrary.id)
+      .then(tags => setTagSuggestions(tags.map(tag => tag.name)))
+      .catch(err => {
+        console.error('Error fetching library tags:', err);
+        setTagSuggestions([]);
+      });
+  }, [selectedLibrary, user, hosted]);
 
-      if (!permError && permissions) {
-        setHasEditPermission(permissions.can_edit);
-      } else {
-        setHasEditPermission(false);
-      }
+  const checkLibraryPermissions = async (libraryId: string) => {
+    try {
+      const permissions = await fetchLibraryPermissions(libraryId);
+      setCanAddItems(permissions.can_add_items);
     } catch (err) {
       console.error('Error checking library permissions:', err);
-      setHasEditPermission(false);
+      setCanAddItems(false);
     }
   };
 
@@ -100,6 +104,7 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
     if (!file) return;
     
     setImageUploading(true);
+    setImageFile(file);
     
     // Read the selected file as a data URL
     const reader = new FileReader();
@@ -130,24 +135,17 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
     fileInputRef.current?.click();
   };
 
-  const handleLibraryChange = (library: UserLibrary) => {
+  // Stable, as LibrarySelector calls it from an effect
+  const handleLibraryChange = useCallback((library: UserLibrary) => {
     setSelectedLibrary(library);
-  };
+  }, []);
 
-  const uploadScreenshot = async (): Promise<string | null> => {
-    if (!imageData) return null;
+  const uploadImage = async (userId: string): Promise<UploadedScreenshot | null> => {
+    if (!imageFile) return null;
     
     try {
-      // Convert base64 to blob
-      const base64Response = await fetch(imageData);
-      const blob = await base64Response.blob();
-      
-      // Generate a unique filename
-      const filename = `screenshot_${Date.now()}.jpg`;
-      
-      // For now, we're directly returning the base64 data
-      // In a production app with Supabase Storage configured, we would upload to storage
-      return imageData;
+      // Upload the original and a resized thumbnail to storage
+      return await uploadScreenshot(imageFile, userId);
     } catch (error) {
       console.error('Error uploading screenshot:', error);
       toast({
@@ -159,6 +157,53 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
     }
   };
 
+  const resetForm = () => {
+    form.reset();
+    setImageData(null);
+    setImageFile(null);
+    setTagNames([]);
+    setAddScreenshot(false);
+    setRehostFiles(false);
+    if (onSave) onSave();
+  };
+
+  // Keep the item in the sync queue until the connection is back
+  const saveOffline = (
+    values: z.infer<typeof formSchema>,
+    savedContent: string,
+    screenshot: UploadedScreenshot | null
+  ) => {
+    if (!user || !selectedLibrary) return;
+
+    try {
+      queueItemCreate({
+        title: values.title,
+        content: savedContent,
+        content_type: contentType,
+        created_by: user.id,
+        screenshot_url: screenshot?.url || null,
+        thumbnail_url: screenshot?.thumbnailUrl || null,
+        library_id: selectedLibrary.id
+      }, tagNames);
+    } catch (error) {
+      console.error('Error queueing item:', error);
+      toast({
+        title: 'Error saving item',
+        description: 'You are offline and there is no room left to keep the item on this device.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: libraryKeys.items(selectedLibrary.id) });
+    toast({
+      title: 'Saved offline',
+      description: `Your item will be added to "${selectedLibrary.name}" when you're back online.` +
+        (addScreenshot && imageFile && !screenshot ? ' The screenshot was not included.' : '')
+    });
+    resetForm();
+  };
+
   const saveToSupabase = async (values: z.infer<typeof formSchema>) => {
     // Check if user is authenticated
     if (!user) {
@@ -183,57 +228,109 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
       return;
     }
 
-    // Check if the user has edit permission for this library
-    if (selectedLibrary.shared_by && !hasEditPermission) {
+    // Viewers can't add items
+    if (selectedLibrary.shared_by && !canAddItems) {
       toast({
         title: 'Permission denied',
-        description: 'You do not have edit permission for this shared library.',
+        description: 'Your role in this shared library does not allow adding items.',
         variant: 'destructive'
       });
       return;
     }
     
+    // Screenshots and file copies need a connection, so they are left out
+    if (!navigator.onLine) {
+      saveOffline(values, content, null);
+      return;
+    }
+    
     setIsSaving(true);
     
+    let screenshot: UploadedScreenshot | null = null;
+    let rehosted: RehostResult | null = null;
+    let savedContent = content;
     try {
       // Upload screenshot if available
-      let screenshotUrl = null;
-      if (addScreenshot && imageData) {
-        screenshotUrl = await uploadScreenshot();
+      if (addScreenshot && imageFile) {
+        screenshot = await uploadImage(user.id);
       }
       
-      const { data, error } = await supabase
-        .from('shared_clipboard_items')
-        .insert({
-          title: values.title,
-          content: content,
-          content_type: contentType,
-          created_by: user.id,
-          screenshot_url: screenshotUrl,
-          library_id: selectedLibrary.id
-        })
-        .select();
+      // Store copies of the referenced files and point the payload at them
+      if (rehostFiles && assetManifest.length > 0) {
+        rehosted = await rehostAssets(assetManifest, user.id, undefined, (done, total) =>
+          setRehostProgress(`${done}/${total}`)
+        );
+        savedContent = rewriteAssetUrls(content, rehosted.urls);
+      }
+      
+      const item = await createLibraryItem({
+        title: values.title,
+        content: savedContent,
+        content_type: contentType,
+        created_by: user.id,
+        screenshot_url: screenshot?.url || null,
+        thumbnail_url: screenshot?.thumbnailUrl || null,
+        library_id: selectedLibrary.id
+      });
+      
+      queryClient.invalidateQueries({ queryKey: libraryKeys.items(selectedLibrary.id) });
       
-      if (error) throw error;
+      // The item is saved even if tagging fails
+      if (tagNames.length > 0) {
+        try {
+          await setItemTags(item.id, selectedLibrary.id, tagNames, user.id);
+        } catch (tagError) {
+          console.error('Error tagging item:', tagError);
+          toast({
+            title: 'Tags not saved',
+            description: 'The item was saved, but its tags could not be added.',
+            variant: 'destructive'
+          });
+        }
+      }
+      
+      if (rehosted && rehosted.failed.length > 0) {
+        toast({
+          title: 'Some files were not copied',
+          description: `${rehosted.failed.length} of ${assetManifest.length} files could not be downloaded and still point to their original location.`,
+          variant: 'destructive'
+        });
+      }
       
       toast({
         title: 'Item saved',
         description: `Your clipboard item has been saved to "${selectedLibrary.name}".`,
       });
       
-      form.reset();
-      setImageData(null);
-      setAddScreenshot(false);
-      if (onSave) onSave();
-    } catch (error: any) {
+      resetForm();
+    } catch (error) {
+      // The connection dropped midway, so keep whatever was already uploaded
+      if (isNetworkError(error)) {
+        saveOffline(values, savedContent, screenshot);
+        return;
+      }
+      
+      // The item was not saved, so its images are not referenced anywhere
+      if (screenshot) {
+        removeScreenshots([screenshot.url, screenshot.thumbnailUrl]).catch(err =>
+          console.error('Error removing screenshots:', err)
+        );
+      }
+      if (rehosted) {
+        removeRehostedAssets(rehosted).catch(err =>
+          console.error('Error removing rehosted files:', err)
+        );
+      }
+      
       let errorMessage = 'An error occurred while saving the item.';
       
       // Handle specific error messages
-      if (error.message?.includes('row-level security policy')) {
+      const message = (error as Error).message;
+      if (message?.includes('row-level security policy')) {
         errorMessage = 'Authentication required. Please sign in to save items.';
         // Redirect to auth page for RLS errors
         setTimeout(() => navigate('/auth'), 1500);
-      } else if (error.message?.includes('permission denied')) {
+      } else if (message?.includes('permission denied')) {
         errorMessage = 'You do not have permission to save items to this library.';
       }
       
@@ -245,6 +342,7 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
       console.error('Error saving to Supabase:', error);
     } finally {
       setIsSaving(false);
+      setRehostProgress(null);
     }
   };
 
@@ -281,8 +379,8 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
             />
             {selectedLibrary?.shared_by && (
               <p className="text-xs text-amber-500">
-                {hasEditPermission 
-                  ? "This is a shared library you have edit access to."
+                {canAddItems 
+                  ? "This is a shared library you can add items to."
                   : "Warning: You don't have permission to add items to this shared library."}
               </p>
             )}
@@ -290,18 +388,52 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
               Select which library to save this item to
             </p>
           </div>
+          
+          {hosted && (
+            <div className="space-y-1.5">
+              <Label>Tags</Label>
+              <TagInput
+                value={tagNames}
+                onChange={setTagNames}
+                suggestions={tagSuggestions}
+                disabled={isSaving || !selectedLibrary}
+                placeholder="e.g. Navbar, Hero, Footer"
+              />
+            </div>
+          )}
         </div>
         
-        <div className="flex items-center space-x-2">
-          <Switch
-            id="add-screenshot"
-            checked={addScreenshot}
-            onCheckedChange={setAddScreenshot}
-          />
-          <Label htmlFor="add-screenshot">Add a custom image</Label>
-        </div>
+        {hosted && assetManifest.length > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="rehost-files"
+                checked={rehostFiles}
+                onCheckedChange={setRehostFiles}
+                disabled={isSaving}
+              />
+              <Label htmlFor="rehost-files">
+                Copy {assetManifest.length} referenced file{assetManifest.length === 1 ? '' : 's'} to the library
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Keeps images, Lottie files and fonts working after they are removed from the source site
+            </p>
+          </div>
+        )}
+        
+        {hosted && (
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="add-screenshot"
+              checked={addScreenshot}
+              onCheckedChange={setAddScreenshot}
+            />
+            <Label htmlFor="add-screenshot">Add a custom image</Label>
+          </div>
+        )}
         
-        {addScreenshot && (
+        {hosted && addScreenshot && (
           <div className="border rounded-md p-4">
             <div className="mb-3 flex justify-between items-center">
               <p className="text-sm text-muted-foreground">Attach an image to help identify this item</p>
@@ -353,21 +485,21 @@ const SaveClipboardItem: React.FC<SaveClipboardItemProps> = ({ content, contentT
         
         <Button 
           type="submit" 
-          disabled={isSaving || !selectedLibrary || (selectedLibrary?.shared_by && !hasEditPermission)} 
+          disabled={isSaving || !selectedLibrary || (selectedLibrary?.shared_by && !canAddItems)} 
           className="w-full gap-2"
           variant="outline"
         >
           {isSaving ? (
             <>
               <Loader2 className="h-4 w-4 animate-spin" />
-              Saving...
+              {rehostProgress ? `Copying files ${rehostProgress}...` : 'Saving...'}
             </>
           ) : (
             <>
               <Share className="h-4 w-4" />
               {!user ? 'Sign in to Save' : 
-                selectedLibrary?.shared_by && !hasEditPermission ? 
-                'No Edit Permission' : 'Save to Library'}
+                selectedLibrary?.shared_by && !canAddItems ? 
+                'No Permission to Add' : 'Save to Library'}
             </>
           )}
         </Button>
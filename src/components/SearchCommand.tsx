@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Clipboard, Code, File, Image, Loader2 } from 'lucide-react';
+import { fetchSearchFacets, searchClipboardItems, SearchFacet, SearchResult } from '@/utils/searchUtils';
+
+interface SearchCommandProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (result: SearchResult) => void;
+}
+
+const ANY = 'any';
+
+// Date filters in days
+const DATE_RANGES = [
+  { id: ANY, label: 'Any time', days: 0 },
+  { id: 'week', label: 'Past week', days: 7 },
+  { id: 'month', label: 'Past month', days: 30 },
+  { id: 'year', label: 'Past year', days: 365 }
+];
+
+const getIcon = (contentType: string) => {
+  switch (contentType) {
+    case 'image':
+      return <Image className="h-4 w-4 mt-0.5 shrink-0" />;
+    case 'code':
+      return <Code className="h-4 w-4 mt-0.5 shrink-0" />;
+    case 'file':
+      return <File className="h-4 w-4 mt-0.5 shrink-0" />;
+    default:
+      return <Clipboard className="h-4 w-4 mt-0.5 shrink-0" />;
+  }
+};
+
+const SearchCommand: React.FC<SearchCommandProps> = ({ open, onOpenChange, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [libraryId, setLibraryId] = useState(ANY);
+  const [authorId, setAuthorId] = useState(ANY);
+  const [dateRange, setDateRange] = useState(ANY);
+  const [libraries, setLibraries] = useState<SearchFacet[]>([]);
+  const [authors, setAuthors] = useState<SearchFacet[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const latestRequest = useRef(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    fetchSearchFacets()
+      .then(facets => {
+        setLibraries(facets.libraries);
+        setAuthors(facets.authors);
+      })
+      .catch(err => console.error('Error fetching search filters:', err));
+  }, [open]);
+
+  // Debounce the search and drop responses to outdated queries
+  useEffect(() => {
+    if (!open) return;
+
+    const timeout = setTimeout(async () => {
+      const request = ++latestRequest.current;
+      const days = DATE_RANGES.find(range => range.id === dateRange)?.days || 0;
+
+      try {
+        setLoading(true);
+        const data = await searchClipboardItems(query, {
+          libraryId: libraryId === ANY ? null : libraryId,
+          authorId: authorId === ANY ? null : authorId,
+          createdAfter: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : null
+        });
+        if (request === latestRequest.current) setResults(data);
+      } catch (err) {
+        console.error('Error searching items:', err);
+        toast({
+          title: "Search failed",
+          description: (err as Error).message,
+          variant: "destructive"
+        });
+      } finally {
+        if (request === latestRequest.current) setLoading(false);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [open, query, libraryId, authorId, dateRange, toast]);
+
+  const handleSelect = (result: SearchResult) => {
+    onSelect(result);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search titles, text, class:name or type:Block..."
+          />
+
+          <div className="flex gap-2 px-3 py-2 border-b">
+            <Select value={libraryId} onValueChange={setLibraryId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Library" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All libraries</SelectItem>
+                {libraries.map(library => (
+                  <SelectItem key={library.id} value={library.id}>{library.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={authorId} onValueChange={setAuthorId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Author" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any author</SelectItem>
+                {authors.map(author => (
+                  <SelectItem key={author.id} value={author.id}>{author.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={dateRange} onValueChange={setDateRange}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Date" />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_RANGES.map(range => (
+                  <SelectItem key={range.id} value={range.id}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <CommandList className="max-h-[400px]">
+            {loading && results.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : (
+              <CommandEmpty>No items found.</CommandEmpty>
+            )}
+
+            {results.length > 0 && (
+              <CommandGroup heading={`${results.length} result${results.length === 1 ? '' : 's'}`}>
+                {results.map(result => (
+                  <CommandItem
+                    key={result.id}
+                    value={result.id}
+                    onSelect={() => handleSelect(result)}
+                    className="flex items-start gap-3"
+                  >
+                    {getIcon(result.content_type)}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium truncate">{result.title}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {new Date(result.created_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {result.library_name}
+                        {result.author_email && ` · ${result.author_email}`}
+                      </div>
+                      {result.class_names.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {result.class_names.slice(0, 4).map(name => (
+                            <Badge key={name} variant="secondary" className="text-[10px] px-1.5 py-0 font-mono">
+                              {name}
+                            </Badge>
+                          ))}
+                          {result.class_names.length > 4 && (
+                            <span className="text-[10px] text-muted-foreground">
+                              +{result.class_names.length - 4}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchCommand;
@@ -1,13 +1,43 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Clipboard, Image, File, Code, Trash2, Edit, Save, X, MoveRight } from 'lucide-react';
+import { Clipboard, Image, File, Code, Trash2, Edit, Save, X, MoveRight, Download, History, GitCompare } from 'lucide-react';
 import { formatDistance } from 'date-fns';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import MoveItemModal from './MoveItemModal';
-import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { parseWebflowData } from '@/utils/clipboardUtils';
+import { buildHtmlDocument, buildStylesheet, convertWebflowToHtml } from '@/utils/webflowToHtml';
+import { downloadFile, toFileName } from '@/utils/fileUtils';
+import { describeClipboardWrite, writeToClipboard } from '@/utils/clipboardWriter';
+import WebflowPreview from './WebflowPreview';
+import TagInput from './TagInput';
+import ItemHistoryPanel from './ItemHistoryPanel';
+import WebflowCompareModal from './WebflowCompareModal';
+import { Tables } from '@/integrations/supabase/types';
+import { hasHostedFeatures } from '@/integrations/backend';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/context/AuthContext';
+import { LibraryTag, setItemTags } from '@/utils/tagUtils';
+import { updateLibraryItem } from '@/utils/libraries';
+import { isNetworkError, isPendingItem, queueItemUpdate } from '@/utils/syncQueue';
+import { useQueryClient } from '@tanstack/react-query';
+import { libraryKeys } from '@/hooks/use-libraries';
+
+type ViewMode = 'image' | 'preview' | 'code';
+
+const VIEW_MODES: { id: ViewMode; label: string }[] = [
+  { id: 'image', label: 'Image' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'code', label: 'Code' }
+];
 
 interface ClipboardItemProps {
   item: {
@@ -17,10 +47,16 @@ interface ClipboardItemProps {
     content_type: string;
     created_at: string;
     screenshot_url?: string | null;
+    thumbnail_url?: string | null;
     library_id?: string | null;
+    updated_at?: string;
   };
+  tags?: LibraryTag[];
+  tagSuggestions?: string[];
   onDelete?: (id: string) => void;
   onMoved?: () => void;
+  onTagsChange?: (id: string, tags: LibraryTag[]) => void;
+  onUpdated?: (item: Tables<'shared_clipboard_items'>) => void;
   canDelete?: boolean;
   canEdit?: boolean;
   showMoveOption?: boolean;
@@ -28,8 +64,12 @@ interface ClipboardItemProps {
 
 const SharedClipboardItem: React.FC<ClipboardItemProps> = ({ 
   item, 
+  tags = [],
+  tagSuggestions = [],
   onDelete,
   onMoved,
+  onTagsChange,
+  onUpdated,
   canDelete = true,
   canEdit = false,
   showMoveOption = true
@@ -37,14 +77,32 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
   const [isEditing, setIsEditing] = useState(false);
   const [title, setTitle] = useState(item.title);
   const [content, setContent] = useState(item.content);
+  const [tagNames, setTagNames] = useState<string[]>([]);
   const [saving, setSaving] = useState(false);
   const [moveModalOpen, setMoveModalOpen] = useState(false);
-  const [showImage, setShowImage] = useState(true);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Saved offline and not on the server yet
+  const pending = isPendingItem(item);
+  const hosted = hasHostedFeatures();
 
+  const isWebflow = useMemo(
+    () => !!item.content?.includes('@webflow/XscpData') && !!parseWebflowData(item.content).data,
+    [item.content]
+  );
   const hasImage = !!item.screenshot_url;
   const hasContent = !!item.content && item.content.trim().length > 0;
-  const showToggle = hasImage && hasContent;
+  const availableViews = VIEW_MODES.filter(mode =>
+    mode.id === 'image' ? hasImage : mode.id === 'preview' ? isWebflow : hasContent
+  );
+  const activeView = viewMode && availableViews.some(mode => mode.id === viewMode)
+    ? viewMode
+    : availableViews[0]?.id;
+  const showToggle = availableViews.length > 1;
 
   const getIcon = () => {
     switch (item.content_type) {
@@ -60,51 +118,105 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
   };
 
   const copyToClipboard = async () => {
-    try {
-      await navigator.clipboard.writeText(item.content);
-      toast({
-        title: "Copied to clipboard",
-        description: "Content has been copied to your clipboard"
-      });
-    } catch (err) {
-      console.error('Failed to copy:', err);
+    const result = await writeToClipboard(item.content, item.content_type);
+    toast(describeClipboardWrite(result));
+  };
+
+  const handleExport = (format: 'html' | 'css' | 'standalone') => {
+    const { data } = parseWebflowData(item.content);
+    if (!data) {
       toast({
-        title: "Copy failed",
-        description: "Could not copy to clipboard. Please try again.",
+        title: "Export failed",
+        description: "This item is not a valid Webflow component",
         variant: "destructive"
       });
+      return;
+    }
+
+    const exported = convertWebflowToHtml(data);
+    const fileName = toFileName(item.title);
+
+    if (format === 'css') {
+      downloadFile(`${fileName}.css`, buildStylesheet(exported), 'text/css');
+    } else if (format === 'html') {
+      downloadFile(`${fileName}.html`, buildHtmlDocument(item.title, exported, `${fileName}.css`), 'text/html');
+    } else {
+      downloadFile(`${fileName}.html`, buildHtmlDocument(item.title, exported), 'text/html');
     }
   };
 
+  // Keep the edit in the sync queue until the connection is back
+  const saveOffline = () => {
+    queueItemUpdate({ id: item.id, library_id: item.library_id || null, updated_at: item.updated_at }, {
+      title: title.trim(),
+      content
+    });
+    queryClient.invalidateQueries({ queryKey: libraryKeys.items(item.library_id || null) });
+    setIsEditing(false);
+    toast({
+      title: "Saved offline",
+      description: "Your changes will be saved when you're back online. Tag changes need a connection."
+    });
+  };
+
   const handleSave = async () => {
     if (!canEdit) return;
     
+    if (pending || !navigator.onLine) {
+      saveOffline();
+      return;
+    }
+    
     try {
       setSaving(true);
       
-      const { error } = await supabase
-        .from('shared_clipboard_items')
-        .update({ 
-          title: title.trim(),
-          content: content 
-        })
-        .eq('id', item.id);
-        
-      if (error) throw error;
+      // Only save over the version this edit started from
+      const updated = await updateLibraryItem(
+        item.id,
+        { title: title.trim(), content },
+        item.updated_at || undefined
+      );
       
-      // Update the local item data
-      item.title = title.trim();
-      item.content = content;
+      if (!updated) {
+        toast({
+          title: "Item was changed",
+          description: "Someone else saved this item while you were editing. Copy your changes, reload the library and check the history.",
+          variant: "destructive"
+        });
+        return;
+      }
       
+      onUpdated?.(updated);
       setIsEditing(false);
+
+      // The changes are saved even if tagging fails
+      if (item.library_id && user && hosted) {
+        try {
+          const updatedTags = await setItemTags(item.id, item.library_id, tagNames, user.id);
+          onTagsChange?.(item.id, updatedTags);
+        } catch (tagError) {
+          console.error('Error tagging item:', tagError);
+          toast({
+            title: 'Tags not saved',
+            description: 'Your changes were saved, but the tags could not be updated.',
+            variant: 'destructive'
+          });
+          return;
+        }
+      }
+
       toast({
         title: "Item updated",
         description: "Your changes have been saved"
       });
-    } catch (err: any) {
+    } catch (err) {
+      if (isNetworkError(err)) {
+        saveOffline();
+        return;
+      }
       toast({
         title: "Update failed",
-        description: err.message || "Failed to update item",
+        description: (err as Error).message || "Failed to update item",
         variant: "destructive"
       });
     } finally {
@@ -118,6 +230,13 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
     }
   };
 
+  const startEdit = () => {
+    setTitle(item.title);
+    setContent(item.content);
+    setTagNames(tags.map(tag => tag.name));
+    setIsEditing(true);
+  };
+
   const cancelEdit = () => {
     // Reset to original values
     setTitle(item.title);
@@ -137,24 +256,44 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
         <CardContent className="p-0">
           {showToggle && (
             <div className="flex items-center justify-end gap-2 p-2 bg-gray-50">
-              <span className="text-xs text-muted-foreground">
-                {showImage ? 'Image View' : 'Code View'}
-              </span>
-              <Switch
-                checked={showImage}
-                onCheckedChange={setShowImage}
-              />
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={activeView}
+                onValueChange={(value) => value && setViewMode(value as ViewMode)}
+              >
+                {availableViews.map(mode => (
+                  <ToggleGroupItem key={mode.id} value={mode.id} className="h-6 px-2 text-xs">
+                    {mode.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
             </div>
           )}
           
-          {hasImage && showImage && (
-            <div className="aspect-[16/9] relative">
+          {activeView === 'preview' && (
+            <WebflowPreview
+              content={item.content}
+              title={item.title}
+              className="aspect-[16/9]"
+            />
+          )}
+          
+          {activeView === 'image' && (
+            <a
+              href={item.screenshot_url || undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              title="Open full-size image"
+              className="block aspect-[16/9] relative"
+            >
               <img 
-                src={item.screenshot_url} 
+                src={item.thumbnail_url || item.screenshot_url || undefined} 
                 alt={item.title} 
+                loading="lazy"
                 className="w-full h-full object-cover"
               />
-            </div>
+            </a>
           )}
           
           <div className="p-4">
@@ -173,19 +312,43 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
                 )}
               </div>
               <span className="text-xs text-muted-foreground">
-                {formatDistance(new Date(item.created_at), new Date(), { addSuffix: true })}
+                {pending ? (
+                  <Badge variant="outline" className="text-xs font-normal">Waiting to sync</Badge>
+                ) : (
+                  formatDistance(new Date(item.created_at), new Date(), { addSuffix: true })
+                )}
               </span>
             </div>
             
+            {!isEditing && tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {tags.map(tag => (
+                  <Badge key={tag.id} variant="secondary" className="text-xs font-normal">
+                    {tag.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            
             {isEditing ? (
-              <textarea
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                className="w-full border rounded p-2 text-sm min-h-[100px]"
-              />
+              <div className="space-y-2">
+                <textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  className="w-full border rounded p-2 text-sm min-h-[100px]"
+                />
+                {item.library_id && !pending && hosted && (
+                  <TagInput
+                    value={tagNames}
+                    onChange={setTagNames}
+                    suggestions={tagSuggestions}
+                    disabled={saving}
+                  />
+                )}
+              </div>
             ) : (
               <div className="text-sm max-h-32 overflow-y-auto">
-                {(!hasImage || !showImage) && (
+                {activeView === 'code' && (
                   item.content_type === 'code' ? (
                     <pre className="bg-gray-50 p-2 rounded text-xs overflow-x-auto">
                       {item.content}
@@ -232,12 +395,52 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
                 <Button 
                   variant="outline" 
                   size="sm" 
-                  onClick={() => setIsEditing(true)}
+                  onClick={startEdit}
                 >
                   <Edit size={14} className="mr-1" /> Edit
                 </Button>
               )}
-              {showMoveOption && item.library_id && (
+              {isWebflow && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Download size={14} className="mr-1" /> Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    <DropdownMenuItem onClick={() => handleExport('standalone')}>
+                      Standalone HTML
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('html')}>
+                      HTML (linked stylesheet)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('css')}>
+                      CSS stylesheet
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {!pending && hosted && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setHistoryOpen(true)}
+                  title="Version history"
+                >
+                  <History size={14} />
+                </Button>
+              )}
+              {isWebflow && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCompareOpen(true)}
+                  title="Compare with another version"
+                >
+                  <GitCompare size={14} />
+                </Button>
+              )}
+              {showMoveOption && item.library_id && !pending && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -249,7 +452,7 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
             </div>
           )}
           
-          {canDelete && !isEditing && (
+          {canDelete && !isEditing && !pending && (
             <Button 
               variant="ghost" 
               size="sm" 
@@ -262,11 +465,29 @@ const SharedClipboardItem: React.FC<ClipboardItemProps> = ({
         </CardFooter>
       </Card>
       
+      {historyOpen && (
+        <ItemHistoryPanel
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          item={item}
+          canEdit={canEdit}
+          onRestored={(restored) => onUpdated?.(restored)}
+        />
+      )}
+      
+      {compareOpen && (
+        <WebflowCompareModal
+          open={compareOpen}
+          onClose={() => setCompareOpen(false)}
+          item={item}
+        />
+      )}
+      
       {moveModalOpen && (
         <MoveItemModal
           open={moveModalOpen}
           onClose={() => setMoveModalOpen(false)}
-          itemId={item.id}
+          itemIds={[item.id]}
           currentLibraryId={item.library_id || null}
           onMoveComplete={handleMoveComplete}
         />
@@ -1,8 +1,9 @@
-import React, { useEffect, useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/components/ui/use-toast';
 import { Loader2, LogIn, Users, Share, Library, FolderPlus } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
+import { hasHostedFeatures } from '@/integrations/backend';
 import { useNavigate } from 'react-router-dom';
 import SharedClipboardItem from './SharedClipboardItem';
 import { Button } from './ui/button';
@@ -10,126 +11,52 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import LibrarySharingManager from './LibrarySharingManager';
 import LibrarySelector from './LibrarySelector';
 import { Label } from './ui/label';
-
-interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-}
-
-interface SharedItem {
-  id: string;
-  title: string;
-  content: string;
-  content_type: string;
-  created_at: string;
-  created_by: string | null;
-  screenshot_url?: string | null;
-  library_id: string | null;
-}
+import { LibraryItem, UserLibrary } from '@/utils/libraries';
+import {
+  libraryKeys,
+  useDeleteLibraryItem,
+  useItemsInLibraries,
+  useLibraries,
+  useLibraryItems
+} from '@/hooks/use-libraries';
 
 const SharedClipboardList: React.FC = () => {
-  const [items, setItems] = useState<SharedItem[]>([]);
-  const [sharedWithMeItems, setSharedWithMeItems] = useState<SharedItem[]>([]);
-  const [loading, setLoading] = useState(true);
   const [sharingOpen, setSharingOpen] = useState(false);
   const [selectedLibrary, setSelectedLibrary] = useState<UserLibrary | null>(null);
-  const [libraries, setLibraries] = useState<UserLibrary[]>([]);
   const [managingLibraries, setManagingLibraries] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState('my-items');
-
+  const { libraries: accessible, isLoading: loadingLibraries } = useLibraries();
+  const libraries = accessible.own;
+  const sharedLibraryIds = accessible.shared.map(library => library.id);
+  const { items: libraryItems, isLoading: loadingItems, error: itemsError } = useLibraryItems(selectedLibrary?.id || null);
+  const { items: sharedWithMeItems, error: sharedError } = useItemsInLibraries(sharedLibraryIds);
+  const deleteItem = useDeleteLibraryItem(selectedLibrary?.id || null);
+  const loading = !!user && (loadingLibraries || loadingItems);
+  // The user's own items in the selected library
+  const items = libraryItems.filter(item => item.created_by === user?.id);
+
+  // Select the first library by default if available
   useEffect(() => {
-    if (user) {
-      fetchLibraries();
-    } else {
-      setLoading(false);
+    if (libraries.length > 0) {
+      setSelectedLibrary(current => current || libraries[0]);
     }
-  }, [user]);
-  
-  const fetchLibraries = async () => {
-    try {
-      if (!user) return;
-      
-      const { data, error } = await supabase
-        .from('user_libraries')
-        .select('*')
-        .eq('created_by', user.id)
-        .order('created_at', { ascending: true });
-      
-      if (error) throw error;
-      
-      setLibraries(data || []);
-      
-      // Select the first library by default if available
-      if (data && data.length > 0) {
-        setSelectedLibrary(data[0]);
-        fetchSharedItems(data[0].id);
-      } else {
-        setLoading(false);
-      }
-    } catch (error) {
-      console.error('Error fetching libraries:', error);
-      setLoading(false);
-    }
-  };
-
-  const fetchSharedItems = async (libraryId: string) => {
-    setLoading(true);
-    try {
-      // Fetch the user's own items for the selected library
-      const { data: myItems, error: myItemsError } = await supabase
-        .from('shared_clipboard_items')
-        .select('*')
-        .eq('created_by', user?.id)
-        .eq('library_id', libraryId)
-        .order('created_at', { ascending: false });
-        
-      if (myItemsError) throw myItemsError;
-      setItems(myItems || []);
+  }, [libraries]);
 
-      // Fetch items shared with the user
-      const { data: sharedPermissions, error: permError } = await supabase
-        .from('shared_library_permissions')
-        .select('shared_by, library_id, can_edit, can_delete')
-        .eq('shared_with', user?.id);
-        
-      if (permError) throw permError;
-      
-      if (sharedPermissions && sharedPermissions.length > 0) {
-        // Collect all library IDs that are shared with the user
-        const sharedLibraryIds = sharedPermissions.map(perm => perm.library_id).filter(Boolean);
-        
-        if (sharedLibraryIds.length > 0) {
-          // Fetch items from those shared libraries
-          const { data: sharedItems, error: sharedItemsError } = await supabase
-            .from('shared_clipboard_items')
-            .select('*')
-            .in('library_id', sharedLibraryIds)
-            .order('created_at', { ascending: false });
-            
-          if (sharedItemsError) throw sharedItemsError;
-          setSharedWithMeItems(sharedItems || []);
-        } else {
-          setSharedWithMeItems([]);
-        }
-      } else {
-        setSharedWithMeItems([]);
-      }
-    } catch (error: any) {
+  useEffect(() => {
+    const error = itemsError || sharedError;
+    if (error) {
       console.error('Error fetching items:', error);
       toast({
         title: 'Error fetching items',
         description: error.message || 'Failed to load shared items',
         variant: 'destructive'
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [itemsError, sharedError, toast]);
 
   const handleDelete = async (id: string) => {
     if (!user) {
@@ -142,30 +69,23 @@ const SharedClipboardList: React.FC = () => {
       return;
     }
     try {
-      const { error } = await supabase
-        .from('shared_clipboard_items')
-        .delete()
-        .eq('id', id);
-        
-      if (error) throw error;
+      await deleteItem.mutateAsync(id);
 
-      // Update the correct list
-      const itemToDelete = items.find(item => item.id === id) || sharedWithMeItems.find(item => item.id === id);
-      if (itemToDelete && itemToDelete.created_by === user.id) {
-        setItems(items.filter(item => item.id !== id));
-      } else {
-        setSharedWithMeItems(sharedWithMeItems.filter(item => item.id !== id));
+      // Items shared with the user are listed by a separate query
+      if (sharedWithMeItems.some(item => item.id === id)) {
+        queryClient.invalidateQueries({ queryKey: libraryKeys.itemsIn(sharedLibraryIds) });
       }
       
       toast({
         title: "Item deleted",
         description: "The shared item has been removed"
       });
-    } catch (error: any) {
-      let errorMessage = error.message || "You may not have permission to delete this item";
+    } catch (error) {
+      const message = (error as Error).message;
+      let errorMessage = message || "You may not have permission to delete this item";
 
       // Check if this is an RLS error
-      if (error.message?.includes('row-level security policy')) {
+      if (message?.includes('row-level security policy')) {
         errorMessage = "You don't have permission to delete this item";
       }
       
@@ -177,10 +97,10 @@ const SharedClipboardList: React.FC = () => {
     }
   };
 
-  const handleLibraryChange = (library: UserLibrary) => {
+  // Stable, as LibrarySelector calls it from an effect
+  const handleLibraryChange = useCallback((library: UserLibrary) => {
     setSelectedLibrary(library);
-    fetchSharedItems(library.id);
-  };
+  }, []);
 
   if (!user) {
     return <div className="text-center py-12 border rounded-md">
@@ -215,7 +135,7 @@ const SharedClipboardList: React.FC = () => {
       </div>;
   }
 
-  const renderItems = (itemsList: SharedItem[], isSharedWithMe = false) => {
+  const renderItems = (itemsList: LibraryItem[], isSharedWithMe = false) => {
     if (itemsList.length === 0) {
       return <div className="text-center py-12 border rounded-md">
           <p className="text-muted-foreground">
@@ -234,10 +154,10 @@ const SharedClipboardList: React.FC = () => {
   return <>
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-lg font-medium">Clipboard Library</h2>
-        <Button variant="outline" size="sm" onClick={() => setSharingOpen(true)} className="gap-2">
-          <Share size={14} />
-          Share Library
-        </Button>
+        {hasHostedFeatures() && <Button variant="outline" size="sm" onClick={() => setSharingOpen(true)} className="gap-2">
+            <Share size={14} />
+            Share Library
+          </Button>}
       </div>
       
       <div className="mb-4">
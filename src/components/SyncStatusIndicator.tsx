@@ -0,0 +1,98 @@
+import React from 'react';
+import { AlertTriangle, Cloud, CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { libraryKeys } from '@/hooks/use-libraries';
+import { flushSyncQueue, resolveConflict, SyncConflict } from '@/utils/syncQueue';
+
+const describeConflict = (conflict: SyncConflict) => {
+  const { operation } = conflict;
+  const title = operation.values.title || 'Untitled item';
+  return operation.type === 'create' ? `New item "${title}"` : `Changes to "${title}"`;
+};
+
+/**
+ * Whether changes are saved, waiting for a connection or stuck on a conflict
+ */
+const SyncStatusIndicator: React.FC = () => {
+  const { online, syncing, pending, conflicts } = useSyncStatus();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: libraryKeys.all });
+
+  const handleSyncNow = async () => {
+    await flushSyncQueue();
+    refresh();
+  };
+
+  const handleResolve = async (conflict: SyncConflict, resolution: 'overwrite' | 'discard') => {
+    try {
+      await resolveConflict(conflict.operation.id, resolution);
+      refresh();
+    } catch (err) {
+      console.error('Error resolving sync conflict:', err);
+      toast({
+        title: 'Error resolving conflict',
+        description: (err as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const [Icon, label] = syncing
+    ? [Loader2, 'Syncing changes...']
+    : conflicts.length > 0
+      ? [AlertTriangle, `${conflicts.length} change${conflicts.length === 1 ? '' : 's'} need attention`]
+      : !online
+        ? [CloudOff, pending > 0 ? `Offline, ${pending} change${pending === 1 ? '' : 's'} waiting` : 'Offline']
+        : pending > 0
+          ? [RefreshCw, `${pending} change${pending === 1 ? '' : 's'} waiting to sync`]
+          : [Cloud, 'All changes saved'];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`flex items-center gap-2 text-xs mb-2 ${conflicts.length > 0 ? 'text-amber-600' : 'text-gray-500'}`}
+        >
+          <Icon className={`h-3.5 w-3.5 ${syncing ? 'animate-spin' : ''}`} />
+          <span>{label}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-3">
+        <p className="text-sm">
+          {online
+            ? 'Changes made without a connection are sent as soon as it comes back.'
+            : 'You are offline. New items and edits are kept on this device until the connection is back.'}
+        </p>
+
+        {conflicts.map(conflict => (
+          <div key={conflict.operation.id} className="border rounded-md p-2 space-y-2">
+            <p className="text-sm font-medium">{describeConflict(conflict)}</p>
+            <p className="text-xs text-muted-foreground">{conflict.message}</p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleResolve(conflict, 'overwrite')} disabled={!online}>
+                {conflict.reason === 'changed' ? 'Keep mine' : 'Retry'}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleResolve(conflict, 'discard')}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {pending > 0 && (
+          <Button size="sm" className="w-full" onClick={handleSyncNow} disabled={!online || syncing}>
+            Sync now
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Plus, X } from 'lucide-react';
+import { normalizeTagName } from '@/utils/tagUtils';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  suggestions = [],
+  disabled = false,
+  placeholder = 'Add a tag...'
+}) => {
+  const [input, setInput] = useState('');
+
+  const hasTag = (name: string) => value.some(tag => tag.toLowerCase() === name.toLowerCase());
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name);
+    if (tag && !hasTag(tag)) {
+      onChange([...value, tag]);
+    }
+    setInput('');
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const availableSuggestions = suggestions
+    .filter(name => !hasTag(name))
+    .filter(name => name.toLowerCase().includes(input.trim().toLowerCase()))
+    .slice(0, 8);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1 border rounded-md px-2 py-1.5 min-h-9">
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+            {tag}
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="rounded-full hover:bg-muted-foreground/20"
+                aria-label={`Remove ${tag}`}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </Badge>
+        ))}
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTag(input)}
+          placeholder={value.length === 0 ? placeholder : ''}
+          disabled={disabled}
+          className="flex-1 min-w-[100px] h-6 border-0 p-0 shadow-none focus-visible:ring-0"
+        />
+      </div>
+
+      {!disabled && availableSuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {availableSuggestions.map(name => (
+            <Badge
+              key={name}
+              variant="outline"
+              className="cursor-pointer gap-1 hover:bg-muted"
+              onClick={() => addTag(name)}
+            >
+              <Plus size={10} />
+              {name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { ClipboardPaste } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getPastedPayload, readClipboardPayload } from '@/utils/clipboardUtils';
+import { fetchLibraryItems } from '@/utils/libraries';
+import WebflowDiffView from './WebflowDiffView';
+
+interface WebflowCompareModalProps {
+  open: boolean;
+  onClose: () => void;
+  item: {
+    id: string;
+    title: string;
+    content: string;
+    library_id?: string | null;
+  };
+}
+
+interface LibraryItemOption {
+  id: string;
+  title: string;
+  content: string;
+}
+
+const WebflowCompareModal: React.FC<WebflowCompareModalProps> = ({ open, onClose, item }) => {
+  const [source, setSource] = useState<'pasted' | 'item'>('pasted');
+  const [pasted, setPasted] = useState('');
+  const [libraryItems, setLibraryItems] = useState<LibraryItemOption[]>([]);
+  const [otherItemId, setOtherItemId] = useState<string>('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open || !item.library_id) return;
+
+    fetchLibraryItems(item.library_id)
+      .then(items => setLibraryItems(
+        items
+          .filter(other => other.id !== item.id)
+          .sort((a, b) => a.title.localeCompare(b.title))
+      ))
+      .catch(err => console.error('Error fetching library items:', err));
+  }, [open, item.id, item.library_id]);
+
+  const handlePaste = async () => {
+    try {
+      const payload = await readClipboardPayload();
+      if (payload) {
+        setPasted(payload);
+        return;
+      }
+      toast({
+        title: "Nothing to paste",
+        description: "Your browser hides Webflow's clipboard data here. Press Ctrl+V (or Cmd+V) in this dialog instead."
+      });
+    } catch (err) {
+      console.error('Failed to read clipboard:', err);
+      toast({
+        title: "Paste failed",
+        description: "Allow clipboard access or press Ctrl+V (or Cmd+V) in this dialog instead",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // A paste event carries the `application/json` flavour the clipboard API may not expose
+  const handlePasteEvent = (event: React.ClipboardEvent) => {
+    const payload = getPastedPayload(event.clipboardData);
+    if (!payload) return;
+    event.preventDefault();
+    setSource('pasted');
+    setPasted(payload);
+  };
+
+  const otherItem = libraryItems.find(option => option.id === otherItemId);
+  const compared = source === 'pasted' ? pasted.trim() : otherItem?.content || '';
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto" onPaste={handlePasteEvent}>
+        <DialogHeader>
+          <DialogTitle>Compare "{item.title}"</DialogTitle>
+          <DialogDescription>
+            See what another version changes compared to this item
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={(value) => setSource(value as 'pasted' | 'item')}>
+          <TabsList>
+            <TabsTrigger value="pasted">Pasted component</TabsTrigger>
+            <TabsTrigger value="item" disabled={!item.library_id}>Library item</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pasted" className="space-y-2">
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" className="gap-1" onClick={handlePaste}>
+                <ClipboardPaste size={14} /> Paste from clipboard
+              </Button>
+            </div>
+            <Textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder="Paste a component copied from Webflow"
+              className="font-mono text-xs min-h-[100px]"
+            />
+          </TabsContent>
+
+          <TabsContent value="item">
+            <Select value={otherItemId} onValueChange={setOtherItemId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an item to compare with" />
+              </SelectTrigger>
+              <SelectContent>
+                {libraryItems.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </TabsContent>
+        </Tabs>
+
+        {compared && <WebflowDiffView before={item.content} after={compared} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WebflowCompareModal;
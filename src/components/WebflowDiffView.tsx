@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { parseWebflowData } from '@/utils/clipboardUtils';
+import { diffWebflowData, WebflowChangeKind, WebflowValueChange } from '@/utils/webflowDiff';
+
+interface WebflowDiffViewProps {
+  before: string;
+  after: string;
+}
+
+const KIND_STYLES: Record<WebflowChangeKind, string> = {
+  added: 'bg-green-100 text-green-800 border-green-200',
+  removed: 'bg-red-100 text-red-800 border-red-200',
+  moved: 'bg-blue-100 text-blue-800 border-blue-200',
+  changed: 'bg-amber-100 text-amber-800 border-amber-200'
+};
+
+const ValueChange: React.FC<{ change: WebflowValueChange; prefix?: string }> = ({ change, prefix }) => (
+  <div className="font-mono text-xs break-all">
+    <span className="text-muted-foreground">{prefix}{change.name}: </span>
+    {change.before !== undefined && <span className="bg-red-50 text-red-700 line-through">{change.before}</span>}
+    {change.before !== undefined && change.after !== undefined && ' → '}
+    {change.after !== undefined && <span className="bg-green-50 text-green-700">{change.after}</span>}
+  </div>
+);
+
+const WebflowDiffView: React.FC<WebflowDiffViewProps> = ({ before, after }) => {
+  const diff = useMemo(() => {
+    const oldData = parseWebflowData(before).data;
+    const newData = parseWebflowData(after).data;
+    return oldData && newData ? diffWebflowData(oldData, newData) : null;
+  }, [before, after]);
+
+  if (!diff) {
+    return <p className="text-sm text-muted-foreground">Both versions need to be Webflow components to compare their structure.</p>;
+  }
+
+  if (diff.identical) {
+    return <p className="text-sm text-muted-foreground">No structural differences.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {diff.nodes.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Elements ({diff.nodes.length})</h4>
+          <ul className="space-y-2">
+            {diff.nodes.map(change => (
+              <li key={`${change.kind}-${change.nodeId}`} className="border rounded-md p-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${KIND_STYLES[change.kind]}`}>
+                    {change.kind}
+                  </Badge>
+                  <span className="font-medium">{change.label}</span>
+                  {!!change.descendants && (
+                    <span className="text-xs text-muted-foreground">
+                      with {change.descendants} nested element{change.descendants === 1 ? '' : 's'}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground truncate mt-0.5" title={change.path}>
+                  {change.previousPath && change.previousPath !== change.path
+                    ? `${change.previousPath} → ${change.path}`
+                    : change.path}
+                </div>
+                {change.classes && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {change.classes.removed.map(name => (
+                      <Badge key={`-${name}`} variant="outline" className="font-mono text-[10px] px-1.5 py-0 line-through text-red-700">
+                        {name}
+                      </Badge>
+                    ))}
+                    {change.classes.added.map(name => (
+                      <Badge key={`+${name}`} variant="outline" className="font-mono text-[10px] px-1.5 py-0 text-green-700">
+                        {name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {change.text && (
+                  <ValueChange change={{ name: 'text', before: change.text.before, after: change.text.after }} />
+                )}
+                {change.attributes?.map(attribute => (
+                  <ValueChange key={attribute.name} change={attribute} />
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff.styles.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Styles ({diff.styles.length})</h4>
+          <ul className="space-y-2">
+            {diff.styles.map(change => (
+              <li key={change.name} className="border rounded-md p-2">
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${KIND_STYLES[change.kind]}`}>
+                    {change.kind}
+                  </Badge>
+                  <span className="font-mono font-medium">.{change.name}</span>
+                </div>
+                {change.properties.map(property => (
+                  <ValueChange
+                    key={`${property.variant}-${property.name}`}
+                    change={property}
+                    prefix={property.variant === 'main' ? '' : `@${property.variant} `}
+                  />
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebflowDiffView;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, Type, Link2, Database } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { buildNodeTree, isWebflowTextNode } from '@/utils/clipboardUtils';
+import { WebflowElementNode, WebflowTreeNode, WebflowXscpData } from '@/utils/webflowTypes';
+
+interface WebflowNodeTreeProps {
+  data: WebflowXscpData;
+  selectedId: string | null;
+  onSelect: (nodeId: string) => void;
+}
+
+interface TreeRowProps {
+  treeNode: WebflowTreeNode;
+  expanded: Set<string>;
+  onToggle: (nodeId: string) => void;
+  selectedId: string | null;
+  onSelect: (nodeId: string) => void;
+}
+
+const getAttributes = (node: WebflowElementNode): { name: string; value: string }[] => {
+  const attributes = (node.data?.xattr || []).map(attr => ({ name: attr.name, value: attr.value }));
+  const attr = node.data?.attr || {};
+
+  Object.entries(attr).forEach(([name, value]) => {
+    if (value !== '' && value !== null && value !== undefined && value !== false) {
+      attributes.push({ name, value: String(value) });
+    }
+  });
+
+  if (node.data?.link?.url) {
+    attributes.push({ name: 'href', value: node.data.link.url });
+  }
+
+  return attributes;
+};
+
+const truncate = (text: string, length: number = 60) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+const TreeRow: React.FC<TreeRowProps> = ({ treeNode, expanded, onToggle, selectedId, onSelect }) => {
+  const { node, children, styles, depth } = treeNode;
+  const isOpen = expanded.has(treeNode.id);
+  const isSelected = selectedId === treeNode.id;
+  const rowClasses = `flex items-center gap-1 py-1 pr-2 rounded cursor-pointer text-xs ${isSelected ? 'bg-primary/10' : 'hover:bg-muted'}`;
+
+  if (isWebflowTextNode(node)) {
+    return (
+      <div
+        className={rowClasses}
+        style={{ paddingLeft: depth * 16 + 20 }}
+        onClick={() => onSelect(treeNode.id)}
+      >
+        <Type size={12} className="text-muted-foreground shrink-0" />
+        <span className="text-muted-foreground italic truncate">"{truncate(node.v || '')}"</span>
+      </div>
+    );
+  }
+
+  const attributes = getAttributes(node);
+  const hasBindings = !!node.data?.dyn && Object.keys(node.data.dyn).length > 0;
+
+  return (
+    <>
+      <div
+        className={rowClasses}
+        style={{ paddingLeft: depth * 16 }}
+        onClick={() => onSelect(treeNode.id)}
+      >
+        <button
+          type="button"
+          className="h-4 w-4 flex items-center justify-center shrink-0"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggle(treeNode.id);
+          }}
+          disabled={children.length === 0}
+          aria-label={isOpen ? 'Collapse' : 'Expand'}
+        >
+          {children.length > 0 && (isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+        </button>
+        <code className="font-semibold">&lt;{node.tag || node.data?.tag || 'div'}&gt;</code>
+        <span className="text-muted-foreground">{node.type}</span>
+        {styles.length > 0 && (
+          <code className="bg-muted px-1 py-0.5 rounded truncate">
+            .{styles.map(style => style.name).join('.')}
+          </code>
+        )}
+        {attributes.length > 0 && (
+          <span className="flex items-center gap-0.5 text-muted-foreground truncate" title={attributes.map(a => `${a.name}="${a.value}"`).join(' ')}>
+            <Link2 size={12} className="shrink-0" />
+            {truncate(attributes.map(a => `${a.name}="${a.value}"`).join(' '), 40)}
+          </span>
+        )}
+        {hasBindings && (
+          <Badge variant="outline" className="h-4 px-1 gap-0.5 text-[10px] font-normal">
+            <Database size={10} /> bound
+          </Badge>
+        )}
+      </div>
+      {isOpen && children.map(child => (
+        <TreeRow
+          key={child.id}
+          treeNode={child}
+          expanded={expanded}
+          onToggle={onToggle}
+          selectedId={selectedId}
+          onSelect={onSelect}
+        />
+      ))}
+    </>
+  );
+};
+
+const collectIds = (nodes: WebflowTreeNode[], maxDepth: number = Infinity): string[] =>
+  nodes.flatMap(node => node.depth < maxDepth
+    ? [node.id, ...collectIds(node.children, maxDepth)]
+    : []);
+
+const WebflowNodeTree: React.FC<WebflowNodeTreeProps> = ({ data, selectedId, onSelect }) => {
+  const tree = useMemo(() => buildNodeTree(data), [data]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(collectIds(tree, 2)));
+
+  const handleToggle = (nodeId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) {
+        next.delete(nodeId);
+      } else {
+        next.add(nodeId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="border rounded-md">
+      <div className="flex justify-between items-center px-2 py-1 border-b bg-muted/30">
+        <span className="text-xs text-muted-foreground">
+          {data.payload.nodes.length} nodes · {data.payload.styles.length} styles · {data.payload.assets.length} assets
+        </span>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setExpanded(new Set(collectIds(tree)))}>
+            Expand all
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setExpanded(new Set())}>
+            Collapse all
+          </Button>
+        </div>
+      </div>
+      <div className="max-h-72 overflow-y-auto p-1">
+        {tree.length === 0 ? (
+          <p className="text-xs text-muted-foreground p-2">No nodes in this payload</p>
+        ) : tree.map(treeNode => (
+          <TreeRow
+            key={treeNode.id}
+            treeNode={treeNode}
+            expanded={expanded}
+            onToggle={handleToggle}
+            selectedId={selectedId}
+            onSelect={onSelect}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WebflowNodeTree;
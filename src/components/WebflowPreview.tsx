@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Monitor, Tablet, Smartphone } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { parseWebflowData } from '@/utils/clipboardUtils';
+import { buildHtmlDocument, convertWebflowToHtml } from '@/utils/webflowToHtml';
+
+interface WebflowPreviewProps {
+  content: string;
+  title?: string;
+  className?: string;
+}
+
+// Viewport width each breakpoint is rendered at
+const PREVIEW_WIDTHS: { id: string; label: string; width: number; icon: React.ReactNode }[] = [
+  { id: 'main', label: 'Desktop', width: 1280, icon: <Monitor size={12} /> },
+  { id: 'medium', label: 'Tablet', width: 768, icon: <Tablet size={12} /> },
+  { id: 'tiny', label: 'Mobile', width: 375, icon: <Smartphone size={12} /> }
+];
+
+const WebflowPreview: React.FC<WebflowPreviewProps> = ({ content, title = 'Preview', className = '' }) => {
+  const [breakpoint, setBreakpoint] = useState('main');
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [isVisible, setIsVisible] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const previewDocument = useMemo(() => {
+    const { data } = parseWebflowData(content);
+    return data ? buildHtmlDocument(title, convertWebflowToHtml(data)) : null;
+  }, [content, title]);
+  const hasDocument = !!previewDocument;
+
+  // Only render the iframe once the card scrolls into view
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const intersection = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true);
+        intersection.disconnect();
+      }
+    });
+    const resize = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+
+    intersection.observe(element);
+    resize.observe(element);
+
+    return () => {
+      intersection.disconnect();
+      resize.disconnect();
+    };
+  }, [hasDocument]);
+
+  if (!previewDocument) return null;
+
+  const viewportWidth = PREVIEW_WIDTHS.find(preview => preview.id === breakpoint)?.width || 1280;
+  const scale = containerWidth > 0 ? Math.min(1, containerWidth / viewportWidth) : 1;
+
+  return (
+    <div className={`relative ${className}`}>
+      <div ref={containerRef} className="w-full h-full overflow-hidden bg-white">
+        {isVisible && (
+          <iframe
+            title={title}
+            srcDoc={previewDocument}
+            sandbox=""
+            loading="lazy"
+            className="border-0 origin-top-left pointer-events-none"
+            style={{
+              width: viewportWidth,
+              height: `${100 / scale}%`,
+              transform: `scale(${scale})`
+            }}
+          />
+        )}
+      </div>
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={breakpoint}
+        onValueChange={(value) => value && setBreakpoint(value)}
+        className="absolute bottom-1 right-1 bg-white/90 rounded-md shadow-sm"
+      >
+        {PREVIEW_WIDTHS.map(preview => (
+          <ToggleGroupItem
+            key={preview.id}
+            value={preview.id}
+            aria-label={preview.label}
+            title={preview.label}
+            className="h-6 w-6 p-0"
+          >
+            {preview.icon}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+};
+
+export default WebflowPreview;
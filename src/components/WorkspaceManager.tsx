@@ -0,0 +1,408 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Loader2, LogOut, Plus, Trash2, Users } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addWorkspaceMember,
+  createWorkspace,
+  deleteWorkspace,
+  fetchWorkspaceMembers,
+  fetchWorkspaces,
+  removeWorkspaceMember,
+  renameWorkspace,
+  updateWorkspaceMemberRole,
+  Workspace,
+  WorkspaceMember
+} from '@/utils/workspaces';
+import { getAssignableRoles, LibraryRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/utils/libraryPermissions';
+
+interface WorkspaceManagerProps {
+  open: boolean;
+  onClose: () => void;
+  // Open on a specific workspace
+  workspaceId?: string | null;
+  onWorkspacesChanged: () => void;
+}
+
+const WorkspaceManager: React.FC<WorkspaceManagerProps> = ({ open, onClose, workspaceId, onWorkspacesChanged }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(workspaceId || null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMembers, setLoadingMembers] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<LibraryRole>('viewer');
+  const [busy, setBusy] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const selected = workspaces.find(workspace => workspace.id === selectedId) || null;
+  const assignableRoles = getAssignableRoles(selected?.role || null);
+
+  const showError = useCallback((title: string, err: unknown) => {
+    console.error(`${title}:`, err);
+    toast({
+      title,
+      description: (err as Error).message,
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadWorkspaces = useCallback(async (selectId?: string) => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const data = await fetchWorkspaces(user.id);
+      setWorkspaces(data);
+      setSelectedId(current => selectId || (data.some(w => w.id === current) ? current : data[0]?.id || null));
+    } catch (err) {
+      showError("Error fetching workspaces", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, showError]);
+
+  const loadMembers = useCallback(async (id: string) => {
+    try {
+      setLoadingMembers(true);
+      setMembers(await fetchWorkspaceMembers(id));
+    } catch (err) {
+      showError("Error fetching workspace members", err);
+    } finally {
+      setLoadingMembers(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    if (open) {
+      loadWorkspaces();
+    }
+  }, [open, loadWorkspaces]);
+
+  const selectedWorkspaceId = selected?.id;
+  const selectedWorkspaceName = selected?.name;
+
+  useEffect(() => {
+    setWorkspaceName(selectedWorkspaceName || '');
+  }, [selectedWorkspaceId, selectedWorkspaceName]);
+
+  useEffect(() => {
+    if (selectedWorkspaceId) {
+      loadMembers(selectedWorkspaceId);
+    } else {
+      setMembers([]);
+    }
+  }, [selectedWorkspaceId, loadMembers]);
+
+  const handleCreate = async () => {
+    if (!user || !newWorkspaceName.trim()) return;
+
+    try {
+      setBusy(true);
+      const workspace = await createWorkspace(newWorkspaceName, user.id);
+      setNewWorkspaceName('');
+      await loadWorkspaces(workspace.id);
+      onWorkspacesChanged();
+
+      toast({
+        title: "Workspace created",
+        description: `Add members to "${workspace.name}" and move libraries into it from their settings`
+      });
+    } catch (err) {
+      showError("Error creating workspace", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selected || !workspaceName.trim() || workspaceName.trim() === selected.name) return;
+
+    try {
+      await renameWorkspace(selected.id, workspaceName);
+      setWorkspaces(prev => prev.map(w => w.id === selected.id ? { ...w, name: workspaceName.trim() } : w));
+      onWorkspacesChanged();
+    } catch (err) {
+      showError("Error renaming workspace", err);
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!user || !selected || !email.trim()) return;
+
+    if (members.some(member => member.email?.toLowerCase() === email.trim().toLowerCase())) {
+      toast({
+        title: "Already a member",
+        description: `${email} is already in "${selected.name}"`
+      });
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const added = await addWorkspaceMember(selected.id, email, role, user.id);
+      if (!added) {
+        toast({
+          title: "User not found",
+          description: "Workspace members need an account. Invite them to a library first.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setEmail('');
+      setRole('viewer');
+      loadMembers(selected.id);
+    } catch (err) {
+      showError("Error adding member", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpdateRole = async (memberId: string, newRole: LibraryRole) => {
+    try {
+      await updateWorkspaceMemberRole(memberId, newRole);
+      setMembers(prev => prev.map(member => member.member_id === memberId ? { ...member, role: newRole } : member));
+    } catch (err) {
+      showError("Error updating role", err);
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!member.member_id) return;
+
+    try {
+      await removeWorkspaceMember(member.member_id);
+
+      // Leaving a workspace hides it along with its libraries
+      if (member.user_id === user?.id) {
+        await loadWorkspaces();
+        onWorkspacesChanged();
+        return;
+      }
+
+      setMembers(prev => prev.filter(m => m.member_id !== member.member_id));
+    } catch (err) {
+      showError("Error removing member", err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+
+    try {
+      setBusy(true);
+      await deleteWorkspace(selected.id);
+      await loadWorkspaces();
+      onWorkspacesChanged();
+
+      toast({
+        title: "Workspace deleted",
+        description: "Its libraries are back with their owners"
+      });
+    } catch (err) {
+      showError("Error deleting workspace", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const ownMembership = members.find(member => member.user_id === user?.id && member.member_id);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users size={18} /> Workspaces
+          </DialogTitle>
+          <DialogDescription>
+            Libraries in a workspace are shared with all of its members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 my-2">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="new-workspace">New workspace</Label>
+              <Input
+                id="new-workspace"
+                placeholder="Team name"
+                value={newWorkspaceName}
+                onChange={e => setNewWorkspaceName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleCreate()}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={busy || !newWorkspaceName.trim()} className="gap-1">
+              <Plus size={16} /> Create
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : workspaces.length > 0 && (
+            <>
+              <Separator />
+
+              <div className="space-y-2">
+                <Label>Workspace</Label>
+                <Select value={selectedId || undefined} onValueChange={setSelectedId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a workspace" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workspaces.map(workspace => (
+                      <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {selected && (
+                <div className="space-y-4">
+                  {selected.role === 'owner' ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="workspace-name">Name</Label>
+                      <Input
+                        id="workspace-name"
+                        value={workspaceName}
+                        onChange={e => setWorkspaceName(e.target.value)}
+                        onBlur={handleRename}
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Your role: <span className="font-medium text-foreground">{ROLE_LABELS[selected.role]}</span>
+                      {' '}({ROLE_DESCRIPTIONS[selected.role].toLowerCase()} in every library of this workspace)
+                    </p>
+                  )}
+
+                  {assignableRoles.length > 0 && (
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1 space-y-2">
+                        <Label htmlFor="workspace-member-email">Add member</Label>
+                        <Input
+                          id="workspace-member-email"
+                          type="email"
+                          placeholder="user@example.com"
+                          value={email}
+                          onChange={e => setEmail(e.target.value)}
+                        />
+                      </div>
+                      <Select value={role} onValueChange={value => setRole(value as LibraryRole)}>
+                        <SelectTrigger className="w-[120px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableRoles.map(option => (
+                            <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button onClick={handleAddMember} disabled={busy || !email.trim()}>Add</Button>
+                    </div>
+                  )}
+
+                  {loadingMembers ? (
+                    <div className="text-center py-2 text-sm text-muted-foreground">Loading members...</div>
+                  ) : (
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {members.map(member => {
+                        const memberId = member.member_id;
+                        const canManage = !!memberId && assignableRoles.includes(member.role);
+
+                        return (
+                          <div key={member.user_id} className="flex justify-between items-center gap-2 py-2 px-3 border rounded-md">
+                            <div className="text-sm truncate flex-1" title={member.user_id}>
+                              {member.email || member.user_id}
+                            </div>
+                            {canManage ? (
+                              <>
+                                <Select value={member.role} onValueChange={value => handleUpdateRole(memberId, value as LibraryRole)}>
+                                  <SelectTrigger className="w-[120px] h-8">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {assignableRoles.map(option => (
+                                      <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Button size="sm" variant="ghost" onClick={() => handleRemoveMember(member)}>
+                                  <Trash2 size={16} />
+                                </Button>
+                              </>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end">
+                    {selected.role === 'owner' ? (
+                      <Button variant="destructive" size="sm" className="gap-1" onClick={() => setConfirmDelete(true)} disabled={busy}>
+                        <Trash2 size={16} /> Delete Workspace
+                      </Button>
+                    ) : ownMembership && (
+                      <Button variant="outline" size="sm" className="gap-1" onClick={() => handleRemoveMember(ownMembership)}>
+                        <LogOut size={16} /> Leave Workspace
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{selected?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Members lose the access they had through this workspace. Libraries and their items
+              are kept by their owners.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete Workspace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+};
+
+export default WorkspaceManager;
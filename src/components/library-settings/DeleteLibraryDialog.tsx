@@ -11,7 +11,8 @@ import {
   AlertDialogTitle
 } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
-import { Loader2, AlertCircle } from 'lucide-react';
+import { Loader2, AlertCircle, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 
 interface DeleteLibraryDialogProps {
   open: boolean;
@@ -23,6 +24,8 @@ interface DeleteLibraryDialogProps {
   onDeleteTextChange: (text: string) => void;
   deleting: boolean;
   itemCount: number;
+  onExport?: () => void;
+  exporting?: boolean;
 }
 
 const DeleteLibraryDialog = ({
@@ -34,7 +37,9 @@ const DeleteLibraryDialog = ({
   deleteText,
   onDeleteTextChange,
   deleting,
-  itemCount
+  itemCount,
+  onExport,
+  exporting = false
 }: DeleteLibraryDialogProps) => {
   const isButtonDisabled = deleteText !== 'DELETE' || deleting;
 
@@ -64,6 +69,13 @@ const DeleteLibraryDialog = ({
             <br/><br/>
             To confirm deletion of "{libraryName}", please type <strong>DELETE</strong> below:
           </AlertDialogDescription>
+
+          {onExport && itemCount > 0 && (
+            <Button variant="outline" size="sm" className="gap-1 self-start" onClick={onExport} disabled={exporting}>
+              {exporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+              Export a backup first
+            </Button>
+          )}
           
           <div className="mt-4">
             <Input
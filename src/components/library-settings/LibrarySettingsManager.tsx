@@ -1,16 +1,19 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Loader2, Settings, Trash2 } from 'lucide-react';
+import { Download, Loader2, Settings, Trash2 } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { hasHostedFeatures } from '@/integrations/backend';
 import LibraryNameField from './LibraryNameField';
 import SharingToggle from './SharingToggle';
+import WorkspaceField from './WorkspaceField';
 import SharingSection from './SharingSection';
 import ConfirmRevokeDialog from './ConfirmRevokeDialog';
 import DeleteLibraryDialog from './DeleteLibraryDialog';
 import useLibrarySettings from './useLibrarySettings';
 import { LibrarySettingsManagerProps } from './types';
 import { Separator } from '@/components/ui/separator';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/utils/libraryPermissions';
 
 const LibrarySettingsManager: React.FC<LibrarySettingsManagerProps> = ({
   open,
@@ -23,13 +26,16 @@ const LibrarySettingsManager: React.FC<LibrarySettingsManagerProps> = ({
     name,
     setName,
     isShared,
+    workspaceId,
+    setWorkspaceId,
+    workspaces,
     saving,
     email,
     setEmail,
-    canEdit,
-    setCanEdit,
-    canDelete,
-    setCanDelete,
+    role,
+    setRole,
+    assignableRoles,
+    libraryPermissions,
     showConfirmDialog,
     setShowConfirmDialog,
     permissions,
@@ -38,7 +44,13 @@ const LibrarySettingsManager: React.FC<LibrarySettingsManagerProps> = ({
     confirmRevokeAccess,
     cancelRevokeAccess,
     handleAddPermission,
+    handleUpdateRole,
     handleRemovePermission,
+    handleTransferOwnership,
+    invitations,
+    handleResendInvitation,
+    handleCopyInvitationLink,
+    handleRevokeInvitation,
     handleSave,
     deleting,
     showDeleteConfirmDialog,
@@ -46,11 +58,14 @@ const LibrarySettingsManager: React.FC<LibrarySettingsManagerProps> = ({
     deleteLibraryText,
     setDeleteLibraryText,
     handleDeleteLibrary,
-    libraryItemCount
+    libraryItemCount,
+    exporting,
+    handleExportLibrary
   } = useLibrarySettings(library, onLibraryUpdated, onClose, onLibraryDeleted);
 
-  // Only allow deletion if the user is the owner (not a shared library)
-  const isOwnLibrary = !library.shared_by;
+  // Renaming, sharing and deletion are left to the owner; admins manage members
+  const isOwnLibrary = libraryPermissions.can_manage_library;
+  const hosted = hasHostedFeatures();
 
   return <>
       <Dialog open={open} onOpenChange={onClose}>
@@ -60,29 +75,72 @@ const LibrarySettingsManager: React.FC<LibrarySettingsManagerProps> = ({
               <Settings size={18} /> Library Settings
             </DialogTitle>
             <DialogDescription>
-              Update library name and sharing settings.
+              Update library name, workspace and sharing settings.
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 my-4">
-            <LibraryNameField name={name} setName={setName} />
+            {isOwnLibrary && (
+              <>
+                <LibraryNameField name={name} setName={setName} />
+                
+                {(workspaces.length > 0 || workspaceId) && (
+                  <WorkspaceField workspaceId={workspaceId} setWorkspaceId={setWorkspaceId} workspaces={workspaces} />
+                )}
+                
+                {hosted && <SharingToggle isShared={isShared} onToggle={handleSharingToggle} />}
+              </>
+            )}
             
-            <SharingToggle isShared={isShared} onToggle={handleSharingToggle} />
+            {libraryPermissions.role && (
+              <p className="text-sm text-muted-foreground">
+                Your role: <span className="font-medium text-foreground">{ROLE_LABELS[libraryPermissions.role]}</span>
+                {' '}({ROLE_DESCRIPTIONS[libraryPermissions.role].toLowerCase()})
+              </p>
+            )}
             
-            <SharingSection 
+            {hosted && <SharingSection 
+              libraryId={library.id} 
               email={email} 
               setEmail={setEmail} 
-              canEdit={canEdit} 
-              setCanEdit={setCanEdit} 
-              canDelete={canDelete} 
-              setCanDelete={setCanDelete} 
+              role={role} 
+              setRole={setRole} 
+              assignableRoles={assignableRoles} 
               onAddPermission={handleAddPermission} 
               permissions={permissions} 
+              onUpdateRole={handleUpdateRole} 
               onRemovePermission={handleRemovePermission} 
+              onTransferOwnership={isOwnLibrary ? handleTransferOwnership : undefined} 
+              invitations={invitations} 
+              onResendInvitation={handleResendInvitation} 
+              onCopyInvitationLink={handleCopyInvitationLink} 
+              onRevokeInvitation={handleRevokeInvitation} 
               loadingPermissions={loadingPermissions} 
               isShared={isShared} 
               wasShared={library.is_shared} 
-            />
+            />}
+
+            {hosted && <>
+              <Separator className="my-4" />
+
+              <div>
+                <h3 className="text-sm font-medium mb-2">Backup</h3>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Download every item, screenshot and tag as a bundle file you can import later.
+                </p>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  onClick={handleExportLibrary}
+                  disabled={exporting}
+                >
+                  {exporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                  Export Library
+                </Button>
+              </div>
+            </>}
 
             {isOwnLibrary && (
               <>
@@ -139,6 +197,8 @@ const LibrarySettingsManager: React.FC<LibrarySettingsManagerProps> = ({
         onDeleteTextChange={setDeleteLibraryText}
         deleting={deleting}
         itemCount={libraryItemCount}
+        onExport={hosted ? handleExportLibrary : undefined}
+        exporting={exporting}
       />
     </>;
 };
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Link, Mail, Trash2 } from 'lucide-react';
+import { isInvitationExpired, LibraryInvitation } from '@/utils/libraryInvitations';
+import { ROLE_LABELS } from '@/utils/libraryPermissions';
+
+interface PendingInvitationsListProps {
+  invitations: LibraryInvitation[];
+  onResend: (invitation: LibraryInvitation) => void;
+  onCopyLink: (invitation: LibraryInvitation) => void;
+  onRevoke: (invitation: LibraryInvitation) => void;
+}
+
+const PendingInvitationsList = ({
+  invitations,
+  onResend,
+  onCopyLink,
+  onRevoke
+}: PendingInvitationsListProps) => {
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mt-4">
+      <h4 className="text-sm font-medium">Pending invitations:</h4>
+      <div className="space-y-2 max-h-32 overflow-y-auto">
+        {invitations.map(invitation => {
+          const expired = isInvitationExpired(invitation);
+
+          return (
+            <div key={invitation.id} className="flex justify-between items-center gap-2 py-2 px-3 border rounded-md">
+              <div className="min-w-0 flex-1">
+                <div className="text-sm truncate">{invitation.email}</div>
+                <div className="text-xs text-muted-foreground">
+                  {ROLE_LABELS[invitation.role]} · sent {new Date(invitation.last_sent_at).toLocaleDateString()}
+                </div>
+              </div>
+              {expired && <Badge variant="outline" className="text-xs">Expired</Badge>}
+              <Button size="sm" variant="ghost" title="Copy invite link" onClick={() => onCopyLink(invitation)}>
+                <Link size={16} />
+              </Button>
+              <Button size="sm" variant="ghost" title="Resend invitation" onClick={() => onResend(invitation)}>
+                <Mail size={16} />
+              </Button>
+              <Button size="sm" variant="ghost" title="Revoke invitation" onClick={() => onRevoke(invitation)}>
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PendingInvitationsList;
@@ -1,39 +1,33 @@
-
 import React from 'react';
 import { Label } from '@/components/ui/label';
-import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LibraryRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/utils/libraryPermissions';
 
 interface PermissionsSelectorProps {
-  canEdit: boolean;
-  canDelete: boolean;
-  setCanEdit: (value: boolean) => void;
-  setCanDelete: (value: boolean) => void;
+  role: LibraryRole;
+  setRole: (role: LibraryRole) => void;
+  roles: LibraryRole[];
 }
 
 const PermissionsSelector = ({ 
-  canEdit, 
-  canDelete, 
-  setCanEdit, 
-  setCanDelete 
+  role, 
+  setRole, 
+  roles 
 }: PermissionsSelectorProps) => {
   return (
     <div className="w-full space-y-2 mt-2">
-      <div className="flex items-center justify-between">
-        <Label htmlFor="permission-edit" className="text-sm">Can edit</Label>
-        <Switch 
-          id="permission-edit" 
-          checked={canEdit} 
-          onCheckedChange={setCanEdit}
-        />
-      </div>
-      <div className="flex items-center justify-between">
-        <Label htmlFor="permission-delete" className="text-sm">Can delete</Label>
-        <Switch 
-          id="permission-delete" 
-          checked={canDelete}
-          onCheckedChange={setCanDelete}
-        />
-      </div>
+      <Label htmlFor="permission-role" className="text-sm">Role</Label>
+      <Select value={role} onValueChange={value => setRole(value as LibraryRole)}>
+        <SelectTrigger id="permission-role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {roles.map(option => (
+            <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
     </div>
   );
 };
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Globe, Link, Lock, Trash2 } from 'lucide-react';
+import usePublicLinks from './usePublicLinks';
+import { isPublicLinkExpired } from '@/utils/publicLinks';
+
+interface PublicLinksSectionProps {
+  libraryId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '1', label: 'Expires in 1 day', days: 1 },
+  { value: '7', label: 'Expires in 7 days', days: 7 },
+  { value: '30', label: 'Expires in 30 days', days: 30 }
+];
+
+const PublicLinksSection = ({ libraryId }: PublicLinksSectionProps) => {
+  const [expiry, setExpiry] = useState('never');
+  const [password, setPassword] = useState('');
+  const { links, creating, handleCreate, handleCopyLink, handleRevoke } = usePublicLinks(libraryId);
+
+  const onCreate = async () => {
+    const days = EXPIRY_OPTIONS.find(option => option.value === expiry)?.days;
+    const expiresAt = days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+
+    if (await handleCreate(expiresAt, password.trim() || null)) {
+      setPassword('');
+    }
+  };
+
+  return (
+    <div className="space-y-4 pt-2 border-t">
+      <h3 className="text-sm font-medium flex items-center gap-2 pt-2">
+        <Globe size={16} />
+        Public links
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        Anyone with a public link can browse and copy items without an account, but can't change anything.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="mb-1 block">Expiry</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="public-link-password" className="mb-1 block">Password (optional)</Label>
+          <Input
+            id="public-link-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={onCreate}
+          disabled={creating}
+          size="sm"
+          className="bg-neutral-900 hover:bg-neutral-800"
+        >
+          {creating ? 'Creating...' : 'Create Link'}
+        </Button>
+      </div>
+
+      {links.length > 0 && (
+        <div className="space-y-2 max-h-32 overflow-y-auto">
+          {links.map(link => (
+            <div key={link.id} className="flex justify-between items-center gap-2 py-2 px-3 border rounded-md">
+              <div className="min-w-0 flex-1">
+                <div className="text-sm truncate flex items-center gap-1">
+                  {link.has_password && <Lock size={12} className="shrink-0" />}
+                  …/p/{link.token.slice(0, 8)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {link.expires_at
+                    ? `Expires ${new Date(link.expires_at).toLocaleDateString()}`
+                    : 'Never expires'}
+                </div>
+              </div>
+              {isPublicLinkExpired(link) && <Badge variant="outline" className="text-xs">Expired</Badge>}
+              <Button size="sm" variant="ghost" title="Copy public link" onClick={() => handleCopyLink(link)}>
+                <Link size={16} />
+              </Button>
+              <Button size="sm" variant="ghost" title="Revoke public link" onClick={() => handleRevoke(link)}>
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublicLinksSection;
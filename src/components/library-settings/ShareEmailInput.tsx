@@ -4,24 +4,23 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import PermissionsSelector from './PermissionsSelector';
+import { LibraryRole } from '@/utils/libraryPermissions';
 
 interface ShareEmailInputProps {
   email: string;
   setEmail: (email: string) => void;
-  canEdit: boolean;
-  setCanEdit: (value: boolean) => void;
-  canDelete: boolean;
-  setCanDelete: (value: boolean) => void;
+  role: LibraryRole;
+  setRole: (role: LibraryRole) => void;
+  assignableRoles: LibraryRole[];
   onAddPermission: () => void;
 }
 
 const ShareEmailInput = ({
   email,
   setEmail,
-  canEdit,
-  setCanEdit,
-  canDelete,
-  setCanDelete,
+  role,
+  setRole,
+  assignableRoles,
   onAddPermission
 }: ShareEmailInputProps) => {
   return (
@@ -38,10 +37,9 @@ const ShareEmailInput = ({
       </div>
 
       <PermissionsSelector 
-        canEdit={canEdit} 
-        canDelete={canDelete} 
-        setCanEdit={setCanEdit} 
-        setCanDelete={setCanDelete} 
+        role={role} 
+        setRole={setRole} 
+        roles={assignableRoles} 
       />
 
       <div className="flex justify-end">
@@ -1,47 +1,122 @@
-
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Trash2 } from 'lucide-react';
-import { SharePermission } from './types';
+import { Crown, Trash2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { LibraryMember, LibraryRole, ROLE_LABELS } from '@/utils/libraryPermissions';
 
 interface SharePermissionsListProps {
-  permissions: SharePermission[];
+  permissions: LibraryMember[];
+  assignableRoles: LibraryRole[];
+  onUpdateRole: (permissionId: string, role: LibraryRole) => void;
   onRemovePermission: (permissionId: string) => void;
+  // Only passed to the owner
+  onTransferOwnership?: (member: LibraryMember) => void;
   loadingPermissions: boolean;
 }
 
-const SharePermissionsList = ({ 
-  permissions, 
+const SharePermissionsList = ({
+  permissions,
+  assignableRoles,
+  onUpdateRole,
   onRemovePermission,
+  onTransferOwnership,
   loadingPermissions
 }: SharePermissionsListProps) => {
+  const [transferTarget, setTransferTarget] = useState<LibraryMember | null>(null);
+
   if (loadingPermissions) {
     return <div className="text-center py-2 text-sm text-muted-foreground">Loading permissions...</div>;
   }
-  
-  if (permissions.length === 0) {
+
+  // The owner is always listed, so there is nothing to show until someone else has access
+  if (permissions.length <= 1) {
     return null;
   }
 
   return (
     <div className="space-y-2 mt-4">
       <h4 className="text-sm font-medium">Shared with:</h4>
-      <div className="space-y-2 max-h-32 overflow-y-auto">
-        {permissions.map(perm => (
-          <div key={perm.id} className="flex justify-between items-center py-2 px-3 border rounded-md">
-            <div className="text-sm truncate font-mono">
-              {perm.shared_with}
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {permissions.map(member => {
+          const permissionId = member.permission_id;
+          // Admins can't change other admins, and nobody can change the owner
+          const canManage = !!permissionId && assignableRoles.includes(member.role);
+
+          return (
+            <div key={member.user_id} className="flex justify-between items-center gap-2 py-2 px-3 border rounded-md">
+              <div className="text-sm truncate flex-1" title={member.user_id}>
+                {member.email || member.user_id}
+              </div>
+              {canManage ? (
+                <>
+                  <Select value={member.role} onValueChange={value => onUpdateRole(permissionId, value as LibraryRole)}>
+                    <SelectTrigger className="w-[120px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {onTransferOwnership && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Make owner"
+                      onClick={() => setTransferTarget(member)}
+                    >
+                      <Crown size={16} />
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRemovePermission(permissionId)}
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </>
+              ) : (
+                <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role]}{member.source === 'workspace' && ' · workspace'}</span>
+              )}
             </div>
-            <Button
-              size="sm"
-              variant="ghost"
-              onClick={() => onRemovePermission(perm.id)}
-            >
-              <Trash2 size={16} />
-            </Button>
-          </div>
-        ))}
+          );
+        })}
       </div>
+
+      <AlertDialog open={!!transferTarget} onOpenChange={open => !open && setTransferTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer ownership?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {transferTarget?.email || 'This member'} will become the owner of this library.
+              You will stay on as an admin and can no longer rename or delete it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (transferTarget) onTransferOwnership?.(transferTarget);
+                setTransferTarget(null);
+              }}
+            >
+              Transfer Ownership
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
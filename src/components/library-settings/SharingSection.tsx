@@ -3,33 +3,48 @@ import React from 'react';
 import { Share } from 'lucide-react';
 import ShareEmailInput from './ShareEmailInput';
 import SharePermissionsList from './SharePermissionsList';
-import { SharePermission } from './types';
+import PendingInvitationsList from './PendingInvitationsList';
+import PublicLinksSection from './PublicLinksSection';
+import { LibraryMember, LibraryRole } from '@/utils/libraryPermissions';
+import { LibraryInvitation } from '@/utils/libraryInvitations';
 
 interface SharingSectionProps {
+  libraryId: string;
   email: string;
   setEmail: (email: string) => void;
-  canEdit: boolean;
-  setCanEdit: (value: boolean) => void;
-  canDelete: boolean;
-  setCanDelete: (value: boolean) => void;
+  role: LibraryRole;
+  setRole: (role: LibraryRole) => void;
+  assignableRoles: LibraryRole[];
   onAddPermission: () => void;
-  permissions: SharePermission[];
+  permissions: LibraryMember[];
+  onUpdateRole: (permissionId: string, role: LibraryRole) => void;
   onRemovePermission: (permissionId: string) => void;
+  onTransferOwnership?: (member: LibraryMember) => void;
+  invitations: LibraryInvitation[];
+  onResendInvitation: (invitation: LibraryInvitation) => void;
+  onCopyInvitationLink: (invitation: LibraryInvitation) => void;
+  onRevokeInvitation: (invitation: LibraryInvitation) => void;
   loadingPermissions: boolean;
   isShared: boolean;
   wasShared: boolean;
 }
 
 const SharingSection = ({
+  libraryId,
   email,
   setEmail,
-  canEdit,
-  setCanEdit,
-  canDelete,
-  setCanDelete,
+  role,
+  setRole,
+  assignableRoles,
   onAddPermission,
   permissions,
+  onUpdateRole,
   onRemovePermission,
+  onTransferOwnership,
+  invitations,
+  onResendInvitation,
+  onCopyInvitationLink,
+  onRevokeInvitation,
   loadingPermissions,
   isShared,
   wasShared
@@ -38,7 +53,7 @@ const SharingSection = ({
     if (wasShared) {
       return (
         <div className="text-sm text-amber-600 bg-amber-50 p-3 rounded-md">
-          <p>Warning: Turning off sharing will revoke access for all users when you save.</p>
+          <p>Warning: Turning off sharing will revoke access for all users and disable public links when you save.</p>
         </div>
       );
     }
@@ -52,25 +67,38 @@ const SharingSection = ({
         Share with users
       </h3>
 
-      <ShareEmailInput
-        email={email}
-        setEmail={setEmail}
-        canEdit={canEdit}
-        setCanEdit={setCanEdit}
-        canDelete={canDelete}
-        setCanDelete={setCanDelete}
-        onAddPermission={onAddPermission}
-      />
+      {assignableRoles.length > 0 && (
+        <ShareEmailInput
+          email={email}
+          setEmail={setEmail}
+          role={role}
+          setRole={setRole}
+          assignableRoles={assignableRoles}
+          onAddPermission={onAddPermission}
+        />
+      )}
 
       <SharePermissionsList
         permissions={permissions}
+        assignableRoles={assignableRoles}
+        onUpdateRole={onUpdateRole}
         onRemovePermission={onRemovePermission}
+        onTransferOwnership={onTransferOwnership}
         loadingPermissions={loadingPermissions}
       />
 
+      <PendingInvitationsList
+        invitations={invitations}
+        onResend={onResendInvitation}
+        onCopyLink={onCopyInvitationLink}
+        onRevoke={onRevokeInvitation}
+      />
+
       <div className="text-sm text-muted-foreground">
-        <p>Note: Shared libraries can be accessed by users you explicitly share them with.</p>
+        <p>Note: Shared libraries can be accessed by users you explicitly share them with. People without an account are invited to sign up.</p>
       </div>
+
+      {assignableRoles.length > 0 && <PublicLinksSection libraryId={libraryId} />}
     </div>
   );
 };
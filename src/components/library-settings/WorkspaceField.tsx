@@ -0,0 +1,39 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Workspace } from '@/utils/workspaces';
+
+interface WorkspaceFieldProps {
+  workspaceId: string | null;
+  setWorkspaceId: (workspaceId: string | null) => void;
+  workspaces: Workspace[];
+}
+
+const PERSONAL = 'personal';
+
+const WorkspaceField = ({ workspaceId, setWorkspaceId, workspaces }: WorkspaceFieldProps) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="library-workspace">Workspace</Label>
+      <Select
+        value={workspaceId || PERSONAL}
+        onValueChange={value => setWorkspaceId(value === PERSONAL ? null : value)}
+      >
+        <SelectTrigger id="library-workspace">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL}>None (personal)</SelectItem>
+          {workspaces.map(workspace => (
+            <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Workspace members get their workspace role in this library. Sharing with someone below overrides it.
+      </p>
+    </div>
+  );
+};
+
+export default WorkspaceField;
@@ -1,18 +1,6 @@
+import { UserLibrary } from '@/utils/libraries';
 
-export interface SharePermission {
-  id: string;
-  shared_with: string;
-  can_edit: boolean;
-  can_delete: boolean;
-}
-
-export interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-  shared_by?: string;
-}
+export type { UserLibrary };
 
 export interface LibrarySettingsManagerProps {
   open: boolean;
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import {
+  createInvitation,
+  fetchPendingInvitations,
+  getInvitationLink,
+  LibraryInvitation,
+  resendInvitation,
+  revokeInvitation
+} from '@/utils/libraryInvitations';
+import { LibraryRole } from '@/utils/libraryPermissions';
+import { describeClipboardWrite, writeToClipboard } from '@/utils/clipboardWriter';
+
+/**
+ * Pending invitations of a library, shared by the sharing dialogs. Only
+ * admins and the owner can see them, so `enabled` should follow the role.
+ */
+export const useLibraryInvitations = (libraryId: string, enabled: boolean) => {
+  const [invitations, setInvitations] = useState<LibraryInvitation[]>([]);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      setInvitations(await fetchPendingInvitations(libraryId));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+    }
+  }, [libraryId]);
+
+  useEffect(() => {
+    if (user && enabled) {
+      fetchInvitations();
+    } else {
+      setInvitations([]);
+    }
+  }, [user, enabled, fetchInvitations]);
+
+  /**
+   * Invite an address without an account. Returns whether it was sent.
+   */
+  const handleInvite = async (email: string, role: LibraryRole): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const invitation = await createInvitation(libraryId, email, role, user.id);
+      setInvitations(prev => [invitation, ...prev.filter(p => p.id !== invitation.id)]);
+
+      toast({
+        title: "Invitation sent",
+        description: `${invitation.email} doesn't have an account yet. They'll get access once they sign up.`
+      });
+      return true;
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      toast({
+        title: "Error sending invitation",
+        description: (error as Error).message || "Failed to invite this user",
+        variant: "destructive"
+      });
+      // The invitation may exist even if the email failed
+      fetchInvitations();
+      return false;
+    }
+  };
+
+  const handleResend = async (invitation: LibraryInvitation) => {
+    try {
+      const updated = await resendInvitation(invitation);
+      setInvitations(prev => prev.map(p => p.id === updated.id ? updated : p));
+
+      toast({
+        title: "Invitation resent",
+        description: `A new invite link was sent to ${invitation.email}`
+      });
+    } catch (error) {
+      console.error("Error resending invitation:", error);
+      toast({
+        title: "Error resending invitation",
+        description: (error as Error).message || "Failed to resend the invitation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCopyLink = async (invitation: LibraryInvitation) => {
+    const result = await writeToClipboard(getInvitationLink(invitation.token), 'text/plain');
+
+    toast(result.success
+      ? { title: "Invite link copied", description: `Anyone who opens it signed in joins as ${invitation.role}` }
+      : describeClipboardWrite(result));
+  };
+
+  const handleRevoke = async (invitation: LibraryInvitation) => {
+    try {
+      await revokeInvitation(invitation.id);
+      setInvitations(prev => prev.filter(p => p.id !== invitation.id));
+
+      toast({
+        title: "Invitation revoked",
+        description: `The invite link sent to ${invitation.email} no longer works`
+      });
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      toast({
+        title: "Error revoking invitation",
+        description: (error as Error).message || "Failed to revoke the invitation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return {
+    invitations,
+    handleInvite,
+    handleResend,
+    handleCopyLink,
+    handleRevoke
+  };
+};
+
+export default useLibraryInvitations;
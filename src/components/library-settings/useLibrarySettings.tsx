@@ -1,9 +1,28 @@
 
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/context/AuthContext';
-import { SharePermission, UserLibrary } from './types';
+import { hasHostedFeatures } from '@/integrations/backend';
+import { UserLibrary } from './types';
+import { downloadLibraryBundle, exportLibraryBundle } from '@/utils/libraryBundle';
+import {
+  fetchLibraryMembers,
+  fetchLibraryPermissions,
+  getAssignableRoles,
+  LibraryMember,
+  LibraryPermissions,
+  LibraryRole,
+  NO_PERMISSIONS,
+  ROLE_LABELS,
+  transferLibraryOwnership
+} from '@/utils/libraryPermissions';
+import useLibraryInvitations from './useLibraryInvitations';
+import { fetchWorkspaces, Workspace } from '@/utils/workspaces';
+import { revokeAllPublicLinks } from '@/utils/publicLinks';
+import { countLibraryItems, deleteLibrary, updateLibrary } from '@/utils/libraries';
+import { libraryKeys } from '@/hooks/use-libraries';
 
 export const useLibrarySettings = (
   library: UserLibrary, 
@@ -13,19 +32,23 @@ export const useLibrarySettings = (
 ) => {
   const [name, setName] = useState(library.name);
   const [isShared, setIsShared] = useState(library.is_shared);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(library.workspace_id || null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [saving, setSaving] = useState(false);
   const [email, setEmail] = useState('');
-  const [canEdit, setCanEdit] = useState(false);
-  const [canDelete, setCanDelete] = useState(false);
+  const [role, setRole] = useState<LibraryRole>('viewer');
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
-  const [permissions, setPermissions] = useState<SharePermission[]>([]);
+  const [permissions, setPermissions] = useState<LibraryMember[]>([]);
+  const [libraryPermissions, setLibraryPermissions] = useState<LibraryPermissions>(NO_PERMISSIONS);
   const [loadingPermissions, setLoadingPermissions] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
   const [deleteLibraryText, setDeleteLibraryText] = useState('');
   const [libraryItemCount, setLibraryItemCount] = useState(0);
+  const [exporting, setExporting] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
 
   // Fetch existing permissions when the component mounts
   useEffect(() => {
@@ -34,6 +57,36 @@ export const useLibrarySettings = (
     }
   }, [library?.id, user, isShared]);
 
+  // Resolve what the user's role allows in this library
+  useEffect(() => {
+    if (!user || !library?.id) return;
+
+    fetchLibraryPermissions(library.id)
+      .then(setLibraryPermissions)
+      .catch(error => {
+        console.error("Error checking library permissions:", error);
+        setLibraryPermissions(NO_PERMISSIONS);
+      });
+  }, [library?.id, user]);
+
+  const assignableRoles = getAssignableRoles(libraryPermissions.role);
+
+  // Workspaces the owner can move the library into
+  useEffect(() => {
+    if (!user || !libraryPermissions.can_manage_library || !hasHostedFeatures()) return;
+
+    fetchWorkspaces(user.id)
+      .then(data => setWorkspaces(data.filter(workspace => workspace.role !== 'viewer' || workspace.id === library.workspace_id)))
+      .catch(error => console.error("Error fetching workspaces:", error));
+  }, [user, libraryPermissions.can_manage_library, library.workspace_id]);
+  const {
+    invitations,
+    handleInvite,
+    handleResend: handleResendInvitation,
+    handleCopyLink: handleCopyInvitationLink,
+    handleRevoke: handleRevokeInvitation
+  } = useLibraryInvitations(library.id, isShared && assignableRoles.length > 0 && hasHostedFeatures());
+
   // Check how many items are in the library
   useEffect(() => {
     if (user && library?.id) {
@@ -43,14 +96,7 @@ export const useLibrarySettings = (
 
   const checkLibraryItems = async (libraryId: string) => {
     try {
-      const { count, error } = await supabase
-        .from('shared_clipboard_items')
-        .select('*', { count: 'exact', head: true })
-        .eq('library_id', libraryId);
-
-      if (error) throw error;
-      
-      setLibraryItemCount(count || 0);
+      setLibraryItemCount(await countLibraryItems(libraryId));
     } catch (error: any) {
       console.error("Error checking library items:", error);
     }
@@ -62,20 +108,7 @@ export const useLibrarySettings = (
     try {
       setLoadingPermissions(true);
       
-      const { data, error } = await supabase
-        .from('shared_library_permissions')
-        .select(`
-          id,
-          shared_with,
-          can_edit,
-          can_delete
-        `)
-        .eq('shared_by', user.id)
-        .eq('library_id', library.id);
-      
-      if (error) throw error;
-      
-      setPermissions(data || []);
+      setPermissions(await fetchLibraryMembers(library.id));
     } catch (error: any) {
       toast({
         title: "Error fetching permissions",
@@ -118,12 +151,14 @@ export const useLibrarySettings = (
         { email_input: email.toLowerCase().trim() }
       );
       
-      if (userError || !userData) {
-        toast({
-          title: "User not found",
-          description: "No user with that email address was found",
-          variant: "destructive"
-        });
+      if (userError) throw userError;
+      
+      // No account yet, so invite them to sign up
+      if (!userData) {
+        if (await handleInvite(email, role)) {
+          setEmail('');
+          setRole('viewer');
+        }
         return;
       }
       
@@ -139,21 +174,12 @@ export const useLibrarySettings = (
         return;
       }
       
-      // Check if this specific library is already shared with this user
-      const { data: existingPermission, error: checkError } = await supabase
-        .from('shared_library_permissions')
-        .select('id')
-        .eq('shared_by', user.id)
-        .eq('shared_with', recipientId)
-        .eq('library_id', library.id)
-        .maybeSingle();
-        
-      if (checkError) throw checkError;
-      
-      if (existingPermission) {
+      // Each user has one role per library. Workspace members can be given
+      // a library role that overrides their workspace role.
+      if (permissions.some(member => member.user_id === recipientId && member.source !== 'workspace')) {
         toast({
           title: "Already shared",
-          description: `You've already shared this library with this user`,
+          description: "This user already has access to this library",
         });
         return;
       }
@@ -164,8 +190,7 @@ export const useLibrarySettings = (
         .insert({
           shared_by: user.id,
           shared_with: recipientId,
-          can_edit: canEdit,
-          can_delete: canDelete,
+          role,
           library_id: library.id
         })
         .select()
@@ -178,8 +203,7 @@ export const useLibrarySettings = (
         description: `"${library.name}" has been shared with ${email}`,
       });
       setEmail('');
-      setCanEdit(false);
-      setCanDelete(false);
+      setRole('viewer');
       
       // Refresh permissions list
       fetchPermissions();
@@ -193,6 +217,35 @@ export const useLibrarySettings = (
     }
   };
 
+  const handleUpdateRole = async (permissionId: string, newRole: LibraryRole) => {
+    if (!user) return;
+    
+    try {
+      const { error } = await supabase
+        .from('shared_library_permissions')
+        .update({ role: newRole })
+        .eq('id', permissionId);
+      
+      if (error) throw error;
+      
+      // Update local state
+      setPermissions(prev => prev.map(member => 
+        member.permission_id === permissionId ? { ...member, role: newRole } : member
+      ));
+      
+      toast({
+        title: "Role updated",
+        description: `Member is now ${ROLE_LABELS[newRole].toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error updating role",
+        description: (error as Error).message || "An error occurred updating the role",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleRemovePermission = async (permissionId: string) => {
     if (!user) return;
     
@@ -200,17 +253,16 @@ export const useLibrarySettings = (
       const { error } = await supabase
         .from('shared_library_permissions')
         .delete()
-        .eq('id', permissionId)
-        .eq('shared_by', user.id);
+        .eq('id', permissionId);
       
       if (error) throw error;
       
       // Update local state
-      setPermissions(prev => prev.filter(p => p.id !== permissionId));
+      setPermissions(prev => prev.filter(member => member.permission_id !== permissionId));
       
       toast({
         title: "Sharing removed",
-        description: "This user no longer has access to your library",
+        description: "This user no longer has access to the library",
       });
     } catch (error: any) {
       toast({
@@ -221,36 +273,38 @@ export const useLibrarySettings = (
     }
   };
 
+  const handleTransferOwnership = async (member: LibraryMember) => {
+    if (!user || !library.id) return;
+    
+    try {
+      await transferLibraryOwnership(library.id, member.user_id);
+      
+      toast({
+        title: "Ownership transferred",
+        description: `${member.email || 'The new owner'} now owns "${library.name}". You are an admin.`
+      });
+      
+      // The library now reads as shared with the user
+      onLibraryUpdated({ ...library, shared_by: member.user_id });
+      onClose();
+    } catch (error) {
+      console.error("Error transferring ownership:", error);
+      toast({
+        title: "Error transferring ownership",
+        description: (error as Error).message || "Failed to transfer ownership",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleDeleteLibrary = async () => {
     if (!user || !library.id || deleteLibraryText !== 'DELETE') return;
     
     try {
       setDeleting(true);
 
-      // First delete any shared library permissions for this library
-      const { error: permissionsError } = await supabase
-        .from('shared_library_permissions')
-        .delete()
-        .eq('library_id', library.id);
-        
-      if (permissionsError) throw permissionsError;
-
-      // Then, update all clipboard items to set their library_id to null
-      const { error: updateError } = await supabase
-        .from('shared_clipboard_items')
-        .update({ library_id: null })
-        .eq('library_id', library.id);
-
-      if (updateError) throw updateError;
-      
-      // Finally, delete the library
-      const { error: deleteError } = await supabase
-        .from('user_libraries')
-        .delete()
-        .eq('id', library.id)
-        .eq('created_by', user.id);
-
-      if (deleteError) throw deleteError;
+      await deleteLibrary(library.id);
+      queryClient.invalidateQueries({ queryKey: libraryKeys.lists() });
       
       toast({
         title: "Library deleted",
@@ -264,10 +318,10 @@ export const useLibrarySettings = (
       
       // Close the dialog
       onClose();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error deleting library",
-        description: error.message || "An error occurred while deleting the library",
+        description: (error as Error).message || "An error occurred while deleting the library",
         variant: "destructive"
       });
     } finally {
@@ -287,35 +341,45 @@ export const useLibrarySettings = (
       return;
     }
 
+    // Member changes save as they are made; only the owner edits the library itself
+    if (!libraryPermissions.can_manage_library) {
+      onClose();
+      return;
+    }
+
     try {
       setSaving(true);
 
       // First update library info
-      const { data, error } = await supabase
-        .from('user_libraries')
-        .update({ 
-          name: name.trim(),
-          is_shared: isShared 
-        })
-        .eq('id', library.id)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const updated = await updateLibrary(
+        library.id,
+        { name, is_shared: isShared, workspace_id: workspaceId },
+        user.id
+      );
 
       // If sharing has been turned off, delete all permissions
       if (!isShared && library.is_shared) {
         const { error: deleteError } = await supabase
           .from('shared_library_permissions')
           .delete()
-          .eq('library_id', library.id)
-          .eq('shared_by', user.id);
+          .eq('library_id', library.id);
         
         if (deleteError) throw deleteError;
+
+        const { error: invitationsError } = await supabase
+          .from('library_invitations')
+          .delete()
+          .eq('library_id', library.id);
+        
+        if (invitationsError) throw invitationsError;
+
+        await revokeAllPublicLinks(library.id);
       }
 
+      queryClient.invalidateQueries({ queryKey: libraryKeys.lists() });
+
       // Update the library in the parent component
-      onLibraryUpdated(data as UserLibrary);
+      onLibraryUpdated(updated);
 
       toast({
         title: "Library updated",
@@ -334,18 +398,37 @@ export const useLibrarySettings = (
     }
   };
 
+  const handleExportLibrary = async () => {
+    try {
+      setExporting(true);
+      downloadLibraryBundle(await exportLibraryBundle(library.id));
+    } catch (error) {
+      console.error("Error exporting library:", error);
+      toast({
+        title: "Export failed",
+        description: (error as Error).message || "Failed to export library",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return {
     name,
     setName,
     isShared,
     setIsShared,
+    workspaceId,
+    setWorkspaceId,
+    workspaces,
     saving,
     email,
     setEmail,
-    canEdit,
-    setCanEdit,
-    canDelete,
-    setCanDelete,
+    role,
+    setRole,
+    assignableRoles,
+    libraryPermissions,
     showConfirmDialog,
     setShowConfirmDialog,
     permissions,
@@ -354,7 +437,13 @@ export const useLibrarySettings = (
     confirmRevokeAccess,
     cancelRevokeAccess,
     handleAddPermission,
+    handleUpdateRole,
     handleRemovePermission,
+    handleTransferOwnership,
+    invitations,
+    handleResendInvitation,
+    handleCopyInvitationLink,
+    handleRevokeInvitation,
     handleSave,
     deleting, 
     showDeleteConfirmDialog,
@@ -362,7 +451,9 @@ export const useLibrarySettings = (
     deleteLibraryText,
     setDeleteLibraryText,
     handleDeleteLibrary,
-    libraryItemCount
+    libraryItemCount,
+    exporting,
+    handleExportLibrary
   };
 };
 
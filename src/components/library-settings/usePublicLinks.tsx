@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/AuthContext';
+import {
+  createPublicLink,
+  fetchPublicLinks,
+  getPublicLinkUrl,
+  PublicLibraryLink,
+  revokePublicLink
+} from '@/utils/publicLinks';
+import { describeClipboardWrite, writeToClipboard } from '@/utils/clipboardWriter';
+
+/**
+ * Public read-only links of a library. Only admins and the owner can list
+ * them, so only mount it for those roles.
+ */
+export const usePublicLinks = (libraryId: string) => {
+  const [links, setLinks] = useState<PublicLibraryLink[]>([]);
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      setLinks(await fetchPublicLinks(libraryId));
+    } catch (error) {
+      console.error("Error fetching public links:", error);
+    }
+  }, [libraryId]);
+
+  useEffect(() => {
+    if (user) {
+      fetchLinks();
+    }
+  }, [user, fetchLinks]);
+
+  const handleCopyLink = async (link: PublicLibraryLink) => {
+    const result = await writeToClipboard(getPublicLinkUrl(link.token), 'text/plain');
+
+    toast(result.success
+      ? { title: "Public link copied", description: "Anyone with the link can browse and copy this library" }
+      : describeClipboardWrite(result));
+  };
+
+  /**
+   * Create a link and copy it. Returns whether it was created.
+   */
+  const handleCreate = async (expiresAt: string | null, password: string | null): Promise<boolean> => {
+    try {
+      setCreating(true);
+      const link = await createPublicLink(libraryId, expiresAt, password);
+      setLinks(prev => [link, ...prev]);
+      await handleCopyLink(link);
+      return true;
+    } catch (error) {
+      console.error("Error creating public link:", error);
+      toast({
+        title: "Error creating public link",
+        description: (error as Error).message || "Failed to publish this library",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: PublicLibraryLink) => {
+    try {
+      await revokePublicLink(link.id);
+      setLinks(prev => prev.filter(p => p.id !== link.id));
+
+      toast({
+        title: "Public link revoked",
+        description: "The link no longer opens this library"
+      });
+    } catch (error) {
+      console.error("Error revoking public link:", error);
+      toast({
+        title: "Error revoking public link",
+        description: (error as Error).message || "Failed to revoke the link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return {
+    links,
+    creating,
+    handleCreate,
+    handleCopyLink,
+    handleRevoke
+  };
+};
+
+export default usePublicLinks;
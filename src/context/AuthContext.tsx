@@ -1,6 +1,10 @@
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { getBackend } from '@/integrations/backend';
+import { clearOfflineCache } from '@/utils/offlineCache';
+import { flushPendingDeletes } from '@/utils/pendingDeletes';
+import { setSyncUser } from '@/utils/syncQueue';
 import { Session, User } from '@supabase/supabase-js';
 
 interface AuthContextType {
@@ -25,31 +29,45 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  // Undefined until the first session is known
+  const userId = useRef<string | null>();
 
   useEffect(() => {
-    // Set up the auth state listener
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        setLoading(false);
-      }
-    );
+    const { auth } = getBackend();
 
-    // Get the current session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    const applySession = (session: Session | null) => {
+      const nextUserId = session?.user.id ?? null;
+      // Cached queries aren't keyed by user, so the next user starts afresh
+      if (userId.current !== undefined && userId.current !== nextUserId) {
+        queryClient.clear();
+      }
+      userId.current = nextUserId;
+      setSyncUser(nextUserId);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
-    });
-
-    return () => {
-      subscription.unsubscribe();
     };
-  }, []);
+
+    // Set up the auth state listener
+    const unsubscribe = auth.onAuthStateChange(applySession);
+
+    // Get the current session
+    auth.getSession()
+      .catch(error => {
+        console.error('Error getting session:', error);
+        return null;
+      })
+      .then(applySession);
+
+    return unsubscribe;
+  }, [queryClient]);
 
   const signOut = async () => {
-    await supabase.auth.signOut();
+    // Deletes still in their undo window are sent while the session lasts
+    if (user) await flushPendingDeletes(user.id, true);
+    await getBackend().auth.signOut();
+    clearOfflineCache();
   };
 
   const value = {
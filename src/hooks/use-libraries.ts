@@ -0,0 +1,232 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useAuth } from "@/context/AuthContext"
+import {
+  AccessibleLibraries,
+  createLibrary,
+  deleteLibrary,
+  deleteLibraryItem,
+  EMPTY_LIBRARIES,
+  fetchAccessibleLibraries,
+  fetchItemsInLibraries,
+  fetchLibraryItems,
+  LibraryItem,
+  moveLibraryItem,
+  UserLibrary,
+  updateLibrary,
+} from "@/utils/libraries"
+import { fetchLibraryPermissions, LibraryPermissions, NO_PERMISSIONS } from "@/utils/libraryPermissions"
+import { readOfflineCache, withOfflineCache } from "@/utils/offlineCache"
+import { withPendingChanges } from "@/utils/syncQueue"
+import { withoutPendingDeletes } from "@/utils/pendingDeletes"
+import { runBulk } from "@/utils/bulkItems"
+
+export const libraryKeys = {
+  all: ["libraries"] as const,
+  lists: () => ["libraries", "list"] as const,
+  list: (userId: string | undefined) => ["libraries", "list", userId] as const,
+  items: (libraryId: string | null) => ["libraries", "items", libraryId] as const,
+  itemsIn: (libraryIds: string[]) => ["libraries", "items", { libraryIds }] as const,
+  permissions: (libraryId: string | null) => ["libraries", "permissions", libraryId] as const,
+}
+
+// Start from the offline copy and keep running queries without a connection
+const offlineFirst = <T>(key: readonly unknown[]) => ({
+  networkMode: "offlineFirst" as const,
+  initialData: () => readOfflineCache<T>(key),
+  initialDataUpdatedAt: 0,
+})
+
+type LibraryGroup = Exclude<keyof AccessibleLibraries, "workspaces">
+
+const LIBRARY_GROUPS: LibraryGroup[] = ["own", "shared", "workspaceLibraries"]
+
+// Apply a change to a library wherever it is listed
+const patchLibraries = (
+  libraries: AccessibleLibraries,
+  update: (list: UserLibrary[]) => UserLibrary[]
+): AccessibleLibraries => ({
+  ...libraries,
+  ...Object.fromEntries(LIBRARY_GROUPS.map(group => [group, update(libraries[group])])),
+})
+
+/**
+ * Every library the signed-in user can open
+ */
+export function useLibraries() {
+  const { user } = useAuth()
+
+  const key = libraryKeys.list(user?.id)
+  const query = useQuery({
+    queryKey: key,
+    queryFn: () => withOfflineCache(key, () => fetchAccessibleLibraries(user!.id)),
+    enabled: !!user,
+    ...offlineFirst<AccessibleLibraries>(key),
+  })
+
+  return { ...query, libraries: query.data || EMPTY_LIBRARIES }
+}
+
+/**
+ * A library's items, including changes still waiting to sync and leaving
+ * out deletes that can still be undone
+ */
+export function useLibraryItems(libraryId: string | null) {
+  const key = libraryKeys.items(libraryId)
+  const query = useQuery({
+    queryKey: key,
+    queryFn: async () =>
+      withoutPendingDeletes(withPendingChanges([libraryId!], await withOfflineCache(key, () => fetchLibraryItems(libraryId!)))),
+    enabled: !!libraryId,
+    networkMode: "offlineFirst",
+  })
+
+  return { ...query, items: query.data || [] }
+}
+
+export function useItemsInLibraries(libraryIds: string[]) {
+  const key = libraryKeys.itemsIn(libraryIds)
+  const query = useQuery({
+    queryKey: key,
+    queryFn: async () =>
+      withoutPendingDeletes(withPendingChanges(libraryIds, await withOfflineCache(key, () => fetchItemsInLibraries(libraryIds)))),
+    enabled: libraryIds.length > 0,
+    networkMode: "offlineFirst",
+  })
+
+  return { ...query, items: query.data || [] }
+}
+
+/**
+ * What the user's role allows in a library
+ */
+export function useLibraryPermissions(libraryId: string | null) {
+  const key = libraryKeys.permissions(libraryId)
+  const query = useQuery({
+    queryKey: key,
+    queryFn: () => withOfflineCache(key, () => fetchLibraryPermissions(libraryId!)),
+    enabled: !!libraryId,
+    ...offlineFirst<LibraryPermissions>(key),
+  })
+
+  return { ...query, permissions: query.data || NO_PERMISSIONS }
+}
+
+export function useCreateLibrary() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (values: { name: string; is_shared: boolean }) => createLibrary(user!.id, values),
+    onSuccess: library => {
+      // Show it everywhere right away, then pick up anything else that changed
+      queryClient.setQueryData<AccessibleLibraries>(libraryKeys.list(user?.id), current =>
+        current && { ...current, own: [...current.own, library] }
+      )
+      queryClient.invalidateQueries({ queryKey: libraryKeys.lists() })
+    },
+  })
+}
+
+/**
+ * Shared by the optimistic library mutations: snapshot the lists, apply the
+ * change, and roll back if the request fails.
+ */
+function useOptimisticLibraries() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const key = libraryKeys.list(user?.id)
+
+  return {
+    user,
+    queryClient,
+    apply: async (update: (list: UserLibrary[]) => UserLibrary[]) => {
+      await queryClient.cancelQueries({ queryKey: key })
+      const previous = queryClient.getQueryData<AccessibleLibraries>(key)
+      if (previous) queryClient.setQueryData(key, patchLibraries(previous, update))
+      return { previous }
+    },
+    rollback: (context?: { previous?: AccessibleLibraries }) => {
+      if (context?.previous) queryClient.setQueryData(key, context.previous)
+    },
+    settle: () => queryClient.invalidateQueries({ queryKey: libraryKeys.lists() }),
+  }
+}
+
+export function useUpdateLibrary() {
+  const { user, apply, rollback, settle } = useOptimisticLibraries()
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: { name?: string; is_shared?: boolean; workspace_id?: string | null } }) =>
+      updateLibrary(id, values, user!.id),
+    onMutate: ({ id, values }) =>
+      apply(list => list.map(library => library.id === id ? { ...library, ...values } : library)),
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: settle,
+  })
+}
+
+export function useDeleteLibrary() {
+  const { apply, rollback, settle } = useOptimisticLibraries()
+
+  return useMutation({
+    mutationFn: (libraryId: string) => deleteLibrary(libraryId),
+    onMutate: libraryId => apply(list => list.filter(library => library.id !== libraryId)),
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: settle,
+  })
+}
+
+/**
+ * Remove an item from its library's list while the delete is in flight
+ */
+export function useDeleteLibraryItem(libraryId: string | null) {
+  const queryClient = useQueryClient()
+  const key = libraryKeys.items(libraryId)
+
+  return useMutation({
+    mutationFn: (itemId: string) => deleteLibraryItem(itemId),
+    onMutate: async itemId => {
+      await queryClient.cancelQueries({ queryKey: key })
+      const previous = queryClient.getQueryData<LibraryItem[]>(key)
+      queryClient.setQueryData<LibraryItem[]>(key, current => current?.filter(item => item.id !== itemId))
+      return { previous }
+    },
+    onError: (_error, _itemId, context) => {
+      if (context?.previous) queryClient.setQueryData(key, context.previous)
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  })
+}
+
+/**
+ * Move items to another library, taking them off this library's list while
+ * the moves are in flight. Items that fail to move come back on refetch.
+ */
+export function useMoveLibraryItems(fromLibraryId: string | null) {
+  const queryClient = useQueryClient()
+  const key = libraryKeys.items(fromLibraryId)
+
+  return useMutation({
+    mutationFn: ({ itemIds, libraryId, onProgress }: {
+      itemIds: string[]
+      libraryId: string
+      onProgress?: (done: number, total: number) => void
+    }) => runBulk(itemIds, async itemId => {
+      await moveLibraryItem(itemId, libraryId)
+      return itemId
+    }, onProgress),
+    onMutate: async ({ itemIds }) => {
+      await queryClient.cancelQueries({ queryKey: key })
+      const previous = queryClient.getQueryData<LibraryItem[]>(key)
+      queryClient.setQueryData<LibraryItem[]>(key, current => current?.filter(item => !itemIds.includes(item.id)))
+      return { previous }
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(key, context.previous)
+    },
+    onSettled: (_data, _error, { libraryId }) => {
+      queryClient.invalidateQueries({ queryKey: key })
+      queryClient.invalidateQueries({ queryKey: libraryKeys.items(libraryId) })
+    },
+  })
+}
@@ -0,0 +1,56 @@
+import * as React from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { useAuth } from "@/context/AuthContext"
+import { libraryKeys } from "@/hooks/use-libraries"
+import { flushPendingDeletes } from "@/utils/pendingDeletes"
+import { flushSyncQueue, getSyncStatus, setOnline, subscribeToSyncStatus } from "@/utils/syncQueue"
+
+const RETRY_INTERVAL = 30_000
+
+export function useSyncStatus() {
+  return React.useSyncExternalStore(subscribeToSyncStatus, getSyncStatus)
+}
+
+/**
+ * Send queued changes when the connection comes back, and retry now and
+ * then in case the browser's online events are missed. Deletes left over
+ * from an earlier visit are sent too, and any still waiting out their undo
+ * window are sent when the page is closed.
+ */
+export function useBackgroundSync() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const userId = user?.id
+
+  React.useEffect(() => {
+    const sync = async () => {
+      if (!navigator.onLine) return
+      if (userId) await flushPendingDeletes(userId)
+      if (getSyncStatus().pending === 0) return
+      await flushSyncQueue()
+      // Swap the queued copies for the saved items
+      queryClient.invalidateQueries({ queryKey: libraryKeys.all })
+    }
+    const handlePageHide = () => {
+      if (userId) flushPendingDeletes(userId, true)
+    }
+    const handleOnline = () => {
+      setOnline(true)
+      sync()
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    window.addEventListener("pagehide", handlePageHide)
+    const interval = window.setInterval(sync, RETRY_INTERVAL)
+    sync()
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+      window.removeEventListener("pagehide", handlePageHide)
+      window.clearInterval(interval)
+    }
+  }, [queryClient, userId])
+}
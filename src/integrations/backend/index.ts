@@ -0,0 +1,34 @@
+import { createLocalBackend } from './local';
+import { createSupabaseBackend } from './supabase';
+import { BackendName, StorageBackend } from './types';
+
+export * from './types';
+export { createLocalBackend } from './local';
+export { createSupabaseBackend } from './supabase';
+
+const createBackend = (name: BackendName): StorageBackend =>
+  name === 'local' ? createLocalBackend({ persist: true }) : createSupabaseBackend();
+
+// Chosen at startup with VITE_STORAGE_BACKEND, Supabase unless it says "local"
+let backend = createBackend(import.meta.env.VITE_STORAGE_BACKEND === 'local' ? 'local' : 'supabase');
+
+/**
+ * The backend libraries, items, permissions and auth go through
+ */
+export const getBackend = (): StorageBackend => backend;
+
+/**
+ * Whether features outside the backend interface are available. Tags,
+ * screenshots, search, history, sharing, invitations, workspaces, public
+ * links and bundles talk to Supabase directly, so the UI hides them when
+ * running on the local backend.
+ */
+export const hasHostedFeatures = (): boolean => backend.name === 'supabase';
+
+/**
+ * Swap the backend, e.g. for a local one in tests. Call it before anything
+ * has been loaded from the previous backend.
+ */
+export const setBackend = (next: StorageBackend): void => {
+  backend = next;
+};
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createLocalBackend } from './local';
+import { StorageBackend } from './types';
+
+// A clock that moves one minute per reading, so every write gets its own timestamp
+const createClock = () => {
+  let minutes = 0;
+  return () => new Date(Date.UTC(2026, 0, 1, 0, ++minutes));
+};
+
+// Alice, signed in, owns a library with one item
+const createSeed = () => ({
+  users: [
+    { id: 'user-1', email: 'alice@example.com', password_hash: '', created_at: '2026-01-01T00:00:00.000Z' }
+  ],
+  session_user_id: 'user-1',
+  libraries: [
+    {
+      id: 'library-2',
+      name: 'Components',
+      is_shared: false,
+      created_by: 'user-1',
+      created_at: '2026-01-01T00:00:00.000Z',
+      workspace_id: null
+    }
+  ],
+  items: [
+    {
+      id: 'item-3',
+      title: 'Navbar',
+      content: '{}',
+      content_type: 'text',
+      class_names: [],
+      element_types: [],
+      created_by: 'user-1',
+      library_id: 'library-2',
+      screenshot_url: null,
+      thumbnail_url: null,
+      search_vector: null,
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z'
+    }
+  ],
+  next_id: 4
+});
+
+describe('createLocalBackend', () => {
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    backend = createLocalBackend({ seed: createSeed(), now: createClock() });
+  });
+
+  it('starts from the seed', async () => {
+    const session = await backend.auth.getSession();
+    expect(session?.user.email).toBe('alice@example.com');
+
+    const libraries = await backend.libraries.listAccessible('user-1');
+    expect(libraries.own.map(library => library.name)).toEqual(['Components']);
+    expect(libraries.own[0].role).toBe('owner');
+    expect(await backend.items.count('library-2')).toBe(1);
+  });
+
+  it('numbers new rows and lists items newest first', async () => {
+    const library = await backend.libraries.create('user-1', { name: '  Sections ', is_shared: false });
+    expect(library).toMatchObject({ id: 'library-4', name: 'Sections', created_at: '2026-01-01T00:01:00.000Z' });
+
+    await backend.items.create({ title: 'Hero', content: '{}', content_type: 'text', created_by: 'user-1', library_id: library.id });
+    await backend.items.create({ title: 'Footer', content: '{}', content_type: 'text', created_by: 'user-1', library_id: library.id });
+
+    const items = await backend.items.list([library.id]);
+    expect(items.map(item => [item.id, item.title])).toEqual([['item-6', 'Footer'], ['item-5', 'Hero']]);
+  });
+
+  it('refuses an update made from an older version', async () => {
+    const updated = await backend.items.update('item-3', { title: 'Header' }, '2026-01-01T00:00:00.000Z');
+    expect(updated).toMatchObject({ title: 'Header', updated_at: '2026-01-01T00:01:00.000Z' });
+
+    const stale = await backend.items.update('item-3', { title: 'Top bar' }, '2025-12-31T00:00:00.000Z');
+    expect(stale).toBeNull();
+
+    const [item] = await backend.items.list(['library-2']);
+    expect(item.title).toBe('Header');
+  });
+
+  it("keeps other users out of a library they don't own", async () => {
+    await backend.auth.signOut();
+    await backend.auth.signUp('carol@example.com', 'secret');
+
+    await expect(backend.items.remove('item-3')).rejects.toThrow("You don't have permission");
+    await expect(backend.permissions.get('library-2')).resolves.toMatchObject({ role: null, can_add_items: false });
+    expect(await backend.items.count('library-2')).toBe(1);
+  });
+
+  it('signs in with the password an account was created with', async () => {
+    await backend.auth.signUp('dave@example.com', 'secret');
+    await backend.auth.signOut();
+    expect(await backend.auth.getSession()).toBeNull();
+
+    await expect(backend.auth.signIn('dave@example.com', 'wrong')).rejects.toThrow('Invalid login credentials');
+    await backend.auth.signIn('Dave@Example.com', 'secret');
+    expect((await backend.auth.getSession())?.user.email).toBe('dave@example.com');
+  });
+
+  it('keeps the items of a deleted library without a library', async () => {
+    await backend.libraries.remove('library-2');
+
+    expect((await backend.libraries.listAccessible('user-1')).own).toEqual([]);
+    expect(await backend.items.count('library-2')).toBe(0);
+    // Still stored, but no longer in a library anyone can change
+    await expect(backend.items.remove('item-3')).rejects.toThrow("You don't have permission");
+  });
+});
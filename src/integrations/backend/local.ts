@@ -0,0 +1,340 @@
+import type { Session, User } from '@supabase/supabase-js';
+import type { Tables } from '@/integrations/supabase/types';
+import type { LibraryItem, UserLibrary } from '@/utils/libraries';
+import { LibraryPermissions, NO_PERMISSIONS } from '@/utils/libraryPermissions';
+import { StorageBackend } from './types';
+
+interface LocalUser {
+  id: string;
+  email: string;
+  password_hash: string;
+  created_at: string;
+}
+
+export interface LocalState {
+  users: LocalUser[];
+  session_user_id: string | null;
+  libraries: Tables<'user_libraries'>[];
+  // Oldest first
+  items: LibraryItem[];
+  // Ids are numbered so fixtures and test runs come out the same every time
+  next_id: number;
+}
+
+export interface LocalBackendOptions {
+  // Keep the data in IndexedDB so it survives a reload
+  persist?: boolean;
+  seed?: Partial<LocalState>;
+  now?: () => Date;
+}
+
+// Separate from the clipboard history database, which has its own versions
+const DB_NAME = 'webflow-library-backend';
+const STORE_NAME = 'state';
+const STATE_KEY = 'state';
+
+const OWNER_PERMISSIONS: LibraryPermissions = {
+  role: 'owner',
+  can_add_items: true,
+  can_edit_items: true,
+  can_delete_items: true,
+  can_manage_members: true,
+  can_manage_library: true
+};
+
+const emptyState = (): LocalState => ({
+  users: [],
+  session_user_id: null,
+  libraries: [],
+  items: [],
+  next_id: 1
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const readSnapshot = async (): Promise<LocalState | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(STATE_KEY);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeSnapshot = async (state: LocalState): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(state, STATE_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const hashPassword = async (password: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const toSession = (user: LocalUser): Session => {
+  const sessionUser: User = {
+    id: user.id,
+    email: user.email,
+    aud: 'authenticated',
+    app_metadata: { provider: 'local' },
+    user_metadata: {},
+    created_at: user.created_at
+  };
+  return {
+    access_token: `local-${user.id}`,
+    refresh_token: '',
+    token_type: 'bearer',
+    expires_in: 0,
+    user: sessionUser
+  };
+};
+
+/**
+ * Accounts, libraries and items kept in the browser, for working offline
+ * and as a deterministic fake in tests. Every library is private to its
+ * owner: sharing, workspaces and realtime need the Supabase backend.
+ */
+export const createLocalBackend = (options: LocalBackendOptions = {}): StorageBackend => {
+  const now = () => (options.now ? options.now() : new Date()).toISOString();
+  const listeners = new Set<(session: Session | null) => void>();
+  let state: LocalState = { ...emptyState(), ...options.seed };
+
+  const loaded = options.persist
+    ? readSnapshot().then(snapshot => {
+        if (snapshot) state = snapshot;
+      })
+    : Promise.resolve();
+
+  const read = async () => {
+    await loaded;
+    return state;
+  };
+
+  // Apply a change and save it, returning whatever the change returns
+  const write = async <T>(change: (current: LocalState) => T): Promise<T> => {
+    await loaded;
+    const result = change(state);
+    if (options.persist) await writeSnapshot(state);
+    return result;
+  };
+
+  const nextId = (prefix: string) => `${prefix}-${state.next_id++}`;
+
+  const currentUserId = () => {
+    if (!state.session_user_id) throw new Error('Not signed in');
+    return state.session_user_id;
+  };
+
+  const findLibrary = (libraryId: string) => {
+    const library = state.libraries.find(row => row.id === libraryId);
+    if (!library) throw new Error('Library not found');
+    return library;
+  };
+
+  const findItem = (itemId: string) => {
+    const item = state.items.find(row => row.id === itemId);
+    if (!item) throw new Error('Item not found');
+    return item;
+  };
+
+  // Stands in for row-level security: only the owner changes a library
+  const requireOwner = (libraryId: string | null) => {
+    if (!libraryId || findLibrary(libraryId).created_by !== currentUserId()) {
+      throw new Error("You don't have permission to change this library");
+    }
+  };
+
+  // Copies, so later changes don't reach into cached query data
+  const toUserLibrary = (row: Tables<'user_libraries'>): UserLibrary => ({
+    ...row,
+    is_shared: !!row.is_shared,
+    role: 'owner'
+  });
+
+  const notify = () => {
+    const user = state.users.find(row => row.id === state.session_user_id);
+    const session = user ? toSession(user) : null;
+    listeners.forEach(listener => listener(session));
+  };
+
+  return {
+    name: 'local',
+
+    auth: {
+      getSession: async () => {
+        const { users, session_user_id } = await read();
+        const user = users.find(row => row.id === session_user_id);
+        return user ? toSession(user) : null;
+      },
+      onAuthStateChange: (callback) => {
+        listeners.add(callback);
+        return () => listeners.delete(callback);
+      },
+      signUp: async (email, password) => {
+        const password_hash = await hashPassword(password);
+        const user = await write(current => {
+          const normalized = email.trim().toLowerCase();
+          if (current.users.some(row => row.email === normalized)) {
+            throw new Error('User already registered');
+          }
+          const created: LocalUser = { id: nextId('user'), email: normalized, password_hash, created_at: now() };
+          current.users.push(created);
+          current.session_user_id = created.id;
+          return created;
+        });
+        notify();
+        // There is no email to confirm, so the new account is signed in right away
+        return { session: toSession(user) };
+      },
+      signIn: async (email, password) => {
+        const password_hash = await hashPassword(password);
+        await write(current => {
+          const user = current.users.find(row =>
+            row.email === email.trim().toLowerCase() && row.password_hash === password_hash
+          );
+          if (!user) throw new Error('Invalid login credentials');
+          current.session_user_id = user.id;
+        });
+        notify();
+      },
+      signOut: async () => {
+        await write(current => {
+          current.session_user_id = null;
+        });
+        notify();
+      }
+    },
+
+    libraries: {
+      listAccessible: async (userId) => {
+        const { libraries } = await read();
+        return {
+          own: libraries.filter(row => row.created_by === userId).map(toUserLibrary),
+          shared: [],
+          workspaces: [],
+          workspaceLibraries: []
+        };
+      },
+
+      get: async (libraryId) => {
+        await read();
+        return toUserLibrary(findLibrary(libraryId));
+      },
+
+      create: async (userId, values) => write(() => {
+        const library: Tables<'user_libraries'> = {
+          id: nextId('library'),
+          name: values.name.trim(),
+          is_shared: values.is_shared,
+          created_by: userId,
+          created_at: now(),
+          workspace_id: null
+        };
+        state.libraries.push(library);
+        return toUserLibrary(library);
+      }),
+
+      update: async (libraryId, values) => write(() => {
+        requireOwner(libraryId);
+        const library = findLibrary(libraryId);
+        Object.assign(library, values.name === undefined ? values : { ...values, name: values.name.trim() });
+        return toUserLibrary(library);
+      }),
+
+      remove: async (libraryId) => write(current => {
+        requireOwner(libraryId);
+        current.items.forEach(item => {
+          if (item.library_id === libraryId) item.library_id = null;
+        });
+        current.libraries = current.libraries.filter(row => row.id !== libraryId);
+      })
+    },
+
+    items: {
+      list: async (libraryIds) => {
+        const { items } = await read();
+        return items
+          .filter(item => item.library_id && libraryIds.includes(item.library_id))
+          .map(item => ({ ...item }))
+          .reverse();
+      },
+
+      count: async (libraryId) => {
+        const { items } = await read();
+        return items.filter(item => item.library_id === libraryId).length;
+      },
+
+      create: async (values) => write(current => {
+        requireOwner(values.library_id || null);
+        const timestamp = now();
+        const item: LibraryItem = {
+          class_names: [],
+          element_types: [],
+          created_by: null,
+          library_id: null,
+          screenshot_url: null,
+          thumbnail_url: null,
+          search_vector: null,
+          ...values,
+          id: nextId('item'),
+          created_at: timestamp,
+          updated_at: timestamp
+        };
+        current.items.push(item);
+        return { ...item };
+      }),
+
+      update: async (itemId, values, expectedUpdatedAt) => write(() => {
+        const item = findItem(itemId);
+        requireOwner(item.library_id);
+        if (expectedUpdatedAt && item.updated_at !== expectedUpdatedAt) return null;
+        Object.assign(item, values, { updated_at: now() });
+        return { ...item };
+      }),
+
+      move: async (itemId, libraryId) => write(() => {
+        const item = findItem(itemId);
+        requireOwner(item.library_id);
+        requireOwner(libraryId);
+        item.library_id = libraryId;
+      }),
+
+      remove: async (itemId) => write(current => {
+        requireOwner(findItem(itemId).library_id);
+        current.items = current.items.filter(item => item.id !== itemId);
+      })
+    },
+
+    permissions: {
+      get: async (libraryId) => {
+        const { libraries, session_user_id } = await read();
+        const library = libraries.find(row => row.id === libraryId);
+        return library && library.created_by === session_user_id ? OWNER_PERMISSIONS : NO_PERMISSIONS;
+      },
+
+      members: async (libraryId) => {
+        const { users } = await read();
+        const library = findLibrary(libraryId);
+        const owner = users.find(user => user.id === library.created_by);
+        return [{
+          permission_id: null,
+          user_id: library.created_by,
+          email: owner?.email || null,
+          role: 'owner',
+          source: 'owner',
+          created_at: library.created_at
+        }];
+      }
+    }
+  };
+};
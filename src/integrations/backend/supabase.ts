@@ -0,0 +1,251 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import type { UserLibrary } from '@/utils/libraries';
+import { isRoleAtLeast, LibraryMemberSource, LibraryRole, NO_PERMISSIONS } from '@/utils/libraryPermissions';
+import { fetchWorkspaces } from '@/utils/workspaces';
+import { StorageBackend } from './types';
+
+const toUserLibrary = (row: Tables<'user_libraries'>, userId: string): UserLibrary => ({
+  ...row,
+  is_shared: !!row.is_shared,
+  shared_by: row.created_by !== userId ? row.created_by : undefined
+});
+
+/**
+ * The hosted Supabase project, with access enforced by its row-level security
+ */
+export const createSupabaseBackend = (): StorageBackend => ({
+  name: 'supabase',
+
+  auth: {
+    getSession: async () => {
+      const { data, error } = await supabase.auth.getSession();
+      if (error) throw error;
+      return data.session;
+    },
+    onAuthStateChange: (callback) => {
+      const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => callback(session));
+      return () => subscription.unsubscribe();
+    },
+    signUp: async (email, password, redirectTo) => {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: redirectTo }
+      });
+      if (error) throw error;
+      return { session: data.session };
+    },
+    signIn: async (email, password) => {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    },
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    }
+  },
+
+  libraries: {
+    listAccessible: async (userId) => {
+      const [ownResult, permissionsResult, workspaces] = await Promise.all([
+        supabase
+          .from('user_libraries')
+          .select('*')
+          .eq('created_by', userId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('shared_library_permissions')
+          .select('library_id, shared_by, role')
+          .eq('shared_with', userId),
+        fetchWorkspaces(userId)
+      ]);
+
+      if (ownResult.error) throw ownResult.error;
+      if (permissionsResult.error) throw permissionsResult.error;
+
+      const permissions = permissionsResult.data || [];
+      const sharedIds = [...new Set(permissions.map(p => p.library_id).filter(Boolean))] as string[];
+      const workspaceIds = workspaces.map(workspace => workspace.id);
+
+      const [sharedResult, workspaceResult] = await Promise.all([
+        sharedIds.length > 0
+          ? supabase.from('user_libraries').select('*').in('id', sharedIds).order('created_at', { ascending: true })
+          : Promise.resolve({ data: [], error: null }),
+        workspaceIds.length > 0
+          ? supabase.from('user_libraries').select('*').in('workspace_id', workspaceIds).order('created_at', { ascending: true })
+          : Promise.resolve({ data: [], error: null })
+      ]);
+
+      if (sharedResult.error) throw sharedResult.error;
+      if (workspaceResult.error) throw workspaceResult.error;
+
+      const membershipRole = (libraryId: string) => permissions.find(p => p.library_id === libraryId)?.role;
+
+      return {
+        own: (ownResult.data || []).map(row => ({ ...toUserLibrary(row, userId), role: 'owner' })),
+        shared: (sharedResult.data || []).map(row => ({
+          ...toUserLibrary(row, userId),
+          shared_by: permissions.find(p => p.library_id === row.id)?.shared_by || row.created_by,
+          role: membershipRole(row.id)
+        })),
+        workspaces,
+        workspaceLibraries: (workspaceResult.data || []).map(row => {
+          const workspaceRole = workspaces.find(workspace => workspace.id === row.workspace_id)?.role;
+          const memberRole = membershipRole(row.id);
+          // Matches get_library_role: the workspace owner is at least an admin of every library in it
+          const role: LibraryRole | undefined = row.created_by === userId
+            ? 'owner'
+            : workspaceRole === 'owner'
+              ? (isRoleAtLeast(memberRole || null, 'admin') ? memberRole : 'admin')
+              : memberRole || workspaceRole;
+          return { ...toUserLibrary(row, userId), role };
+        })
+      };
+    },
+
+    get: async (libraryId, userId) => {
+      const { data, error } = await supabase
+        .from('user_libraries')
+        .select('*')
+        .eq('id', libraryId)
+        .single();
+
+      if (error) throw error;
+      return toUserLibrary(data, userId);
+    },
+
+    create: async (userId, values) => {
+      const { data, error } = await supabase
+        .from('user_libraries')
+        .insert({ name: values.name.trim(), is_shared: values.is_shared, created_by: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { ...toUserLibrary(data, userId), role: 'owner' };
+    },
+
+    update: async (libraryId, values, userId) => {
+      const { data, error } = await supabase
+        .from('user_libraries')
+        .update(values.name === undefined ? values : { ...values, name: values.name.trim() })
+        .eq('id', libraryId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toUserLibrary(data, userId);
+    },
+
+    remove: async (libraryId) => {
+      const { error: permissionsError } = await supabase
+        .from('shared_library_permissions')
+        .delete()
+        .eq('library_id', libraryId);
+
+      if (permissionsError) throw permissionsError;
+
+      // The items survive, so their screenshots stay in storage
+      const { error: updateError } = await supabase
+        .from('shared_clipboard_items')
+        .update({ library_id: null })
+        .eq('library_id', libraryId);
+
+      if (updateError) throw updateError;
+
+      const { error } = await supabase
+        .from('user_libraries')
+        .delete()
+        .eq('id', libraryId);
+
+      if (error) throw error;
+    }
+  },
+
+  items: {
+    list: async (libraryIds) => {
+      if (libraryIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('shared_clipboard_items')
+        .select('*')
+        .in('library_id', libraryIds)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    count: async (libraryId) => {
+      const { count, error } = await supabase
+        .from('shared_clipboard_items')
+        .select('*', { count: 'exact', head: true })
+        .eq('library_id', libraryId);
+
+      if (error) throw error;
+      return count || 0;
+    },
+
+    create: async (values) => {
+      const { data, error } = await supabase
+        .from('shared_clipboard_items')
+        .insert(values)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    update: async (itemId, values, expectedUpdatedAt) => {
+      let query = supabase
+        .from('shared_clipboard_items')
+        .update(values)
+        .eq('id', itemId);
+
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt);
+      }
+
+      const { data, error } = await query.select();
+
+      if (error) throw error;
+      return data?.[0] || null;
+    },
+
+    move: async (itemId, libraryId) => {
+      const { error } = await supabase
+        .from('shared_clipboard_items')
+        .update({ library_id: libraryId })
+        .eq('id', itemId);
+
+      if (error) throw error;
+    },
+
+    remove: async (itemId) => {
+      const { error } = await supabase
+        .from('shared_clipboard_items')
+        .delete()
+        .eq('id', itemId);
+
+      if (error) throw error;
+    }
+  },
+
+  permissions: {
+    get: async (libraryId) => {
+      const { data, error } = await supabase.rpc('get_library_permissions', { library_id: libraryId });
+
+      if (error) throw error;
+      return data?.[0] || NO_PERMISSIONS;
+    },
+
+    members: async (libraryId) => {
+      const { data, error } = await supabase.rpc('get_library_members', { library_id: libraryId });
+
+      if (error) throw error;
+      return (data || []).map(member => ({ ...member, source: member.source as LibraryMemberSource }));
+    }
+  }
+});
@@ -0,0 +1,64 @@
+import type { Session } from '@supabase/supabase-js';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { AccessibleLibraries, LibraryItem, UserLibrary } from '@/utils/libraries';
+import type { LibraryMember, LibraryPermissions } from '@/utils/libraryPermissions';
+
+export type BackendName = 'supabase' | 'local';
+
+export interface LibraryValues {
+  name?: string;
+  is_shared?: boolean;
+  workspace_id?: string | null;
+}
+
+export type NewLibraryItem = Omit<TablesInsert<'shared_clipboard_items'>, 'id' | 'created_at' | 'updated_at'>;
+
+export interface AuthBackend {
+  getSession: () => Promise<Session | null>;
+  // Returns a function that stops listening
+  onAuthStateChange: (callback: (session: Session | null) => void) => () => void;
+  // The session is null when the account still has to be confirmed by email
+  signUp: (email: string, password: string, redirectTo?: string) => Promise<{ session: Session | null }>;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export interface LibraryBackend {
+  listAccessible: (userId: string) => Promise<AccessibleLibraries>;
+  get: (libraryId: string, userId: string) => Promise<UserLibrary>;
+  create: (userId: string, values: { name: string; is_shared: boolean }) => Promise<UserLibrary>;
+  update: (libraryId: string, values: LibraryValues, userId: string) => Promise<UserLibrary>;
+  // Items of a removed library are kept without a library
+  remove: (libraryId: string) => Promise<void>;
+}
+
+export interface ItemBackend {
+  // Newest first
+  list: (libraryIds: string[]) => Promise<LibraryItem[]>;
+  count: (libraryId: string) => Promise<number>;
+  create: (values: NewLibraryItem) => Promise<LibraryItem>;
+  // Resolves to null when `expectedUpdatedAt` no longer matches the stored item
+  update: (
+    itemId: string,
+    values: { title?: string; content?: string },
+    expectedUpdatedAt?: string
+  ) => Promise<LibraryItem | null>;
+  move: (itemId: string, libraryId: string) => Promise<void>;
+  remove: (itemId: string) => Promise<void>;
+}
+
+export interface PermissionBackend {
+  get: (libraryId: string) => Promise<LibraryPermissions>;
+  members: (libraryId: string) => Promise<LibraryMember[]>;
+}
+
+/**
+ * Where the app keeps its accounts, libraries and items
+ */
+export interface StorageBackend {
+  name: BackendName;
+  auth: AuthBackend;
+  libraries: LibraryBackend;
+  items: ItemBackend;
+  permissions: PermissionBackend;
+}
@@ -9,36 +9,322 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      clipboard_item_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          item_id: string
+          title: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          item_id: string
+          title: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          item_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clipboard_item_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clipboard_item_revisions_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "shared_clipboard_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clipboard_item_tags: {
+        Row: {
+          created_at: string
+          item_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          item_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          item_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clipboard_item_tags_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "shared_clipboard_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clipboard_item_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "library_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deleted_screenshots: {
+        Row: {
+          deleted_at: string
+          deleted_by: string
+          name: string
+        }
+        Insert: {
+          deleted_at?: string
+          deleted_by: string
+          name: string
+        }
+        Update: {
+          deleted_at?: string
+          deleted_by?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      library_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          last_sent_at: string
+          library_id: string
+          role: Database["public"]["Enums"]["library_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          last_sent_at?: string
+          library_id: string
+          role?: Database["public"]["Enums"]["library_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          last_sent_at?: string
+          library_id?: string
+          role?: Database["public"]["Enums"]["library_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "library_invitations_library_id_fkey"
+            columns: ["library_id"]
+            isOneToOne: false
+            referencedRelation: "user_libraries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      library_item_moves: {
+        Row: {
+          from_library_id: string
+          id: string
+          item_id: string
+          moved_at: string
+        }
+        Insert: {
+          from_library_id: string
+          id?: string
+          item_id: string
+          moved_at?: string
+        }
+        Update: {
+          from_library_id?: string
+          id?: string
+          item_id?: string
+          moved_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "library_item_moves_from_library_id_fkey"
+            columns: ["from_library_id"]
+            isOneToOne: false
+            referencedRelation: "user_libraries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      library_public_links: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          has_password: boolean
+          id: string
+          library_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          library_id: string
+          password_hash?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          library_id?: string
+          password_hash?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "library_public_links_library_id_fkey"
+            columns: ["library_id"]
+            isOneToOne: false
+            referencedRelation: "user_libraries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      library_tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          library_id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          library_id: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          library_id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "library_tags_library_id_fkey"
+            columns: ["library_id"]
+            isOneToOne: false
+            referencedRelation: "user_libraries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      public_link_attempts: {
+        Row: {
+          client: string
+          failed_attempts: number
+          link_id: string
+          locked_until: string | null
+        }
+        Insert: {
+          client: string
+          failed_attempts?: number
+          link_id: string
+          locked_until?: string | null
+        }
+        Update: {
+          client?: string
+          failed_attempts?: number
+          link_id?: string
+          locked_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_link_attempts_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "library_public_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shared_clipboard_items: {
         Row: {
+          class_names: string[]
           content: string
           content_type: string
           created_at: string
           created_by: string | null
+          element_types: string[]
           id: string
           library_id: string | null
           screenshot_url: string | null
+          search_vector: unknown | null
+          thumbnail_url: string | null
           title: string
+          updated_at: string
         }
         Insert: {
+          class_names?: string[]
           content: string
           content_type: string
           created_at?: string
           created_by?: string | null
+          element_types?: string[]
           id?: string
           library_id?: string | null
           screenshot_url?: string | null
+          search_vector?: unknown | null
+          thumbnail_url?: string | null
           title: string
+          updated_at?: string
         }
         Update: {
+          class_names?: string[]
           content?: string
           content_type?: string
           created_at?: string
           created_by?: string | null
+          element_types?: string[]
           id?: string
           library_id?: string | null
           screenshot_url?: string | null
+          search_vector?: unknown | null
+          thumbnail_url?: string | null
           title?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -57,6 +343,7 @@ export type Database = {
           created_at: string
           id: string
           library_id: string | null
+          role: Database["public"]["Enums"]["library_role"]
           shared_by: string
           shared_with: string
         }
@@ -66,6 +353,7 @@ export type Database = {
           created_at?: string
           id?: string
           library_id?: string | null
+          role?: Database["public"]["Enums"]["library_role"]
           shared_by: string
           shared_with: string
         }
@@ -75,6 +363,7 @@ export type Database = {
           created_at?: string
           id?: string
           library_id?: string | null
+          role?: Database["public"]["Enums"]["library_role"]
           shared_by?: string
           shared_with?: string
         }
@@ -95,6 +384,7 @@ export type Database = {
           id: string
           is_shared: boolean | null
           name: string
+          workspace_id: string | null
         }
         Insert: {
           created_at?: string
@@ -102,6 +392,7 @@ export type Database = {
           id?: string
           is_shared?: boolean | null
           name: string
+          workspace_id?: string | null
         }
         Update: {
           created_at?: string
@@ -109,8 +400,17 @@ export type Database = {
           id?: string
           is_shared?: boolean | null
           name?: string
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_libraries_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       users: {
         Row: {
@@ -130,15 +430,160 @@ export type Database = {
         }
         Relationships: []
       }
+      workspace_members: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["library_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["library_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["library_role"]
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_library_invitation: {
+        Args: { invitation_token: string }
+        Returns: string
+      }
+      can_edit_library: {
+        Args: { library_id: string; current_user_id: string }
+        Returns: boolean
+      }
+      can_remove_screenshot: {
+        Args: { object_name: string }
+        Returns: boolean
+      }
+      create_public_library_link: {
+        Args: { library_id: string; expires_at?: string | null; link_password?: string | null }
+        Returns: string
+      }
+      get_library_invitation: {
+        Args: { invitation_token: string }
+        Returns: {
+          library_id: string
+          library_name: string
+          email: string
+          role: Database["public"]["Enums"]["library_role"]
+          invited_by_email: string | null
+          expires_at: string
+          accepted_at: string | null
+        }[]
+      }
+      get_library_members: {
+        Args: { library_id: string }
+        Returns: {
+          permission_id: string | null
+          user_id: string
+          email: string | null
+          role: Database["public"]["Enums"]["library_role"]
+          source: string
+          created_at: string
+        }[]
+      }
+      get_library_permissions: {
+        Args: { library_id: string }
+        Returns: {
+          role: Database["public"]["Enums"]["library_role"] | null
+          can_add_items: boolean
+          can_edit_items: boolean
+          can_delete_items: boolean
+          can_manage_members: boolean
+          can_manage_library: boolean
+        }[]
+      }
+      get_library_role: {
+        Args: { library_id: string; current_user_id: string }
+        Returns: Database["public"]["Enums"]["library_role"]
+      }
+      get_public_library: {
+        Args: { link_token: string; link_password?: string | null }
+        Returns: Json
+      }
+      get_public_link_status: {
+        Args: { link_token: string }
+        Returns: {
+          library_name: string
+          requires_password: boolean
+          expires_at: string | null
+          expired: boolean
+        }[]
+      }
+      get_search_facets: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          kind: string
+          id: string
+          label: string
+        }[]
+      }
       get_user_id_by_email: {
         Args: { email_input: string }
         Returns: string
       }
+      get_workspace_members: {
+        Args: { workspace_id: string }
+        Returns: {
+          member_id: string | null
+          user_id: string
+          email: string | null
+          role: Database["public"]["Enums"]["library_role"]
+          created_at: string
+        }[]
+      }
+      get_workspace_role: {
+        Args: { workspace_id: string; current_user_id: string }
+        Returns: Database["public"]["Enums"]["library_role"]
+      }
       has_clipboard_access: {
         Args: { item_creator_id: string; current_user_id: string }
         Returns: boolean
@@ -147,9 +592,38 @@ export type Database = {
         Args: { library_id: string; current_user_id: string }
         Returns: boolean
       }
+      search_clipboard_items: {
+        Args: {
+          search_text?: string
+          class_query?: string
+          type_query?: string
+          filter_library_id?: string
+          filter_author_id?: string
+          created_after?: string
+          result_limit?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          content_type: string
+          created_at: string
+          created_by: string
+          author_email: string
+          library_id: string
+          library_name: string
+          thumbnail_url: string
+          class_names: string[]
+          element_types: string[]
+          rank: number
+        }[]
+      }
+      transfer_library_ownership: {
+        Args: { library_id: string; new_owner_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      library_role: "viewer" | "contributor" | "editor" | "admin" | "owner"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -264,6 +738,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      library_role: ["viewer", "contributor", "editor", "admin", "owner"],
+    },
   },
 } as const
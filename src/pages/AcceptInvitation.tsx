@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Loader2, Library, MailX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { acceptInvitation, fetchInvitation, InvitationDetails, isInvitationExpired } from "@/utils/libraryInvitations";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from "@/utils/libraryPermissions";
+
+const AcceptInvitation = () => {
+  const { token } = useParams<{ token: string }>();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!token) return;
+
+    fetchInvitation(token)
+      .then(setInvitation)
+      .catch(err => {
+        console.error('Error fetching invitation:', err);
+        setInvitation(null);
+      })
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    try {
+      setAccepting(true);
+      const libraryId = await acceptInvitation(token);
+
+      toast({
+        title: "Invitation accepted",
+        description: `You now have access to "${invitation?.library_name}"`
+      });
+      navigate('/', { state: { libraryId } });
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      toast({
+        title: "Could not accept invitation",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[70vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!invitation || (!invitation.accepted_at && isInvitationExpired(invitation))) {
+    return (
+      <div className="flex justify-center items-center min-h-[70vh]">
+        <Card className="w-[400px]">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MailX size={18} /> Invitation unavailable
+            </CardTitle>
+            <CardDescription>
+              {invitation
+                ? "This invitation has expired. Ask the person who invited you to send it again."
+                : "This invitation was revoked or the link is incorrect."}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button variant="outline" onClick={() => navigate('/')}>Go to your libraries</Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center items-center min-h-[70vh]">
+      <Card className="w-[400px]">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Library size={18} /> Join "{invitation.library_name}"
+          </CardTitle>
+          <CardDescription>
+            {invitation.invited_by_email || "Someone"} invited {invitation.email} to this library.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm">
+          <p>
+            You'll join as <span className="font-medium">{ROLE_LABELS[invitation.role]}</span>:{' '}
+            {ROLE_DESCRIPTIONS[invitation.role].toLowerCase()}.
+          </p>
+          {user && user.email?.toLowerCase() !== invitation.email && (
+            <p className="mt-2 text-amber-600">
+              You're signed in as {user.email}. Accepting adds this account to the library.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          {user ? (
+            <Button onClick={handleAccept} disabled={accepting} className="w-full bg-neutral-900 hover:bg-neutral-800">
+              {accepting ? <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Joining...
+                </> : invitation.accepted_at ? "Open library" : "Accept invitation"}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => navigate(`/auth?redirect=${encodeURIComponent(`/invite/${token}`)}`)}
+              className="w-full bg-neutral-900 hover:bg-neutral-800"
+            >
+              Sign in or sign up to accept
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
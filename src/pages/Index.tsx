@@ -1,33 +1,40 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import AppSidebar from "@/components/AppSidebar";
 import LibraryGrid from "@/components/LibraryGrid";
 import ClipboardParser from "@/components/ClipboardParser";
 import ClipboardParserModal from "@/components/ClipboardParserModal";
-import { Plus } from "lucide-react";
+import { Plus, FileCode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import LibrarySharingManager from "@/components/LibrarySharingManager";
 import LibrarySettingsManager from "@/components/LibrarySettingsManager";
-
-interface UserLibrary {
-  id: string;
-  name: string;
-  is_shared: boolean;
-  created_at: string;
-  shared_by?: string;
-}
+import HtmlConverterModal from "@/components/HtmlConverterModal";
+import SearchCommand from "@/components/SearchCommand";
+import { useAuth } from "@/context/AuthContext";
+import { hasHostedFeatures } from "@/integrations/backend";
+import { useToast } from "@/hooks/use-toast";
+import { SearchResult } from "@/utils/searchUtils";
+import { useLocation, useNavigate } from "react-router-dom";
+import { fetchLibrary, UserLibrary } from "@/utils/libraries";
 
 const Index = () => {
   const [selectedLibrary, setSelectedLibrary] = useState<UserLibrary | null>(null);
   const [parserModalOpen, setParserModalOpen] = useState(false);
   const [sharingOpen, setSharingOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [converterOpen, setConverterOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [highlightedItemId, setHighlightedItemId] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<'parser' | 'library'>('parser');
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
   
-  const handleLibrarySelect = (library: UserLibrary) => {
+  const handleLibrarySelect = useCallback((library: UserLibrary) => {
     setSelectedLibrary(library);
     setActiveView('library');
-  };
+  }, []);
   
   const handleLibraryDeleted = (deletedLibraryId: string) => {
     if (selectedLibrary && selectedLibrary.id === deletedLibraryId) {
@@ -41,6 +48,57 @@ const Index = () => {
     setParserModalOpen(true);
   };
   
+  // Open a library by id, e.g. one a search result or an accepted invitation points to
+  const openLibrary = useCallback(async (libraryId: string, itemId: string | null = null) => {
+    if (!user) return;
+    
+    setSelectedLibrary(await fetchLibrary(libraryId, user.id));
+    setHighlightedItemId(itemId);
+    setActiveView('library');
+  }, [user]);
+  
+  // Open the library containing a search result and point at the item
+  const handleSearchSelect = async (result: SearchResult) => {
+    try {
+      await openLibrary(result.library_id, result.id);
+    } catch (err) {
+      console.error('Error opening search result:', err);
+      toast({
+        title: "Error opening item",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Open the library an invitation was just accepted for
+  useEffect(() => {
+    const libraryId = (location.state as { libraryId?: string } | null)?.libraryId;
+    if (!user || !libraryId) return;
+    
+    // Clear the state so a reload doesn't reopen it
+    navigate(location.pathname, { replace: true, state: null });
+    openLibrary(libraryId).catch(err => console.error('Error opening library:', err));
+  }, [user, location.state, location.pathname, navigate, openLibrary]);
+  
+  // Open search with Cmd/Ctrl+K
+  useEffect(() => {
+    if (!user || !hasHostedFeatures()) return;
+    
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [user]);
+  
   // Event listener for the custom event
   useEffect(() => {
     const handleOpenLibrarySettings = (event: Event) => {
@@ -64,14 +122,19 @@ const Index = () => {
         onLibrarySelect={handleLibrarySelect} 
         activeView={activeView} 
         onViewChange={setActiveView} 
+        onSearchOpen={hasHostedFeatures() ? () => setSearchOpen(true) : undefined}
       />
       
       <div className="flex-1 overflow-auto bg-neutral-100 p-6">
         <div className="bg-white rounded-lg shadow-sm min-h-[calc(100vh-3rem)]">
           {activeView === 'parser' ? (
             <div className="p-6">
-              <div className="flex items-center mb-6">
+              <div className="flex items-center justify-between mb-6">
                 <h1 className="text-xl font-semibold">Clipboard Parser</h1>
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => setConverterOpen(true)}>
+                  <FileCode size={16} />
+                  HTML to Webflow
+                </Button>
               </div>
               <ClipboardParser />
             </div>
@@ -88,7 +151,10 @@ const Index = () => {
                 </h1>
               </div>
               
-              <LibraryGrid libraryId={selectedLibrary?.id || null} />
+              <LibraryGrid 
+                libraryId={selectedLibrary?.id || null} 
+                highlightedItemId={highlightedItemId}
+              />
             </div>
           )}
         </div>
@@ -108,6 +174,19 @@ const Index = () => {
         onClose={() => setParserModalOpen(false)} 
       />
       
+      <HtmlConverterModal 
+        open={converterOpen} 
+        onClose={() => setConverterOpen(false)} 
+      />
+      
+      {user && hasHostedFeatures() && (
+        <SearchCommand 
+          open={searchOpen} 
+          onOpenChange={setSearchOpen} 
+          onSelect={handleSearchSelect} 
+        />
+      )}
+      
       {selectedLibrary && sharingOpen && (
         <LibrarySharingManager 
           onClose={() => setSharingOpen(false)} 
@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { formatDistance } from "date-fns";
+import { Copy, Globe, Loader2, Lock, MailX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { describeClipboardWrite, writeToClipboard } from "@/utils/clipboardWriter";
+import {
+  fetchPublicLibrary,
+  fetchPublicLinkStatus,
+  PublicLibrary as PublicLibraryData,
+  PublicLibraryItem,
+  PublicLinkStatus
+} from "@/utils/publicLinks";
+
+/**
+ * A library published at a public link. Visitors don't need an account and
+ * can only browse and copy.
+ */
+const PublicLibrary = () => {
+  const { token } = useParams<{ token: string }>();
+  const [status, setStatus] = useState<PublicLinkStatus | null>(null);
+  const [library, setLibrary] = useState<PublicLibraryData | null>(null);
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [unlocking, setUnlocking] = useState(false);
+  const { toast } = useToast();
+
+  const loadLibrary = useCallback(async (linkPassword: string | null) => {
+    if (!token) return;
+
+    try {
+      setLibrary(await fetchPublicLibrary(token, linkPassword));
+    } catch (err) {
+      console.error('Error opening public library:', err);
+      toast({
+        title: "Could not open library",
+        description: (err as Error).message,
+        variant: "destructive"
+      });
+    }
+  }, [token, toast]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    fetchPublicLinkStatus(token)
+      .then(async linkStatus => {
+        setStatus(linkStatus);
+        if (linkStatus && !linkStatus.expired && !linkStatus.requires_password) {
+          await loadLibrary(null);
+        }
+      })
+      .catch(err => {
+        console.error('Error fetching public link:', err);
+        setStatus(null);
+      })
+      .finally(() => setLoading(false));
+  }, [token, loadLibrary]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    await loadLibrary(password);
+    setUnlocking(false);
+  };
+
+  const handleCopy = async (item: PublicLibraryItem) => {
+    const result = await writeToClipboard(item.content, item.content_type);
+    toast(describeClipboardWrite(result));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[70vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!status || status.expired) {
+    return (
+      <div className="flex justify-center items-center min-h-[70vh]">
+        <Card className="w-[400px]">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MailX size={18} /> Library unavailable
+            </CardTitle>
+            <CardDescription>
+              {status
+                ? "This link has expired. Ask the person who shared it for a new one."
+                : "This link was revoked or is incorrect."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!library) {
+    return (
+      <div className="flex justify-center items-center min-h-[70vh]">
+        <Card className="w-[400px]">
+          <form onSubmit={handleUnlock}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock size={18} /> "{status.library_name}"
+              </CardTitle>
+              <CardDescription>This library is protected with a password.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Label htmlFor="public-library-password" className="mb-1 block">Password</Label>
+              <Input
+                id="public-library-password"
+                type="password"
+                autoFocus
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" disabled={unlocking || !password} className="w-full bg-neutral-900 hover:bg-neutral-800">
+                {unlocking ? <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Opening...
+                  </> : "Open library"}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold flex items-center gap-2">
+          <Globe size={20} /> {library.library_name}
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          {library.items.length} {library.items.length === 1 ? 'item' : 'items'} · read-only
+        </p>
+      </div>
+
+      {library.items.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">This library is empty.</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {library.items.map(item => (
+            <Card key={item.id} className="overflow-hidden">
+              <CardContent className="p-0">
+                {(item.thumbnail_url || item.screenshot_url) && (
+                  <div className="aspect-[16/9]">
+                    <img
+                      src={item.thumbnail_url || item.screenshot_url || undefined}
+                      alt={item.title}
+                      loading="lazy"
+                      className="w-full h-full object-cover"
+                    />
+                  </div>
+                )}
+                <div className="p-4">
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="font-medium truncate">{item.title}</h3>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatDistance(new Date(item.created_at), new Date(), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {!item.thumbnail_url && !item.screenshot_url && (
+                    <p className="text-sm text-muted-foreground line-clamp-3">{item.content}</p>
+                  )}
+                </div>
+              </CardContent>
+              <CardFooter className="px-4 py-3 bg-gray-50 flex justify-end">
+                <Button size="sm" variant="outline" onClick={() => handleCopy(item)}>
+                  <Copy size={14} className="mr-1" /> Copy
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublicLibrary;
@@ -0,0 +1,176 @@
+import { WebflowXscpData } from './webflowTypes';
+import { ImageStorage, removeStoredFiles, supabaseAssetStorage } from './imageStorage';
+
+export type WebflowAssetKind = 'image' | 'lottie' | 'font' | 'video' | 'document' | 'other';
+
+export interface WebflowAssetReference {
+  url: string;
+  kind: WebflowAssetKind;
+  fileName: string;
+  // Locations in the payload that contain the URL, e.g. `nodes[3].data.attr.src`
+  paths: string[];
+  mimeType?: string;
+  fileSize?: number;
+}
+
+export interface RehostResult {
+  // Original URL mapped to its rehosted copy
+  urls: Record<string, string>;
+  failed: WebflowAssetReference[];
+}
+
+const URL_PATTERN = /https?:\/\/[^\s"'()<>\\]+/g;
+
+// Files uploaded through the Designer are served from these hosts
+const WEBFLOW_CDN_HOST = /(^|\.)website-files\.com$|^uploads(-ssl)?\.webflow\.com$/;
+
+const KIND_BY_EXTENSION: Record<string, WebflowAssetKind> = {
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', svg: 'image', webp: 'image', avif: 'image', ico: 'image',
+  json: 'lottie', lottie: 'lottie',
+  woff: 'font', woff2: 'font', ttf: 'font', otf: 'font', eot: 'font',
+  mp4: 'video', webm: 'video', mov: 'video',
+  pdf: 'document'
+};
+
+const getExtension = (url: URL): string => {
+  const match = url.pathname.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : '';
+};
+
+const getFileName = (url: URL): string => {
+  const raw = url.pathname.split('/').pop() || '';
+  let segment = raw;
+  try {
+    segment = decodeURIComponent(raw);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  segment = segment || url.hostname;
+  // Webflow prefixes uploads with the asset id
+  return segment.replace(/^[0-9a-f]{24}_/, '');
+};
+
+/**
+ * Classify a URL found in a payload, or return null when it doesn't point to
+ * a file, such as a link to a page
+ */
+const classifyUrl = (raw: string): { kind: WebflowAssetKind; fileName: string } | null => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+
+  const kind = KIND_BY_EXTENSION[getExtension(url)];
+  if (!kind && !WEBFLOW_CDN_HOST.test(url.hostname)) return null;
+
+  return { kind: kind || 'other', fileName: getFileName(url) };
+};
+
+const visitStrings = (value: unknown, path: string, visit: (text: string, path: string) => void): void => {
+  if (typeof value === 'string') {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((entry, index) => visitStrings(entry, `${path}[${index}]`, visit));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, entry]) => visitStrings(entry, path ? `${path}.${key}` : key, visit));
+  }
+};
+
+/**
+ * Every file a payload references by URL: uploaded assets and their
+ * responsive variants, background images in styles, Lottie sources and
+ * files linked from embeds
+ */
+export const extractAssetManifest = (data: WebflowXscpData): WebflowAssetReference[] => {
+  const manifest = new Map<string, WebflowAssetReference>();
+
+  visitStrings(data.payload, '', (text, path) => {
+    (text.match(URL_PATTERN) || []).forEach(match => {
+      const url = match.replace(/[.,;]+$/, '');
+      const existing = manifest.get(url);
+      if (existing) {
+        if (!existing.paths.includes(path)) existing.paths.push(path);
+        return;
+      }
+
+      const classified = classifyUrl(url);
+      if (classified) {
+        manifest.set(url, { url, ...classified, paths: [path] });
+      }
+    });
+  });
+
+  // Uploaded assets carry their original file name and type
+  data.payload.assets.forEach(asset => {
+    const reference = manifest.get(asset.cdnUrl);
+    if (!reference) return;
+    if (asset.origFileName) reference.fileName = asset.origFileName;
+    if (asset.mimeType) reference.mimeType = asset.mimeType;
+    if (asset.fileSize) reference.fileSize = asset.fileSize;
+  });
+
+  return [...manifest.values()];
+};
+
+/**
+ * Replace URLs in a raw clipboard payload, keeping every other field as is
+ */
+export const rewriteAssetUrls = (content: string, urls: Record<string, string>): string => {
+  // Longest first, so a URL that extends another one is replaced whole
+  const entries = Object.entries(urls).sort(([a], [b]) => b.length - a.length);
+  if (entries.length === 0) return content;
+
+  const rewrite = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return entries.reduce((text, [from, to]) => text.split(from).join(to), value);
+    }
+    if (Array.isArray(value)) return value.map(rewrite);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, rewrite(entry)]));
+    }
+    return value;
+  };
+
+  return JSON.stringify(rewrite(JSON.parse(content)));
+};
+
+/**
+ * Download assets and upload copies to storage. Assets that can't be
+ * downloaded, for example because their host blocks cross-origin requests,
+ * are reported and keep their original URL.
+ */
+export const rehostAssets = async (
+  assets: WebflowAssetReference[],
+  userId: string,
+  storage: ImageStorage = supabaseAssetStorage,
+  onProgress?: (done: number, total: number) => void
+): Promise<RehostResult> => {
+  const folder = `${userId}/${crypto.randomUUID()}`;
+  const result: RehostResult = { urls: {}, failed: [] };
+
+  for (const [index, asset] of assets.entries()) {
+    try {
+      const response = await fetch(asset.url);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+      const fileName = asset.fileName.replace(/[^\w.-]+/g, '-');
+      result.urls[asset.url] = await storage.upload(`${folder}/${index}-${fileName}`, await response.blob());
+    } catch (err) {
+      console.error(`Error rehosting ${asset.url}:`, err);
+      result.failed.push(asset);
+    }
+    onProgress?.(index + 1, assets.length);
+  }
+
+  return result;
+};
+
+/**
+ * Remove rehosted copies, e.g. when the item using them failed to save
+ */
+export const removeRehostedAssets = (
+  result: RehostResult,
+  storage: ImageStorage = supabaseAssetStorage
+): Promise<void> => removeStoredFiles(Object.values(result.urls), storage);
@@ -0,0 +1,82 @@
+import { hasHostedFeatures } from '@/integrations/backend';
+import { createLibraryItem, LibraryItem } from './libraries';
+import { uploadScreenshot, UploadedScreenshot } from './imageStorage';
+import { fetchItemTags, setItemTags } from './tagUtils';
+
+export interface BulkResult<T = string> {
+  succeeded: T[];
+  failed: { id: string; message: string }[];
+}
+
+/**
+ * Run an action on each id in turn. Failures are collected rather than
+ * stopping the run, so one bad item doesn't strand the rest.
+ */
+export const runBulk = async <T = string>(
+  ids: string[],
+  action: (id: string) => Promise<T>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkResult<T>> => {
+  const result: BulkResult<T> = { succeeded: [], failed: [] };
+
+  for (const id of ids) {
+    try {
+      result.succeeded.push(await action(id));
+    } catch (err) {
+      console.error(`Error processing item ${id}:`, err);
+      result.failed.push({ id, message: (err as Error).message });
+    }
+    onProgress?.(result.succeeded.length + result.failed.length, ids.length);
+  }
+
+  return result;
+};
+
+/**
+ * "3 items", "1 item"
+ */
+export const countItems = (count: number): string => `${count} item${count === 1 ? '' : 's'}`;
+
+// Copies get their own screenshot files, so deleting one leaves the other intact
+const copyScreenshot = async (item: LibraryItem, userId: string): Promise<UploadedScreenshot | null> => {
+  if (!item.screenshot_url) return null;
+
+  try {
+    const response = await fetch(item.screenshot_url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    return await uploadScreenshot(await response.blob(), userId);
+  } catch (err) {
+    console.error(`Error copying screenshot ${item.screenshot_url}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Add a copy of an item, with its tags and screenshot, to another library
+ */
+export const copyLibraryItem = async (item: LibraryItem, libraryId: string, userId: string): Promise<LibraryItem> => {
+  const [screenshot, tagsByItem] = await Promise.all([
+    copyScreenshot(item, userId),
+    hasHostedFeatures() ? fetchItemTags([item.id]) : {}
+  ]);
+
+  const copy = await createLibraryItem({
+    title: item.title,
+    content: item.content,
+    content_type: item.content_type,
+    created_by: userId,
+    screenshot_url: screenshot?.url || null,
+    thumbnail_url: screenshot?.thumbnailUrl || null,
+    library_id: libraryId
+  });
+
+  const tags = (tagsByItem[item.id] || []).map(tag => tag.name);
+  if (tags.length > 0) {
+    // The copy is made even if its tags can't be
+    await setItemTags(copy.id, libraryId, tags, userId).catch(err =>
+      console.error('Error tagging copied item:', err)
+    );
+  }
+
+  return copy;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { detectClassPrefixes, previewClassRenames, renameClasses, renameStyles } from './classRenamer';
+import { WebflowStyle, WebflowXscpData } from './webflowTypes';
+
+const style = (id: string, name: string, changes: Partial<WebflowStyle> = {}): WebflowStyle => ({
+  _id: id,
+  fake: false,
+  type: 'class',
+  name,
+  namespace: '',
+  comb: '',
+  styleLess: '',
+  variants: {},
+  children: [],
+  ...changes
+});
+
+const payload = (styles: WebflowStyle[]): WebflowXscpData => ({
+  type: '@webflow/XscpData',
+  payload: {
+    nodes: [{ _id: 'node-1', type: 'Block', tag: 'div', classes: styles.map(entry => entry._id), children: [], data: {} }],
+    styles,
+    assets: [],
+    ix1: [],
+    ix2: { interactions: [], events: [], actionLists: [] }
+  }
+});
+
+const namesOf = (content: string) => JSON.parse(content).payload.styles.map((entry: WebflowStyle) => entry.name);
+
+describe('detectClassPrefixes', () => {
+  it('lists prefixes by how often they are used', () => {
+    const data = payload([
+      style('s1', 'hero_title'),
+      style('s2', 'card_image'),
+      style('s3', 'card_title'),
+      style('s4', 'button')
+    ]);
+    expect(detectClassPrefixes(data)).toEqual(['card_', 'hero_']);
+  });
+});
+
+describe('previewClassRenames', () => {
+  it('renames by the first matching prefix', () => {
+    const previews = previewClassRenames(
+      [style('s1', 'hero_title'), style('s2', 'footer_link')],
+      [{ from: 'hero_', to: 'banner_' }, { from: 'hero', to: 'unused' }]
+    );
+    expect(previews).toEqual([{ styleId: 's1', before: 'hero_title', after: 'banner_title', collidesWith: null }]);
+  });
+
+  it('ignores empty and unchanged rules', () => {
+    expect(previewClassRenames([style('s1', 'hero_title')], [{ from: '', to: 'x_' }, { from: 'hero_', to: 'hero_' }])).toEqual([]);
+  });
+
+  it('flags renames onto an existing name, ignoring case', () => {
+    const previews = previewClassRenames(
+      [style('s1', 'hero_title'), style('s2', 'Banner_title')],
+      [{ from: 'hero_', to: 'banner_' }]
+    );
+    expect(previews).toEqual([{ styleId: 's1', before: 'hero_title', after: 'banner_title', collidesWith: 'Banner_title' }]);
+  });
+
+  it('flags two renames onto the same name', () => {
+    const previews = previewClassRenames(
+      [style('s1', 'hero_title'), style('s2', 'intro_title')],
+      [{ from: 'hero_', to: 'top_' }, { from: 'intro_', to: 'top_' }]
+    );
+    expect(previews.map(preview => preview.collidesWith)).toEqual(['intro_title', 'hero_title']);
+  });
+});
+
+describe('renameClasses', () => {
+  it('renames style entries and leaves node references alone', () => {
+    const content = JSON.stringify(payload([style('s1', 'hero_title'), style('s2', 'button')]));
+    const result = renameClasses(content, [{ from: 'hero_', to: 'banner_' }]);
+
+    expect(namesOf(result.content)).toEqual(['banner_title', 'button']);
+    expect(JSON.parse(result.content).payload.nodes[0].classes).toEqual(['s1', 's2']);
+    expect(result.renamed).toHaveLength(1);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('skips renames that would collide', () => {
+    const content = JSON.stringify(payload([style('s1', 'hero_title'), style('s2', 'banner_title')]));
+    const result = renameClasses(content, [{ from: 'hero_', to: 'banner_' }]);
+
+    expect(result.content).toBe(content);
+    expect(result.skipped.map(preview => preview.before)).toEqual(['hero_title']);
+  });
+
+  it('leaves content that is not a Webflow payload as it is', () => {
+    expect(renameClasses('<div class="hero_title"></div>', [{ from: 'hero_', to: 'banner_' }])).toEqual({
+      content: '<div class="hero_title"></div>',
+      renamed: [],
+      skipped: []
+    });
+  });
+});
+
+describe('renameStyles', () => {
+  it('passes each style to the rename function', () => {
+    const content = JSON.stringify(payload([style('s1', 'card'), style('s2', 'is-active', { comb: '&' })]));
+    const result = renameStyles(content, (name, entry) => entry.comb === '&' ? name : `${name}-new`);
+
+    expect(namesOf(result.content)).toEqual(['card-new', 'is-active']);
+  });
+});
@@ -0,0 +1,127 @@
+import { parseWebflowData } from './clipboardUtils';
+import { WebflowStyle, WebflowXscpData } from './webflowTypes';
+
+export interface ClassRenameRule {
+  from: string;
+  to: string;
+}
+
+export interface ClassRenamePreview {
+  styleId: string;
+  before: string;
+  after: string;
+  collidesWith: string | null;
+}
+
+export interface ClassRenameResult {
+  content: string;
+  renamed: ClassRenamePreview[];
+  skipped: ClassRenamePreview[];
+}
+
+/**
+ * Find the distinct prefixes (the part before the first underscore) used by
+ * the class names of a payload, most used first
+ */
+export const detectClassPrefixes = (data: WebflowXscpData): string[] => {
+  const counts = new Map<string, number>();
+
+  data.payload.styles.forEach(style => {
+    const match = /^([a-zA-Z0-9-]+_)/.exec(style.name || '');
+    if (match) {
+      counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+    }
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([prefix]) => prefix);
+};
+
+const applyRules = (name: string, rules: ClassRenameRule[]): string => {
+  const rule = rules.find(r => r.from && name.startsWith(r.from));
+  return rule ? rule.to + name.slice(rule.from.length) : name;
+};
+
+/**
+ * Work out the new name of every style a rename function would touch.
+ * A rename collides when its new name is already used by another style,
+ * either one left untouched or another renamed style.
+ */
+export const previewStyleRenames = (
+  styles: WebflowStyle[],
+  rename: (name: string, style: WebflowStyle) => string
+): ClassRenamePreview[] => {
+  const finalNames = new Map<string, string>(
+    styles.map(style => [style._id, rename(style.name, style) || style.name])
+  );
+
+  return styles
+    .filter(style => finalNames.get(style._id) !== style.name)
+    .map(style => {
+      const after = finalNames.get(style._id) as string;
+      const other = styles.find(s =>
+        s._id !== style._id && (finalNames.get(s._id) as string).toLowerCase() === after.toLowerCase()
+      );
+
+      return {
+        styleId: style._id,
+        before: style.name,
+        after,
+        collidesWith: other ? other.name : null
+      };
+    });
+};
+
+/**
+ * Preview a set of prefix rules, see `previewStyleRenames`
+ */
+export const previewClassRenames = (
+  styles: WebflowStyle[],
+  rules: ClassRenameRule[]
+): ClassRenamePreview[] => {
+  const activeRules = rules.filter(rule => rule.from && rule.from !== rule.to);
+  return previewStyleRenames(styles, name => applyRules(name, activeRules));
+};
+
+/**
+ * Rename the classes of a Webflow payload. Only the `name` of style entries
+ * is rewritten; nodes reference styles by id, so `nodes[].classes` stay
+ * valid. Renames that would collide with another class are skipped.
+ */
+export const renameStyles = (
+  content: string,
+  rename: (name: string, style: WebflowStyle) => string
+): ClassRenameResult => {
+  const { data } = parseWebflowData(content);
+  if (!data) {
+    return { content, renamed: [], skipped: [] };
+  }
+
+  const previews = previewStyleRenames(data.payload.styles, rename);
+  const renamed = previews.filter(preview => !preview.collidesWith);
+  const skipped = previews.filter(preview => !!preview.collidesWith);
+
+  if (renamed.length === 0) {
+    return { content, renamed, skipped };
+  }
+
+  // Work on the raw JSON so fields the parser normalises are left as they were
+  const raw = JSON.parse(content);
+  const newNames = new Map(renamed.map(preview => [preview.styleId, preview.after]));
+  raw.payload.styles.forEach((style: { _id?: string; name?: string }) => {
+    if (style && style._id && newNames.has(style._id)) {
+      style.name = newNames.get(style._id);
+    }
+  });
+
+  return { content: JSON.stringify(raw), renamed, skipped };
+};
+
+/**
+ * Rename classes of a Webflow payload by prefix
+ */
+export const renameClasses = (content: string, rules: ClassRenameRule[]): ClassRenameResult => {
+  const activeRules = rules.filter(rule => rule.from && rule.from !== rule.to);
+  return renameStyles(content, name => applyRules(name, activeRules));
+};
@@ -0,0 +1,161 @@
+import { ExtractedData } from './clipboardUtils';
+
+export interface ClipboardHistoryEntry {
+  id: string;
+  data: ExtractedData;
+  source: string;
+  timestamp: number;
+  pinned: boolean;
+}
+
+const DB_NAME = 'webflow-library';
+const DB_VERSION = 1;
+const STORE_NAME = 'clipboard-history';
+const CAP_STORAGE_KEY = 'clipboard-history-cap';
+
+export const HISTORY_CAP_OPTIONS = [25, 50, 100, 250];
+export const DEFAULT_HISTORY_CAP = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open, e.g. in private browsing
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Object URLs don't survive a reload, so files keep only their metadata
+const withoutObjectUrls = (data: ExtractedData): ExtractedData => {
+  const strip = <T extends { url: string }>(file: T): T => ({ ...file, url: '' });
+
+  return {
+    ...data,
+    types: data.types?.map(type => typeof type.data === 'string' ? type : { ...type, data: strip(type.data) }),
+    items: data.items?.map(item => ({ ...item, as_file: item.as_file ? strip(item.as_file) : null })),
+    files: data.files?.map(strip)
+  };
+};
+
+/**
+ * Maximum number of unpinned entries kept in the history
+ */
+export const getHistoryCap = (): number => {
+  const stored = Number(localStorage.getItem(CAP_STORAGE_KEY));
+  return stored > 0 ? stored : DEFAULT_HISTORY_CAP;
+};
+
+export const setHistoryCap = (cap: number): void => {
+  localStorage.setItem(CAP_STORAGE_KEY, String(cap));
+};
+
+/**
+ * Order entries pinned first, then newest first
+ */
+export const sortHistory = (entries: ClipboardHistoryEntry[]): ClipboardHistoryEntry[] =>
+  [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp);
+
+/**
+ * Keep every pinned entry and the newest unpinned ones up to the cap
+ */
+export const applyHistoryCap = (entries: ClipboardHistoryEntry[], cap: number): ClipboardHistoryEntry[] => {
+  const expired = new Set(sortHistory(entries).filter(entry => !entry.pinned).slice(cap));
+  return entries.filter(entry => !expired.has(entry));
+};
+
+/**
+ * All history entries, pinned first, then newest first
+ */
+export const loadHistory = async (): Promise<ClipboardHistoryEntry[]> => {
+  const entries = await runTransaction<ClipboardHistoryEntry[]>('readonly', store => store.getAll());
+  return sortHistory(entries || []);
+};
+
+/**
+ * Drop the oldest unpinned entries beyond the cap
+ */
+export const trimHistory = async (cap: number = getHistoryCap()): Promise<void> => {
+  const entries = await loadHistory();
+  const kept = new Set(applyHistoryCap(entries, cap));
+  const expired = entries.filter(entry => !kept.has(entry));
+  if (expired.length === 0) return;
+
+  await runTransaction('readwrite', store => {
+    expired.forEach(entry => store.delete(entry.id));
+  });
+};
+
+/**
+ * Store a parsed clipboard entry and apply the cap
+ */
+export const addHistoryEntry = async (entry: ClipboardHistoryEntry): Promise<void> => {
+  await runTransaction('readwrite', store => store.put({ ...entry, data: withoutObjectUrls(entry.data) }));
+  await trimHistory();
+};
+
+export const createHistoryEntry = (data: ExtractedData, source: string): ClipboardHistoryEntry => ({
+  id: crypto.randomUUID(),
+  data,
+  source,
+  timestamp: Date.now(),
+  pinned: false
+});
+
+export const updateHistoryEntry = async (entry: ClipboardHistoryEntry): Promise<void> => {
+  await runTransaction('readwrite', store => store.put({ ...entry, data: withoutObjectUrls(entry.data) }));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+/**
+ * Remove every unpinned entry
+ */
+export const clearHistory = async (): Promise<void> => {
+  const entries = await loadHistory();
+  await runTransaction('readwrite', store => {
+    entries.filter(entry => !entry.pinned).forEach(entry => store.delete(entry.id));
+  });
+};
+
+/**
+ * Check whether an entry's text content or file names contain a query
+ */
+export const matchesHistoryQuery = (entry: ClipboardHistoryEntry, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    entry.source,
+    ...(entry.data.types || []).map(type => typeof type.data === 'string' ? type.data : type.data.name),
+    ...(entry.data.files || []).map(file => file.name)
+  ];
+
+  return haystack.some(text => text.toLowerCase().includes(needle));
+};
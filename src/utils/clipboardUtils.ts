@@ -1,3 +1,20 @@
+import {
+  WEBFLOW_XSCP_TYPE,
+  WebflowAsset,
+  WebflowElementNode,
+  WebflowIx2,
+  WebflowMeta,
+  WebflowNode,
+  WebflowNodeData,
+  WebflowParseError,
+  WebflowParseResult,
+  WebflowStyle,
+  WebflowStyleReference,
+  WebflowTextNode,
+  WebflowTreeNode,
+  WebflowXscpData
+} from './webflowTypes';
+
 export const MDN_BASE = `https://developer.mozilla.org/en-US/docs/Web/API`;
 
 interface FileInfo {
@@ -18,7 +35,7 @@ interface ClipboardItemData {
   as_file: FileInfo | null;
 }
 
-interface ExtractedData {
+export interface ExtractedData {
   type: 'DataTransfer' | 'ClipboardItem';
   types?: ClipboardTypeData[];
   items?: ClipboardItemData[] | null;
@@ -91,6 +108,29 @@ export const extractData = async (data: any): Promise<ExtractedData | undefined>
   return undefined;
 };
 
+// Webflow writes its payload as `application/json` only, so plain text is the fallback
+const PAYLOAD_TYPES = ['application/json', 'text/plain'];
+
+/**
+ * The Webflow payload, or plain text, carried by a paste or drop
+ */
+export const getPastedPayload = (data: DataTransfer): string =>
+  PAYLOAD_TYPES.map(type => data.getData(type)).find(Boolean) || '';
+
+/**
+ * Read the Webflow payload, or plain text, with the async clipboard API.
+ * Browsers that don't expose `application/json` there resolve to an empty
+ * string, in which case only a paste event can reach it.
+ */
+export const readClipboardPayload = async (): Promise<string> => {
+  const items = await navigator.clipboard.read();
+  for (const type of PAYLOAD_TYPES) {
+    const item = items.find(entry => entry.types.includes(type));
+    if (item) return (await item.getType(type)).text();
+  }
+  return '';
+};
+
 /**
  * Format JSON data with proper indentation
  */
@@ -126,77 +166,250 @@ export const formatContent = (content: string, type: string): string => {
   return content;
 };
 
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
 /**
- * Copy content to clipboard with both application/json and text/plain formats
- * for maximum compatibility with applications like Webflow
+ * Check whether a node is a text node rather than an element
  */
-export const copyToClipboard = async (content: string, isJson: boolean = false): Promise<boolean> => {
+export const isWebflowTextNode = (node: WebflowNode): node is WebflowTextNode =>
+  (node as WebflowTextNode).text === true;
+
+/**
+ * Parse and validate a Webflow `@webflow/XscpData` clipboard payload.
+ * Structural problems are collected instead of thrown so callers can show them.
+ */
+export const parseWebflowData = (content: string): WebflowParseResult => {
+  const errors: WebflowParseError[] = [];
+  const fail = (path: string, message: string): WebflowParseResult => ({
+    data: null,
+    errors: [...errors, { severity: 'error', path, message }],
+    valid: false
+  });
+
+  let raw: unknown;
   try {
-    // For better Webflow compatibility, use the execCommand method first as it works better with some apps
-    const textArea = document.createElement('textarea');
-    textArea.value = content;
-    
-    // Make the textarea out of viewport
-    textArea.style.position = 'fixed';
-    textArea.style.left = '-999999px';
-    textArea.style.top = '-999999px';
-    document.body.appendChild(textArea);
-    
-    textArea.focus();
-    textArea.select();
-    
-    // Use a custom copy event handler for JSON content
-    if (isJson) {
-      const copyHandler = (event: ClipboardEvent) => {
-        event.preventDefault();
-        event.clipboardData?.setData('application/json', content);
-        event.clipboardData?.setData('text/plain', content);
-      };
-      
-      document.addEventListener('copy', copyHandler as EventListener);
-      document.execCommand('copy');
-      document.removeEventListener('copy', copyHandler as EventListener);
-    } else {
-      // Simple plain text copy
-      document.execCommand('copy');
+    raw = JSON.parse(content);
+  } catch (e) {
+    return fail('', 'Content is not valid JSON');
+  }
+
+  if (!isPlainObject(raw)) {
+    return fail('', 'Expected a JSON object');
+  }
+  if (raw.type !== WEBFLOW_XSCP_TYPE) {
+    return fail('type', `Expected type "${WEBFLOW_XSCP_TYPE}"`);
+  }
+  if (!isPlainObject(raw.payload)) {
+    return fail('payload', 'Missing payload object');
+  }
+
+  const payload = raw.payload;
+  if (!Array.isArray(payload.nodes)) {
+    return fail('payload.nodes', 'Missing nodes array');
+  }
+
+  const styles = Array.isArray(payload.styles) ? payload.styles : [];
+  if (payload.styles !== undefined && !Array.isArray(payload.styles)) {
+    errors.push({ severity: 'error', path: 'payload.styles', message: 'Styles must be an array' });
+  }
+
+  const styleIds = new Set<string>();
+  styles.forEach((style, i) => {
+    const path = `payload.styles[${i}]`;
+    if (!isPlainObject(style) || typeof style._id !== 'string') {
+      errors.push({ severity: 'error', path, message: 'Style is missing an _id' });
+      return;
     }
-    
-    document.body.removeChild(textArea);
-    
-    // Also try the modern API as a fallback/supplement
-    if (navigator.clipboard) {
-      if (isJson && navigator.clipboard.write) {
-        try {
-          const clipboardItem = new ClipboardItem({
-            'text/plain': new Blob([content], { type: 'text/plain' }),
-            'application/json': new Blob([content], { type: 'application/json' })
-          });
-          
-          await navigator.clipboard.write([clipboardItem]);
-        } catch (e) {
-          console.warn('Modern clipboard API failed, but execCommand might have worked:', e);
-        }
-      } 
-      else if (navigator.clipboard.writeText) {
-        try {
-          await navigator.clipboard.writeText(content);
-        } catch (e) {
-          console.warn('writeText failed, but execCommand might have worked:', e);
-        }
+    if (typeof style.name !== 'string' || !style.name) {
+      errors.push({ severity: 'error', path: `${path}.name`, message: 'Style is missing a name' });
+    }
+    if (styleIds.has(style._id)) {
+      errors.push({ severity: 'error', path, message: `Duplicate style id "${style._id}"` });
+    }
+    styleIds.add(style._id);
+  });
+
+  const nodeIds = new Set<string>();
+  payload.nodes.forEach((node, i) => {
+    const path = `payload.nodes[${i}]`;
+    if (!isPlainObject(node) || typeof node._id !== 'string') {
+      errors.push({ severity: 'error', path, message: 'Node is missing an _id' });
+      return;
+    }
+    if (nodeIds.has(node._id)) {
+      errors.push({ severity: 'error', path, message: `Duplicate node id "${node._id}"` });
+    }
+    nodeIds.add(node._id);
+
+    if (node.text === true) {
+      if (typeof node.v !== 'string') {
+        errors.push({ severity: 'warning', path: `${path}.v`, message: 'Text node has no text value' });
       }
+      return;
     }
-    
-    return true;
-  } catch (error) {
-    console.error('Failed to copy content:', error);
-    // Try one more time with just the basic clipboard API
-    try {
-      await navigator.clipboard.writeText(content);
-      return true;
-    } catch (e) {
-      return false;
+    if (typeof node.type !== 'string') {
+      errors.push({ severity: 'warning', path: `${path}.type`, message: 'Element node has no type' });
+    }
+    if (node.classes !== undefined && !Array.isArray(node.classes)) {
+      errors.push({ severity: 'error', path: `${path}.classes`, message: 'Classes must be an array' });
+    }
+    if (node.children !== undefined && !Array.isArray(node.children)) {
+      errors.push({ severity: 'error', path: `${path}.children`, message: 'Children must be an array' });
+    }
+  });
+
+  // Cross references are checked once every id is known
+  payload.nodes.forEach((node, i) => {
+    if (!isPlainObject(node) || node.text === true) return;
+    const path = `payload.nodes[${i}]`;
+
+    (Array.isArray(node.children) ? node.children : []).forEach((childId, j) => {
+      if (!nodeIds.has(childId as string)) {
+        errors.push({ severity: 'error', path: `${path}.children[${j}]`, message: `Unknown child node "${childId}"` });
+      }
+    });
+    (Array.isArray(node.classes) ? node.classes : []).forEach((styleId, j) => {
+      if (!styleIds.has(styleId as string)) {
+        errors.push({ severity: 'warning', path: `${path}.classes[${j}]`, message: `Unknown style "${styleId}"` });
+      }
+    });
+  });
+
+  const data: WebflowXscpData = {
+    ...(raw as object),
+    type: WEBFLOW_XSCP_TYPE,
+    payload: {
+      ...(payload as object),
+      nodes: (payload.nodes as Record<string, unknown>[])
+        .filter(node => isPlainObject(node) && typeof node._id === 'string')
+        .map(node => node.text === true
+          ? node as unknown as WebflowTextNode
+          : {
+              ...node,
+              tag: typeof node.tag === 'string' ? node.tag : (node.data as WebflowNodeData)?.tag || 'div',
+              classes: Array.isArray(node.classes) ? node.classes : [],
+              children: Array.isArray(node.children) ? node.children : []
+            } as WebflowElementNode),
+      styles: (styles as Record<string, unknown>[])
+        .filter(style => isPlainObject(style) && typeof style._id === 'string')
+        .map(style => ({
+          ...style,
+          variants: isPlainObject(style.variants) ? style.variants : {},
+          children: Array.isArray(style.children) ? style.children : [],
+          styleLess: typeof style.styleLess === 'string' ? style.styleLess : '',
+          comb: typeof style.comb === 'string' ? style.comb : ''
+        }) as WebflowStyle),
+      assets: Array.isArray(payload.assets) ? payload.assets as WebflowAsset[] : [],
+      ix1: Array.isArray(payload.ix1) ? payload.ix1 : [],
+      ix2: isPlainObject(payload.ix2)
+        ? payload.ix2 as unknown as WebflowIx2
+        : { interactions: [], events: [], actionLists: [] }
+    },
+    meta: isPlainObject(raw.meta) ? raw.meta as WebflowMeta : undefined
+  };
+
+  return {
+    data,
+    errors,
+    valid: !errors.some(error => error.severity === 'error')
+  };
+};
+
+/**
+ * Check if the string is a Webflow clipboard payload
+ */
+export const isWebflowData = (content: string): boolean => {
+  if (!content || !content.includes(WEBFLOW_XSCP_TYPE)) return false;
+  return parseWebflowData(content).data !== null;
+};
+
+/**
+ * Build the element hierarchy of a payload. Nodes that are not referenced
+ * as a child of another node become roots.
+ */
+export const buildNodeTree = (data: WebflowXscpData): WebflowTreeNode[] => {
+  const nodesById = new Map(data.payload.nodes.map(node => [node._id, node]));
+  const stylesById = new Map(data.payload.styles.map(style => [style._id, style]));
+  const childIds = new Set<string>();
+
+  data.payload.nodes.forEach(node => {
+    if (!isWebflowTextNode(node)) {
+      node.children.forEach(id => childIds.add(id));
     }
+  });
+
+  const visited = new Set<string>();
+  const build = (node: WebflowNode, depth: number): WebflowTreeNode => {
+    visited.add(node._id);
+    const isText = isWebflowTextNode(node);
+
+    return {
+      id: node._id,
+      node,
+      depth,
+      styles: isText
+        ? []
+        : node.classes.map(id => stylesById.get(id)).filter(Boolean) as WebflowStyle[],
+      children: isText
+        ? []
+        : node.children
+            .filter(id => nodesById.has(id) && !visited.has(id))
+            .map(id => build(nodesById.get(id) as WebflowNode, depth + 1))
+    };
+  };
+
+  return data.payload.nodes
+    .filter(node => !childIds.has(node._id))
+    .map(node => build(node, 0));
+};
+
+/**
+ * List every style together with the nodes that use it
+ */
+export const getStyleReferences = (data: WebflowXscpData): WebflowStyleReference[] => {
+  const references = new Map<string, WebflowStyleReference>(
+    data.payload.styles.map(style => [style._id, { style, nodeIds: [] }])
+  );
+
+  data.payload.nodes.forEach(node => {
+    if (isWebflowTextNode(node)) return;
+    node.classes.forEach(id => references.get(id)?.nodeIds.push(node._id));
+  });
+
+  return Array.from(references.values());
+};
+
+/**
+ * Locate every node of a payload inside its `formatJson` output, so a node
+ * can be highlighted in the raw view. Offsets are [start, end) character ranges.
+ */
+export const getNodeJsonRanges = (content: string): Map<string, { start: number; end: number }> => {
+  const ranges = new Map<string, { start: number; end: number }>();
+
+  try {
+    const raw = JSON.parse(content);
+    const nodes = raw?.payload?.nodes;
+    if (!Array.isArray(nodes)) return ranges;
+
+    const formatted = JSON.stringify(raw, null, 2);
+    // Nodes sit three levels deep: root > payload > nodes
+    const indent = ' '.repeat(6);
+    let cursor = formatted.indexOf('"nodes"');
+
+    nodes.forEach(node => {
+      if (!node || typeof node._id !== 'string') return;
+      const serialized = JSON.stringify(node, null, 2).split('\n').join(`\n${indent}`);
+      const start = formatted.indexOf(serialized, cursor);
+      if (start === -1) return;
+      cursor = start + serialized.length;
+      ranges.set(node._id, { start, end: cursor });
+    });
+  } catch (e) {
+    // Not JSON, nothing to locate
   }
+
+  return ranges;
 };
 
 // Add this function if it doesn't already exist in the file
@@ -0,0 +1,228 @@
+import { isValidJson, isWebflowData } from './clipboardUtils';
+import { convertHtmlToWebflow } from './htmlToWebflow';
+
+export type ClipboardContentKind = 'webflow' | 'json' | 'html' | 'text' | 'image';
+
+export interface ClipboardWriteResult {
+  success: boolean;
+  kind: ClipboardContentKind;
+  // MIME types that made it onto the clipboard
+  written: string[];
+  // MIME types the content should have been written as but weren't
+  failed: string[];
+}
+
+const HTML_PATTERN = /^\s*<([a-z][a-z0-9-]*)[\s>/][\s\S]*>\s*$/i;
+
+/**
+ * Work out how content should be written. A declared type only wins when the
+ * content itself doesn't say otherwise, so Webflow payloads saved as plain
+ * text are still copied as Webflow JSON.
+ */
+export const detectContentKind = (content: string | Blob, contentType: string = ''): ClipboardContentKind => {
+  if (typeof content !== 'string') return 'image';
+  if (isWebflowData(content)) return 'webflow';
+  if ((contentType.includes('json') || /^[[{]/.test(content.trim())) && isValidJson(content)) return 'json';
+  if (contentType.includes('html') || HTML_PATTERN.test(content)) return 'html';
+  return 'text';
+};
+
+/**
+ * The MIME flavours each kind of text content is written as. Webflow only
+ * accepts a paste that carries `application/json`.
+ */
+export const getClipboardFlavours = (content: string, kind: ClipboardContentKind): Record<string, string> => {
+  switch (kind) {
+    case 'webflow':
+    case 'json':
+      return { 'application/json': content, 'text/plain': content };
+    case 'html':
+      return { 'text/html': content, 'text/plain': content };
+    default:
+      return { 'text/plain': content };
+  }
+};
+
+/**
+ * Write flavours through a synthetic copy event. This is the only way to put
+ * `application/json` on the clipboard, as the async API rejects custom types.
+ */
+const writeWithCopyEvent = (flavours: Record<string, string>): string[] => {
+  const written: string[] = [];
+  const textArea = document.createElement('textarea');
+  textArea.value = flavours['text/plain'] || '';
+
+  // Keep the textarea out of the viewport
+  textArea.style.position = 'fixed';
+  textArea.style.left = '-999999px';
+  textArea.style.top = '-999999px';
+  document.body.appendChild(textArea);
+  textArea.focus();
+  textArea.select();
+
+  const copyHandler = (event: ClipboardEvent) => {
+    if (!event.clipboardData) return;
+    event.preventDefault();
+    Object.entries(flavours).forEach(([type, value]) => {
+      event.clipboardData?.setData(type, value);
+      if (event.clipboardData?.getData(type) === value) written.push(type);
+    });
+  };
+
+  document.addEventListener('copy', copyHandler);
+  try {
+    if (!document.execCommand('copy')) written.length = 0;
+  } finally {
+    document.removeEventListener('copy', copyHandler);
+    document.body.removeChild(textArea);
+  }
+
+  return written;
+};
+
+/**
+ * Write what the async clipboard API supports, falling back to plain text
+ */
+const writeWithClipboardApi = async (flavours: Record<string, string>): Promise<string[]> => {
+  if (!navigator.clipboard) return [];
+
+  const supported = Object.keys(flavours).filter(type =>
+    typeof ClipboardItem !== 'undefined' && (ClipboardItem.supports ? ClipboardItem.supports(type) : type.startsWith('text/'))
+  );
+
+  if (navigator.clipboard.write && supported.length > 1) {
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem(Object.fromEntries(
+          supported.map(type => [type, new Blob([flavours[type]], { type })])
+        ))
+      ]);
+      return supported;
+    } catch (err) {
+      console.warn('Clipboard write failed, trying plain text:', err);
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(flavours['text/plain']);
+    return ['text/plain'];
+  } catch (err) {
+    console.warn('Clipboard writeText failed:', err);
+    return [];
+  }
+};
+
+const toPng = async (image: Blob): Promise<Blob> => {
+  if (image.type === 'image/png') return image;
+
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')), 'image/png');
+  });
+};
+
+const writeImage = async (image: Blob): Promise<ClipboardWriteResult> => {
+  const result: ClipboardWriteResult = { success: false, kind: 'image', written: [], failed: ['image/png'] };
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') return result;
+
+  try {
+    // Browsers only accept PNG images on the clipboard
+    await navigator.clipboard.write([new ClipboardItem({ 'image/png': await toPng(image) })]);
+    return { ...result, success: true, written: ['image/png'], failed: [] };
+  } catch (err) {
+    console.error('Failed to copy image:', err);
+    return result;
+  }
+};
+
+/**
+ * Copy content with every MIME flavour its kind needs. Used by all copy
+ * buttons so Webflow payloads always keep their `application/json` flavour.
+ */
+export const writeToClipboard = async (
+  content: string | Blob,
+  contentType?: string
+): Promise<ClipboardWriteResult> => {
+  if (typeof content !== 'string') return writeImage(content);
+
+  const kind = detectContentKind(content, contentType);
+  const flavours = getClipboardFlavours(content, kind);
+  const expected = Object.keys(flavours);
+
+  let written: string[] = [];
+  try {
+    written = writeWithCopyEvent(flavours);
+  } catch (err) {
+    console.warn('Copy event failed, trying the clipboard API:', err);
+  }
+
+  // The async API can't write custom types, so it only helps when the copy
+  // event wrote nothing, e.g. outside a user gesture in Firefox
+  if (written.length === 0) {
+    written = await writeWithClipboardApi(flavours);
+  }
+
+  return {
+    success: written.length > 0,
+    kind,
+    written,
+    failed: expected.filter(type => !written.includes(type))
+  };
+};
+
+const KIND_LABELS: Record<ClipboardContentKind, string> = {
+  webflow: 'Paste it into the Webflow Designer',
+  json: 'Copied as JSON',
+  html: 'Copied as HTML',
+  text: 'Copied as plain text',
+  image: 'Copied as an image'
+};
+
+/**
+ * Toast content describing a clipboard write
+ */
+export const describeClipboardWrite = (
+  result: ClipboardWriteResult
+): { title: string; description: string; variant?: 'destructive' } => {
+  if (!result.success) {
+    return {
+      title: "Copy failed",
+      description: "Please try again or copy manually",
+      variant: "destructive"
+    };
+  }
+
+  if (result.failed.length > 0) {
+    return {
+      title: "Copied with missing formats",
+      description: result.kind === 'webflow'
+        ? "Only plain text was copied, so Webflow won't recognize the paste. Try again or use a Chromium-based browser."
+        : `Could not write ${result.failed.join(', ')}. Copied as ${result.written.join(', ')}.`,
+      variant: "destructive"
+    };
+  }
+
+  return {
+    title: "Copied to clipboard",
+    description: KIND_LABELS[result.kind]
+  };
+};
+
+/**
+ * Convert HTML and CSS to a Webflow payload and copy it so it can be pasted
+ * straight into the Designer
+ */
+export const copyHtmlAsWebflow = async (
+  html: string,
+  css: string = ''
+): Promise<ClipboardWriteResult & { warnings: string[] }> => {
+  const { data, warnings } = convertHtmlToWebflow(html, css);
+  const result = await writeToClipboard(JSON.stringify(data), 'application/json');
+  return { ...result, warnings };
+};
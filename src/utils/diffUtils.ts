@@ -0,0 +1,127 @@
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  value: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Beyond this many edits the texts are shown as fully replaced
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between two line lists (Myers' algorithm)
+ */
+const diffMiddle = (before: string[], after: string[]): DiffLine[] => {
+  const n = before.length;
+  const m = after.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Only the diagonals reachable at each step are kept
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && before[x] === after[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...before.map((value): DiffLine => ({ type: 'removed', value })),
+      ...after.map((value): DiffLine => ({ type: 'added', value }))
+    ];
+  }
+
+  // Walk the trace backwards to recover the edits
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (diagonal: number) => snapshot[diagonal + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'unchanged', value: before[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        lines.push({ type: 'added', value: after[--y] });
+      } else {
+        lines.push({ type: 'removed', value: before[--x] });
+      }
+    }
+  }
+
+  return lines.reverse();
+};
+
+/**
+ * Line-by-line diff of two texts
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+
+  // Shared leading and trailing lines don't need the full algorithm
+  let start = 0;
+  while (
+    start < beforeLines.length &&
+    start < afterLines.length &&
+    beforeLines[start] === afterLines[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] === afterLines[afterLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const unchanged = (value: string): DiffLine => ({ type: 'unchanged', value });
+
+  return [
+    ...beforeLines.slice(0, start).map(unchanged),
+    ...diffMiddle(
+      beforeLines.slice(start, beforeLines.length - end),
+      afterLines.slice(start, afterLines.length - end)
+    ),
+    ...beforeLines.slice(beforeLines.length - end).map(unchanged)
+  ];
+};
+
+/**
+ * Count of added and removed lines in a diff
+ */
+export const getDiffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length
+});
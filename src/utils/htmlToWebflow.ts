@@ -0,0 +1,329 @@
+import {
+  WEBFLOW_BREAKPOINTS,
+  WEBFLOW_PSEUDO_STATES,
+  WEBFLOW_XSCP_TYPE,
+  WebflowAttribute,
+  WebflowElementNode,
+  WebflowNode,
+  WebflowNodeData,
+  WebflowStyle,
+  WebflowXscpData
+} from './webflowTypes';
+
+export interface HtmlConversionResult {
+  data: WebflowXscpData;
+  warnings: string[];
+}
+
+// Webflow element types for the tags the Designer knows natively
+const TYPE_BY_TAG: Record<string, string> = {
+  div: 'Block',
+  header: 'Block',
+  footer: 'Block',
+  nav: 'Block',
+  main: 'Block',
+  aside: 'Block',
+  article: 'Block',
+  address: 'Block',
+  figure: 'Block',
+  section: 'Section',
+  h1: 'Heading',
+  h2: 'Heading',
+  h3: 'Heading',
+  h4: 'Heading',
+  h5: 'Heading',
+  h6: 'Heading',
+  p: 'Paragraph',
+  a: 'Link',
+  img: 'Image',
+  ul: 'List',
+  ol: 'List',
+  li: 'ListItem',
+  blockquote: 'Blockquote',
+  span: 'Span',
+  strong: 'Strong',
+  b: 'Strong',
+  em: 'Emphasized',
+  i: 'Emphasized',
+  sup: 'Superscript',
+  sub: 'Subscript',
+  code: 'InlineCode',
+  br: 'LineBreak',
+  figcaption: 'Figcaption'
+};
+
+const PSEUDO_STATES: Record<string, string> = Object.fromEntries(
+  Object.entries(WEBFLOW_PSEUDO_STATES).map(([state, selector]) => [selector, state])
+);
+
+// Attributes that are carried by node data rather than custom attributes
+const NATIVE_ATTRIBUTES = new Set(['class', 'id', 'href', 'target', 'src', 'alt', 'style']);
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'link', 'meta', 'title', 'head']);
+
+const createId = (): string => crypto.randomUUID();
+
+const getBreakpoint = (media: string): string | null => {
+  const max = /max-width:\s*(\d+)px/.exec(media);
+  if (max) {
+    const width = parseInt(max[1], 10);
+    const match = WEBFLOW_BREAKPOINTS
+      .filter(breakpoint => breakpoint.maxWidth)
+      .reverse()
+      .find(breakpoint => width <= (breakpoint.maxWidth as number));
+    return match ? match.id : 'medium';
+  }
+
+  const min = /min-width:\s*(\d+)px/.exec(media);
+  if (min) {
+    const width = parseInt(min[1], 10);
+    const match = WEBFLOW_BREAKPOINTS
+      .filter(breakpoint => breakpoint.minWidth)
+      .find(breakpoint => width >= (breakpoint.minWidth as number));
+    return match ? match.id : null;
+  }
+
+  return null;
+};
+
+const toStyleLess = (declaration: CSSStyleDeclaration): string => {
+  const properties: string[] = [];
+  for (let i = 0; i < declaration.length; i++) {
+    const property = declaration[i];
+    properties.push(`${property}: ${declaration.getPropertyValue(property)};`);
+  }
+  return properties.join(' ');
+};
+
+const appendStyleLess = (existing: string, addition: string): string =>
+  existing ? `${existing} ${addition}` : addition;
+
+const getCssRules = (css: string): CSSRuleList | null => {
+  if (!css.trim()) return null;
+
+  if (typeof CSSStyleSheet !== 'undefined' && 'replaceSync' in CSSStyleSheet.prototype) {
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(css);
+    return sheet.cssRules;
+  }
+
+  const doc = document.implementation.createHTMLDocument('');
+  const styleElement = doc.createElement('style');
+  styleElement.textContent = css;
+  doc.head.appendChild(styleElement);
+  return styleElement.sheet ? styleElement.sheet.cssRules : null;
+};
+
+/**
+ * Convert arbitrary HTML and a stylesheet into a `@webflow/XscpData` payload
+ * that can be pasted into the Webflow Designer. Only class selectors can be
+ * represented as Webflow styles, other rules are reported as warnings.
+ */
+export const convertHtmlToWebflow = (html: string, css: string = ''): HtmlConversionResult => {
+  const warnings: string[] = [];
+  const nodes: WebflowNode[] = [];
+  const styles: WebflowStyle[] = [];
+  const stylesByKey = new Map<string, WebflowStyle>();
+
+  const getStyle = (name: string, parent: WebflowStyle | null): WebflowStyle => {
+    const key = parent ? `${parent.name}.${name}` : name;
+    let style = stylesByKey.get(key);
+
+    if (!style) {
+      style = {
+        _id: createId(),
+        fake: false,
+        type: 'class',
+        name,
+        namespace: '',
+        comb: parent ? '&' : '',
+        styleLess: '',
+        variants: {},
+        children: [],
+        selector: null
+      };
+      stylesByKey.set(key, style);
+      styles.push(style);
+      parent?.children.push(style._id);
+    }
+
+    return style;
+  };
+
+  const convertElement = (element: Element): string | null => {
+    const tag = element.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) {
+      warnings.push(`Skipped <${tag}> element`);
+      return null;
+    }
+
+    let type = TYPE_BY_TAG[tag];
+    if (!type) {
+      warnings.push(`<${tag}> has no Webflow equivalent and was converted to a div block`);
+      type = 'Block';
+    }
+
+    const classNames = Array.from(element.classList);
+    const classes: string[] = [];
+    classNames.forEach((name, i) => {
+      const base = i === 0 ? null : getStyle(classNames[0], null);
+      classes.push(getStyle(name, base)._id);
+    });
+
+    const xattr: WebflowAttribute[] = Array.from(element.attributes)
+      .filter(attribute => !NATIVE_ATTRIBUTES.has(attribute.name))
+      .map(attribute => ({ name: attribute.name, value: attribute.value }));
+
+    if (element.hasAttribute('style')) {
+      warnings.push(`Inline styles on <${tag}> were dropped, move them into a class`);
+    }
+
+    const data: WebflowNodeData = {
+      tag: TYPE_BY_TAG[tag] ? tag : 'div',
+      text: false,
+      xattr,
+      attr: { id: element.id || '' },
+      search: { exclude: false },
+      visibility: { conditions: [] }
+    };
+
+    if (tag === 'a') {
+      data.link = {
+        mode: 'external',
+        url: element.getAttribute('href') || '#',
+        ...(element.getAttribute('target') ? { target: element.getAttribute('target') } : {})
+      };
+    }
+    if (tag === 'img') {
+      data.img = { id: '' };
+      data.attr = {
+        ...data.attr,
+        src: element.getAttribute('src') || '',
+        alt: element.getAttribute('alt') || '',
+        loading: element.getAttribute('loading') || 'lazy'
+      };
+    }
+
+    const children: string[] = [];
+    element.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        const text = child.textContent || '';
+        if (!text.trim()) return;
+
+        const id = createId();
+        nodes.push({ _id: id, text: true, v: text.replace(/\s+/g, ' ') });
+        children.push(id);
+        data.text = true;
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const id = convertElement(child as Element);
+        if (id) children.push(id);
+      }
+    });
+
+    const node: WebflowElementNode = {
+      _id: createId(),
+      type,
+      tag: data.tag as string,
+      classes,
+      children,
+      data
+    };
+    nodes.push(node);
+
+    return node._id;
+  };
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const rootIds = Array.from(doc.body.children)
+    .map(convertElement)
+    .filter(Boolean) as string[];
+
+  if (rootIds.length === 0) {
+    warnings.push('No elements found in the HTML');
+  }
+
+  const applyRule = (rule: CSSStyleRule, breakpoint: string) => {
+    const styleLess = toStyleLess(rule.style);
+    if (!styleLess) return;
+
+    rule.selectorText.split(',').map(selector => selector.trim()).forEach(selector => {
+      const match = /^((?:\.[a-zA-Z0-9_-]+)+)((?::{1,2}[a-z-]+(?:\([a-z]+\))?)?)$/.exec(selector);
+      if (!match) {
+        warnings.push(`Selector "${selector}" is not a class selector and was skipped`);
+        return;
+      }
+
+      const [baseName, ...comboNames] = match[1].slice(1).split('.');
+      // Combo classes hang off the base class, as they do on elements
+      let style = getStyle(baseName, null);
+      if (comboNames.length > 0) {
+        style = getStyle(comboNames[comboNames.length - 1], style);
+      }
+
+      const pseudo = match[2] ? PSEUDO_STATES[match[2]] : null;
+      if (match[2] && !pseudo) {
+        warnings.push(`Pseudo selector "${match[2]}" is not supported by Webflow and was skipped`);
+        return;
+      }
+
+      if (breakpoint === 'main' && !pseudo) {
+        style.styleLess = appendStyleLess(style.styleLess, styleLess);
+      } else {
+        const key = pseudo ? `${breakpoint}_${pseudo}` : breakpoint;
+        style.variants[key] = {
+          styleLess: appendStyleLess(style.variants[key]?.styleLess || '', styleLess)
+        };
+      }
+    });
+  };
+
+  const walkRules = (rules: CSSRuleList, breakpoint: string) => {
+    Array.from(rules).forEach(rule => {
+      if (rule instanceof CSSStyleRule) {
+        applyRule(rule, breakpoint);
+      } else if (rule instanceof CSSMediaRule) {
+        const media = getBreakpoint(rule.conditionText || rule.media.mediaText);
+        if (!media) {
+          warnings.push(`Media query "${rule.media.mediaText}" does not match a Webflow breakpoint`);
+          return;
+        }
+        walkRules(rule.cssRules, media);
+      } else {
+        warnings.push(`Skipped unsupported CSS rule: ${rule.cssText.slice(0, 40)}`);
+      }
+    });
+  };
+
+  const rules = getCssRules(css);
+  if (rules) {
+    walkRules(rules, 'main');
+  }
+
+  // Keep roots first so the Designer pastes them in document order
+  const rootSet = new Set(rootIds);
+  const orderedNodes = [
+    ...rootIds.map(id => nodes.find(node => node._id === id) as WebflowNode),
+    ...nodes.filter(node => !rootSet.has(node._id))
+  ];
+
+  return {
+    data: {
+      type: WEBFLOW_XSCP_TYPE,
+      payload: {
+        nodes: orderedNodes,
+        styles,
+        assets: [],
+        ix1: [],
+        ix2: { interactions: [], events: [], actionLists: [] }
+      },
+      meta: {
+        unlinkedSymbolCount: 0,
+        droppedLinks: 0,
+        dynBindRemovedCount: 0,
+        dynListBindRemovedCount: 0,
+        paginationRemovedCount: 0
+      }
+    },
+    warnings: Array.from(new Set(warnings))
+  };
+};
@@ -0,0 +1,147 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const SCREENSHOT_BUCKET = 'screenshots';
+export const ASSET_BUCKET = 'assets';
+
+export interface ImageStorage {
+  upload: (path: string, blob: Blob) => Promise<string>;
+  remove: (paths: string[]) => Promise<void>;
+  // Maps a URL returned by `upload` back to its storage path
+  getPath: (url: string) => string | null;
+}
+
+export interface UploadedScreenshot {
+  url: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Files stored in a public Supabase Storage bucket
+ */
+export const createSupabaseStorage = (bucketName: string): ImageStorage => ({
+  upload: async (path, blob) => {
+    const bucket = supabase.storage.from(bucketName);
+    const { error } = await bucket.upload(path, blob, { contentType: blob.type, upsert: false });
+    if (error) throw error;
+    return bucket.getPublicUrl(path).data.publicUrl;
+  },
+  remove: async (paths) => {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(bucketName).remove(paths);
+    if (error) throw error;
+  },
+  getPath: (url) => {
+    const marker = `/storage/v1/object/public/${bucketName}/`;
+    const index = url.indexOf(marker);
+    return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+  }
+});
+
+export const supabaseImageStorage = createSupabaseStorage(SCREENSHOT_BUCKET);
+
+// Files referenced by Webflow payloads, such as images, Lottie files and fonts
+export const supabaseAssetStorage = createSupabaseStorage(ASSET_BUCKET);
+
+/**
+ * Images kept in memory as object URLs, a stand-in for tests and local use
+ */
+export const createMemoryImageStorage = (): ImageStorage & { files: Map<string, Blob> } => {
+  const files = new Map<string, Blob>();
+  const urls = new Map<string, string>();
+
+  return {
+    files,
+    upload: async (path, blob) => {
+      if (files.has(path)) throw new Error(`The resource already exists: ${path}`);
+      const url = URL.createObjectURL(blob);
+      files.set(path, blob);
+      urls.set(url, path);
+      return url;
+    },
+    remove: async (paths) => {
+      paths.forEach(path => {
+        files.delete(path);
+        urls.forEach((storedPath, url) => {
+          if (storedPath === path) {
+            URL.revokeObjectURL(url);
+            urls.delete(url);
+          }
+        });
+      });
+    },
+    getPath: (url) => urls.get(url) || null
+  };
+};
+
+/**
+ * Scale an image down to a thumbnail no wider than `maxWidth`
+ */
+export const createThumbnail = async (image: Blob, maxWidth: number = 640): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, maxWidth / bitmap.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Failed to encode thumbnail')),
+      'image/webp',
+      0.8
+    );
+  });
+};
+
+const getExtension = (type: string): string => {
+  const subtype = type.split('/')[1] || 'png';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/\+.*$/, '');
+};
+
+/**
+ * Upload an image and a thumbnail of it. Files live under the user's folder
+ * so storage policies can restrict writes to the owner.
+ */
+export const uploadScreenshot = async (
+  image: Blob,
+  userId: string,
+  storage: ImageStorage = supabaseImageStorage
+): Promise<UploadedScreenshot> => {
+  const folder = `${userId}/${crypto.randomUUID()}`;
+  const thumbnail = await createThumbnail(image);
+
+  const url = await storage.upload(`${folder}/original.${getExtension(image.type)}`, image);
+  try {
+    const thumbnailUrl = await storage.upload(`${folder}/thumbnail.webp`, thumbnail);
+    return { url, thumbnailUrl };
+  } catch (error) {
+    // Don't leave a lone original behind
+    await removeScreenshots([url], storage).catch(() => undefined);
+    throw error;
+  }
+};
+
+/**
+ * Remove uploaded files by URL. URLs that were not uploaded to the
+ * storage, such as legacy inline data URLs, are ignored.
+ */
+export const removeStoredFiles = async (
+  urls: (string | null | undefined)[],
+  storage: ImageStorage
+): Promise<void> => {
+  const paths = urls
+    .filter(Boolean)
+    .map(url => storage.getPath(url as string))
+    .filter(Boolean) as string[];
+
+  await storage.remove(paths);
+};
+
+export const removeScreenshots = (
+  urls: (string | null | undefined)[],
+  storage: ImageStorage = supabaseImageStorage
+): Promise<void> => removeStoredFiles(urls, storage);
@@ -0,0 +1,101 @@
+import { Tables } from '@/integrations/supabase/types';
+import { getBackend, LibraryValues, NewLibraryItem } from '@/integrations/backend';
+import { LibraryRole } from './libraryPermissions';
+import { Workspace } from './workspaces';
+
+export interface UserLibrary {
+  id: string;
+  name: string;
+  is_shared: boolean;
+  created_at: string;
+  created_by?: string;
+  workspace_id?: string | null;
+  // Who shared it, for libraries the user doesn't own
+  shared_by?: string;
+  // The user's role, when the list it came from knows it
+  role?: LibraryRole;
+}
+
+export type LibraryItem = Tables<'shared_clipboard_items'>;
+
+/**
+ * Every library the user can open, grouped the way the sidebar shows them
+ */
+export interface AccessibleLibraries {
+  own: UserLibrary[];
+  // Shared with the user directly
+  shared: UserLibrary[];
+  workspaces: Workspace[];
+  // Libraries in the user's workspaces, including their own
+  workspaceLibraries: UserLibrary[];
+}
+
+export const EMPTY_LIBRARIES: AccessibleLibraries = {
+  own: [],
+  shared: [],
+  workspaces: [],
+  workspaceLibraries: []
+};
+
+/**
+ * Libraries in one list, without duplicates
+ */
+export const flattenLibraries = (libraries: AccessibleLibraries): UserLibrary[] => {
+  const seen = new Set<string>();
+  return [...libraries.own, ...libraries.shared, ...libraries.workspaceLibraries].filter(library => {
+    if (seen.has(library.id)) return false;
+    seen.add(library.id);
+    return true;
+  });
+};
+
+export const fetchAccessibleLibraries = (userId: string): Promise<AccessibleLibraries> =>
+  getBackend().libraries.listAccessible(userId);
+
+export const fetchLibrary = (libraryId: string, userId: string): Promise<UserLibrary> =>
+  getBackend().libraries.get(libraryId, userId);
+
+export const createLibrary = (
+  userId: string,
+  values: { name: string; is_shared: boolean }
+): Promise<UserLibrary> => getBackend().libraries.create(userId, values);
+
+export const updateLibrary = (libraryId: string, values: LibraryValues, userId: string): Promise<UserLibrary> =>
+  getBackend().libraries.update(libraryId, values, userId);
+
+/**
+ * Delete a library and its memberships. Its items are kept without a
+ * library, so their screenshots stay in storage.
+ */
+export const deleteLibrary = (libraryId: string): Promise<void> => getBackend().libraries.remove(libraryId);
+
+export const countLibraryItems = (libraryId: string): Promise<number> => getBackend().items.count(libraryId);
+
+/**
+ * Items of a library, newest first
+ */
+export const fetchLibraryItems = (libraryId: string): Promise<LibraryItem[]> =>
+  getBackend().items.list([libraryId]);
+
+/**
+ * Items of several libraries at once, newest first
+ */
+export const fetchItemsInLibraries = (libraryIds: string[]): Promise<LibraryItem[]> =>
+  getBackend().items.list(libraryIds);
+
+export const createLibraryItem = (values: NewLibraryItem): Promise<LibraryItem> => getBackend().items.create(values);
+
+/**
+ * Save a new title or content. Resolves to null when someone else saved the
+ * item after `expectedUpdatedAt`.
+ */
+export const updateLibraryItem = (
+  itemId: string,
+  values: { title?: string; content?: string },
+  expectedUpdatedAt?: string
+): Promise<LibraryItem | null> => getBackend().items.update(itemId, values, expectedUpdatedAt);
+
+export const deleteLibraryItem = (itemId: string): Promise<void> => getBackend().items.remove(itemId);
+
+export const moveLibraryItem = (itemId: string, libraryId: string): Promise<void> =>
+  getBackend().items.move(itemId, libraryId);
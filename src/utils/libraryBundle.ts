@@ -0,0 +1,289 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ensureLibraryTags, fetchItemTags, fetchLibraryTags, setItemTags } from './tagUtils';
+import { removeScreenshots, uploadScreenshot, UploadedScreenshot } from './imageStorage';
+import { downloadFile, toFileName } from './fileUtils';
+
+export const BUNDLE_FORMAT = 'webflow-library-bundle';
+export const BUNDLE_VERSION = 1;
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface BundleItem {
+  title: string;
+  content: string;
+  content_type: string;
+  created_at: string;
+  tags: string[];
+  // Screenshot embedded as a data URL so the bundle is a single file
+  screenshot: string | null;
+}
+
+export interface LibraryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  library: {
+    name: string;
+  };
+  tags: string[];
+  items: BundleItem[];
+}
+
+export interface BundleImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: string[];
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fetchImageAsDataUrl = async (url: string): Promise<string | null> => {
+  // Legacy items store the screenshot inline already
+  if (url.startsWith('data:')) return url;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    return await blobToDataUrl(await response.blob());
+  } catch (err) {
+    console.error(`Error fetching screenshot ${url}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Collect a library's items, tags and screenshots into a bundle, or only
+ * the given items
+ */
+export const exportLibraryBundle = async (libraryId: string, itemIds?: string[]): Promise<LibraryBundle> => {
+  const { data: library, error: libraryError } = await supabase
+    .from('user_libraries')
+    .select('name')
+    .eq('id', libraryId)
+    .single();
+
+  if (libraryError) throw libraryError;
+
+  let query = supabase
+    .from('shared_clipboard_items')
+    .select('id, title, content, content_type, created_at, screenshot_url')
+    .eq('library_id', libraryId);
+
+  if (itemIds) {
+    query = query.in('id', itemIds);
+  }
+
+  const { data: items, error: itemsError } = await query.order('created_at', { ascending: true });
+
+  if (itemsError) throw itemsError;
+
+  const [tags, itemTags] = await Promise.all([
+    fetchLibraryTags(libraryId),
+    fetchItemTags((items || []).map(item => item.id))
+  ]);
+
+  const bundleItems: BundleItem[] = [];
+  // One at a time, so large libraries don't hold every download in flight
+  for (const item of items || []) {
+    bundleItems.push({
+      title: item.title,
+      content: item.content,
+      content_type: item.content_type,
+      created_at: item.created_at,
+      tags: (itemTags[item.id] || []).map(tag => tag.name),
+      screenshot: item.screenshot_url ? await fetchImageAsDataUrl(item.screenshot_url) : null
+    });
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    library: { name: library.name },
+    tags: tags.map(tag => tag.name),
+    items: bundleItems
+  };
+};
+
+export const downloadLibraryBundle = (bundle: LibraryBundle): void => {
+  downloadFile(`${toFileName(bundle.library.name)}.library.json`, JSON.stringify(bundle), 'application/json');
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+/**
+ * Read and validate a bundle file. Throws with a readable message when the
+ * file is not a bundle or was written by a newer version of the app.
+ */
+export const parseLibraryBundle = (text: string): LibraryBundle => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || data.format !== BUNDLE_FORMAT) {
+    throw new Error('The file is not a library bundle');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${data.version} is not supported. Update the app and try again.`);
+  }
+  if (!Array.isArray(data.items)) {
+    throw new Error('The bundle has no items');
+  }
+
+  const library = data.library as { name?: unknown } | undefined;
+  const items = data.items.map((raw, index): BundleItem => {
+    const item = raw as Record<string, unknown>;
+    if (!item || typeof item.title !== 'string' || typeof item.content !== 'string') {
+      throw new Error(`Item ${index + 1} is missing its title or content`);
+    }
+
+    return {
+      title: item.title,
+      content: item.content,
+      content_type: typeof item.content_type === 'string' ? item.content_type : 'text/plain',
+      created_at: typeof item.created_at === 'string' ? item.created_at : new Date().toISOString(),
+      tags: isStringArray(item.tags) ? item.tags : [],
+      screenshot: typeof item.screenshot === 'string' && item.screenshot.startsWith('data:image/')
+        ? item.screenshot
+        : null
+    };
+  });
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: data.version,
+    exported_at: typeof data.exported_at === 'string' ? data.exported_at : '',
+    library: { name: typeof library?.name === 'string' ? library.name : 'Imported library' },
+    tags: isStringArray(data.tags) ? data.tags : [],
+    items
+  };
+};
+
+/**
+ * First free title of the form "Title (2)", "Title (3)", ...
+ */
+const getUniqueTitle = (title: string, taken: Set<string>): string => {
+  let counter = 2;
+  while (taken.has(`${title} (${counter})`.toLowerCase())) counter++;
+  return `${title} (${counter})`;
+};
+
+/**
+ * Add a bundle's items to a library. Items whose title already exists in the
+ * library are skipped, overwritten or added under a new title depending on
+ * `conflict`. A failing item doesn't stop the import; its title is reported.
+ */
+export const importLibraryBundle = async (
+  bundle: LibraryBundle,
+  libraryId: string,
+  userId: string,
+  conflict: ConflictStrategy,
+  onProgress?: (done: number, total: number) => void
+): Promise<BundleImportResult> => {
+  const result: BundleImportResult = { created: 0, updated: 0, skipped: 0, failed: [] };
+
+  const { data: existing, error } = await supabase
+    .from('shared_clipboard_items')
+    .select('id, title, screenshot_url, thumbnail_url')
+    .eq('library_id', libraryId);
+
+  if (error) throw error;
+
+  const byTitle = new Map((existing || []).map(item => [item.title.toLowerCase(), item]));
+  const taken = new Set(byTitle.keys());
+
+  // Keep the bundle's vocabulary, including tags no item uses
+  await ensureLibraryTags(libraryId, bundle.tags, userId);
+
+  for (const [index, item] of bundle.items.entries()) {
+    const match = byTitle.get(item.title.toLowerCase());
+
+    if (match && conflict === 'skip') {
+      result.skipped++;
+      onProgress?.(index + 1, bundle.items.length);
+      continue;
+    }
+
+    let screenshot: UploadedScreenshot | null = null;
+    let saved = false;
+    try {
+      if (item.screenshot) {
+        const image = await (await fetch(item.screenshot)).blob();
+        screenshot = await uploadScreenshot(image, userId);
+      }
+
+      const fields = {
+        content: item.content,
+        content_type: item.content_type,
+        screenshot_url: screenshot?.url || null,
+        thumbnail_url: screenshot?.thumbnailUrl || null
+      };
+
+      let itemId: string;
+      if (match && conflict === 'overwrite') {
+        const { error: updateError } = await supabase
+          .from('shared_clipboard_items')
+          .update({ ...fields, title: item.title })
+          .eq('id', match.id);
+
+        if (updateError) throw updateError;
+        saved = true;
+
+        // The replaced screenshot is no longer referenced
+        await removeScreenshots([match.screenshot_url, match.thumbnail_url]).catch(() => undefined);
+        byTitle.set(item.title.toLowerCase(), { ...match, ...fields });
+        itemId = match.id;
+        result.updated++;
+      } else {
+        const title = match ? getUniqueTitle(item.title, taken) : item.title;
+        const { data, error: insertError } = await supabase
+          .from('shared_clipboard_items')
+          .insert({
+            ...fields,
+            title,
+            created_at: item.created_at,
+            created_by: userId,
+            library_id: libraryId
+          })
+          .select('id')
+          .single();
+
+        if (insertError) throw insertError;
+        saved = true;
+
+        // Later bundle items with the same title conflict with this one
+        byTitle.set(title.toLowerCase(), { ...fields, id: data.id, title });
+        taken.add(title.toLowerCase());
+        itemId = data.id;
+        result.created++;
+      }
+
+      const overwritten = !!match && conflict === 'overwrite';
+      if (item.tags.length > 0 || overwritten) {
+        await setItemTags(itemId, libraryId, item.tags, userId);
+      }
+    } catch (err) {
+      console.error(`Error importing "${item.title}":`, err);
+      if (screenshot && !saved) {
+        // Nothing references the upload
+        await removeScreenshots([screenshot.url, screenshot.thumbnailUrl]).catch(() => undefined);
+      }
+      result.failed.push(item.title);
+    }
+
+    onProgress?.(index + 1, bundle.items.length);
+  }
+
+  return result;
+};
@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LibraryRole } from './libraryPermissions';
+
+export interface LibraryInvitation {
+  id: string;
+  library_id: string;
+  email: string;
+  role: LibraryRole;
+  token: string;
+  created_at: string;
+  last_sent_at: string;
+  expires_at: string;
+}
+
+/**
+ * What the invite page shows about an invitation
+ */
+export interface InvitationDetails {
+  library_id: string;
+  library_name: string;
+  email: string;
+  role: LibraryRole;
+  invited_by_email: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+const INVITATION_DAYS = 14;
+
+const INVITATION_COLUMNS = 'id, library_id, email, role, token, created_at, last_sent_at, expires_at';
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const getInvitationLink = (token: string): string => `${window.location.origin}/invite/${token}`;
+
+export const isInvitationExpired = (invitation: { expires_at: string }): boolean =>
+  new Date(invitation.expires_at).getTime() < Date.now();
+
+const expiresFromNow = (): string => new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Email the invite link from the `send-library-invitation` edge function,
+ * which uses Supabase's invite template. Confirming the email creates the
+ * account and turns every pending invitation for the address into a
+ * membership.
+ */
+export const sendInvitationEmail = async (invitation: LibraryInvitation): Promise<void> => {
+  const { error } = await supabase.functions.invoke('send-library-invitation', {
+    body: { invitation_id: invitation.id, site_url: window.location.origin }
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Invitations of a library that haven't been accepted, newest first
+ */
+export const fetchPendingInvitations = async (libraryId: string): Promise<LibraryInvitation[]> => {
+  const { data, error } = await supabase
+    .from('library_invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('library_id', libraryId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Invite an address that has no account yet. An existing pending invitation
+ * for the address is updated and sent again instead of duplicated.
+ */
+export const createInvitation = async (
+  libraryId: string,
+  email: string,
+  role: LibraryRole,
+  userId: string
+): Promise<LibraryInvitation> => {
+  const normalized = normalizeEmail(email);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('library_invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('library_id', libraryId)
+    .eq('email', normalized)
+    .is('accepted_at', null)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const { data, error } = existing
+    ? await supabase
+        .from('library_invitations')
+        .update({ role, last_sent_at: new Date().toISOString(), expires_at: expiresFromNow() })
+        .eq('id', existing.id)
+        .select(INVITATION_COLUMNS)
+        .single()
+    : await supabase
+        .from('library_invitations')
+        .insert({ library_id: libraryId, email: normalized, role, invited_by: userId })
+        .select(INVITATION_COLUMNS)
+        .single();
+
+  if (error) throw error;
+
+  await sendInvitationEmail(data);
+  return data;
+};
+
+/**
+ * Send an invitation again and restart its expiry
+ */
+export const resendInvitation = async (invitation: LibraryInvitation): Promise<LibraryInvitation> => {
+  const { data, error } = await supabase
+    .from('library_invitations')
+    .update({ last_sent_at: new Date().toISOString(), expires_at: expiresFromNow() })
+    .eq('id', invitation.id)
+    .select(INVITATION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  await sendInvitationEmail(data);
+  return data;
+};
+
+export const revokeInvitation = async (invitationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('library_invitations')
+    .delete()
+    .eq('id', invitationId);
+
+  if (error) throw error;
+};
+
+/**
+ * Look up an invitation by the token in its link. Returns null when it was
+ * revoked or never existed.
+ */
+export const fetchInvitation = async (token: string): Promise<InvitationDetails | null> => {
+  const { data, error } = await supabase.rpc('get_library_invitation', { invitation_token: token });
+
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+/**
+ * Join the invitation's library as the signed-in user and return its id
+ */
+export const acceptInvitation = async (token: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_library_invitation', { invitation_token: token });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,113 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { getBackend } from '@/integrations/backend';
+
+export type LibraryRole = Database['public']['Enums']['library_role'];
+
+// Lowest to highest, matching the order of the database enum
+export const LIBRARY_ROLES: LibraryRole[] = ['viewer', 'contributor', 'editor', 'admin', 'owner'];
+
+export const ROLE_LABELS: Record<LibraryRole, string> = {
+  viewer: 'Viewer',
+  contributor: 'Contributor',
+  editor: 'Editor',
+  admin: 'Admin',
+  owner: 'Owner'
+};
+
+export const ROLE_DESCRIPTIONS: Record<LibraryRole, string> = {
+  viewer: 'Can view and copy items',
+  contributor: 'Can add items and change their own',
+  editor: 'Can change and delete any item',
+  admin: 'Can also manage who has access',
+  owner: 'Can rename, delete and transfer the library'
+};
+
+/**
+ * What the current user may do in a library, as resolved by the database
+ */
+export interface LibraryPermissions {
+  role: LibraryRole | null;
+  can_add_items: boolean;
+  can_edit_items: boolean;
+  can_delete_items: boolean;
+  can_manage_members: boolean;
+  can_manage_library: boolean;
+}
+
+export const NO_PERMISSIONS: LibraryPermissions = {
+  role: null,
+  can_add_items: false,
+  can_edit_items: false,
+  can_delete_items: false,
+  can_manage_members: false,
+  can_manage_library: false
+};
+
+// Where a member's access comes from: owning the library, a membership of
+// the library itself, or the library's workspace
+export type LibraryMemberSource = 'owner' | 'library' | 'workspace';
+
+export interface LibraryMember {
+  // Only set for library memberships, the other sources have no row to change
+  permission_id: string | null;
+  user_id: string;
+  email: string | null;
+  role: LibraryRole;
+  source: LibraryMemberSource;
+  created_at: string;
+}
+
+export const isRoleAtLeast = (role: LibraryRole | null, minimum: LibraryRole): boolean =>
+  role !== null && LIBRARY_ROLES.indexOf(role) >= LIBRARY_ROLES.indexOf(minimum);
+
+/**
+ * Roles a member with the given role can hand out. Only the owner can make
+ * admins, and ownership is transferred rather than assigned.
+ */
+export const getAssignableRoles = (role: LibraryRole | null): LibraryRole[] => {
+  if (role === 'owner') return ['viewer', 'contributor', 'editor', 'admin'];
+  if (role === 'admin') return ['viewer', 'contributor', 'editor'];
+  return [];
+};
+
+/**
+ * Whether a member may change or delete an item: editors can change any
+ * item, contributors only their own
+ */
+export const canChangeItem = (
+  permissions: LibraryPermissions,
+  item: { created_by: string | null },
+  userId: string | undefined
+): boolean => permissions.can_edit_items || (permissions.can_add_items && item.created_by === userId);
+
+/**
+ * Whether a member may delete an item: editors any item, authors their own
+ */
+export const canDeleteItem = (
+  permissions: LibraryPermissions,
+  item: { created_by: string | null },
+  userId: string | undefined
+): boolean => permissions.can_delete_items || (permissions.can_add_items && item.created_by === userId);
+
+export const fetchLibraryPermissions = (libraryId: string): Promise<LibraryPermissions> =>
+  getBackend().permissions.get(libraryId);
+
+/**
+ * Everyone with access to a library, the owner first. Workspace members
+ * with a library membership are listed once, with the overriding role.
+ */
+export const fetchLibraryMembers = (libraryId: string): Promise<LibraryMember[]> =>
+  getBackend().permissions.members(libraryId);
+
+/**
+ * Make a member the owner. The previous owner stays on as an admin.
+ */
+export const transferLibraryOwnership = async (libraryId: string, newOwnerId: string): Promise<void> => {
+  const { error } = await supabase.rpc('transfer_library_ownership', {
+    library_id: libraryId,
+    new_owner_id: newOwnerId
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertClassName,
+  detectNamingRuleSet,
+  formatClassName,
+  NAMING_RULE_SETS,
+  NamingRuleSet,
+  parseClassName,
+  validateRuleSet
+} from './namingConventions';
+
+const ruleSet = (id: string) => NAMING_RULE_SETS.find(entry => entry.id === id)!;
+
+const custom = (changes: Partial<NamingRuleSet>): NamingRuleSet => ({
+  id: 'custom',
+  label: 'Custom',
+  elementSeparator: '_',
+  wordSeparator: '-',
+  modifierSeparator: '--',
+  wordCase: 'lower',
+  ...changes
+});
+
+describe('parseClassName', () => {
+  it('splits a BEM name into block, elements and modifier', () => {
+    expect(parseClassName('hero-card__title-wrapper--large', ruleSet('bem'))).toEqual({
+      block: ['hero', 'card'],
+      elements: [['title', 'wrapper']],
+      modifier: ['large']
+    });
+  });
+
+  it('reads a Client-First section the other way round', () => {
+    expect(parseClassName('section_hero', ruleSet('client-first'))).toEqual({
+      block: ['hero', 'section'],
+      elements: [],
+      modifier: []
+    });
+  });
+
+  it('splits camel case words at capitals', () => {
+    expect(parseClassName('heroCard_titleWrapper', ruleSet('camel'))).toEqual({
+      block: ['hero', 'card'],
+      elements: [['title', 'wrapper']],
+      modifier: []
+    });
+  });
+
+  it('takes the first word as the block without an element separator', () => {
+    expect(parseClassName('hero-title', custom({ elementSeparator: '' }))).toEqual({
+      block: ['hero'],
+      elements: [['title']],
+      modifier: []
+    });
+  });
+});
+
+describe('formatClassName', () => {
+  it('runs elements on as words without an element separator', () => {
+    const parts = { block: ['hero'], elements: [['title', 'wrapper']], modifier: [] };
+    expect(formatClassName(parts, custom({ elementSeparator: '' }))).toBe('hero-title-wrapper');
+    expect(formatClassName(parts, custom({ elementSeparator: '', wordSeparator: '', wordCase: 'camel' }))).toBe('heroTitleWrapper');
+  });
+
+  it('appends the modifier when the system has no modifier separator', () => {
+    expect(formatClassName({ block: ['card'], elements: [], modifier: ['large'] }, ruleSet('kebab'))).toBe('card-large');
+  });
+});
+
+describe('convertClassName', () => {
+  it('converts between the built-in systems', () => {
+    expect(convertClassName('hero_title-wrapper', ruleSet('client-first'), ruleSet('bem'))).toBe('hero__title-wrapper');
+    expect(convertClassName('hero__title--large', ruleSet('bem'), ruleSet('camel'))).toBe('hero_title--large');
+    expect(convertClassName('hero-section', ruleSet('kebab'), ruleSet('client-first'))).toBe('section_hero');
+    expect(convertClassName('heroCard_title', ruleSet('camel'), ruleSet('bem'))).toBe('hero-card__title');
+  });
+
+  it('keeps names whole with an empty element separator', () => {
+    expect(convertClassName('hero-title', ruleSet('kebab'), custom({ elementSeparator: '' }))).toBe('hero-title');
+    expect(convertClassName('hero_title', ruleSet('client-first'), custom({ elementSeparator: '' }))).toBe('hero-title');
+    expect(convertClassName('hero-title', custom({ elementSeparator: '' }), ruleSet('bem'))).toBe('hero__title');
+  });
+
+  it('leaves names without a block alone', () => {
+    expect(convertClassName('--large', ruleSet('bem'), ruleSet('kebab'))).toBe('--large');
+  });
+});
+
+describe('detectNamingRuleSet', () => {
+  it('picks the system most names follow', () => {
+    expect(detectNamingRuleSet(['hero__title', 'card--large', 'nav-link'])?.id).toBe('bem');
+    expect(detectNamingRuleSet(['section_hero', 'hero_title'])?.id).toBe('client-first');
+    expect(detectNamingRuleSet(['heroTitle', 'navLink'])?.id).toBe('camel');
+  });
+
+  it('returns null when no name fits a system', () => {
+    expect(detectNamingRuleSet(['hero', 'card'])).toBeNull();
+  });
+});
+
+describe('validateRuleSet', () => {
+  it('accepts the built-in systems', () => {
+    NAMING_RULE_SETS.forEach(entry => expect(validateRuleSet(entry)).toBeNull());
+  });
+
+  it('rejects an empty element separator', () => {
+    expect(validateRuleSet(custom({ elementSeparator: '' }))).toBe('Enter an element separator.');
+  });
+
+  it('rejects characters class names cannot contain', () => {
+    expect(validateRuleSet(custom({ wordSeparator: '.' }))).toBe('Separators can only use - and _.');
+  });
+
+  it('rejects a modifier separator found inside another separator', () => {
+    expect(validateRuleSet(custom({ modifierSeparator: '-' }))).toMatch(/must differ/);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Class naming systems and conversion between them. A class name is split
+ * into a block, optional elements and an optional modifier, each a list of
+ * lower-case words, and then formatted with the target rule set.
+ */
+
+export interface NamingRuleSet {
+  id: string;
+  label: string;
+  // Separates the block from its elements, e.g. `_` in `hero_title`
+  elementSeparator: string;
+  // Separates words inside a block or element, e.g. `-` in `title-wrapper`
+  wordSeparator: string;
+  // Separates the modifier, e.g. `--` in `hero__title--large`. Empty when the
+  // system has no in-name modifiers, the modifier words are then appended.
+  modifierSeparator: string;
+  wordCase: 'lower' | 'camel';
+  // Client-First puts `section` first: `hero-section` becomes `section_hero`
+  sectionFirst?: boolean;
+}
+
+export interface ClassNameParts {
+  block: string[];
+  elements: string[][];
+  modifier: string[];
+}
+
+export const NAMING_RULE_SETS: NamingRuleSet[] = [
+  {
+    id: 'client-first',
+    label: 'Client-First',
+    elementSeparator: '_',
+    wordSeparator: '-',
+    modifierSeparator: '',
+    wordCase: 'lower',
+    sectionFirst: true
+  },
+  {
+    id: 'bem',
+    label: 'BEM',
+    elementSeparator: '__',
+    wordSeparator: '-',
+    modifierSeparator: '--',
+    wordCase: 'lower'
+  },
+  {
+    id: 'kebab',
+    label: 'Kebab case',
+    elementSeparator: '-',
+    wordSeparator: '-',
+    modifierSeparator: '',
+    wordCase: 'lower'
+  },
+  {
+    id: 'camel',
+    label: 'Camel case',
+    elementSeparator: '_',
+    wordSeparator: '',
+    modifierSeparator: '--',
+    wordCase: 'camel'
+  }
+];
+
+const splitWords = (segment: string, ruleSet: NamingRuleSet): string[] => {
+  const words = ruleSet.wordSeparator
+    ? segment.split(ruleSet.wordSeparator)
+    : segment.split(/(?=[A-Z])/);
+
+  return words.map(word => word.toLowerCase()).filter(Boolean);
+};
+
+const joinWords = (words: string[], ruleSet: NamingRuleSet): string => {
+  if (ruleSet.wordCase === 'camel') {
+    return words
+      .map((word, i) => i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+      .join(ruleSet.wordSeparator);
+  }
+  return words.join(ruleSet.wordSeparator);
+};
+
+/**
+ * Split a class name into its parts according to a rule set
+ */
+export const parseClassName = (name: string, ruleSet: NamingRuleSet): ClassNameParts => {
+  let rest = name;
+  let modifier: string[] = [];
+
+  if (ruleSet.modifierSeparator && rest.includes(ruleSet.modifierSeparator)) {
+    const index = rest.indexOf(ruleSet.modifierSeparator);
+    modifier = splitWords(rest.slice(index + ruleSet.modifierSeparator.length), ruleSet);
+    rest = rest.slice(0, index);
+  }
+
+  // Without a distinct element separator the first word is taken as the block
+  if (!ruleSet.elementSeparator || ruleSet.elementSeparator === ruleSet.wordSeparator) {
+    const [block, ...element] = splitWords(rest, ruleSet);
+    return {
+      block: block ? [block] : [],
+      elements: element.length > 0 ? [element] : [],
+      modifier
+    };
+  }
+
+  const [block, ...elements] = rest.split(ruleSet.elementSeparator);
+  const parts: ClassNameParts = {
+    block: splitWords(block, ruleSet),
+    elements: elements.map(element => splitWords(element, ruleSet)).filter(words => words.length > 0),
+    modifier
+  };
+
+  // `section_hero` reads as a hero section, not a section with a hero element
+  if (ruleSet.sectionFirst && parts.block.length === 1 && parts.block[0] === 'section' && parts.elements.length === 1) {
+    return { block: [...parts.elements[0], 'section'], elements: [], modifier };
+  }
+
+  return parts;
+};
+
+/**
+ * Build a class name from its parts according to a rule set
+ */
+export const formatClassName = (parts: ClassNameParts, ruleSet: NamingRuleSet): string => {
+  let { block, elements } = parts;
+  const words = [...block, ...elements.flat()];
+
+  if (ruleSet.sectionFirst && elements.length <= 1 && words.length > 1 && words[words.length - 1] === 'section') {
+    block = ['section'];
+    elements = [words.slice(0, -1)];
+  }
+
+  // Without an element separator the elements run on as more words
+  const segments = (ruleSet.elementSeparator ? [block, ...elements] : [[...block, ...elements.flat()]])
+    .filter(words => words.length > 0)
+    .map(words => joinWords(words, ruleSet));
+  let name = segments.join(ruleSet.elementSeparator);
+
+  if (parts.modifier.length > 0) {
+    name += ruleSet.modifierSeparator
+      ? ruleSet.modifierSeparator + joinWords(parts.modifier, ruleSet)
+      : ruleSet.wordSeparator + joinWords(parts.modifier, ruleSet);
+  }
+
+  return name;
+};
+
+/**
+ * Why a rule set can't be used, or null when it can. Separators are made of
+ * `-` and `_`, the characters Webflow allows besides letters and digits.
+ */
+export const validateRuleSet = (ruleSet: NamingRuleSet): string | null => {
+  const { elementSeparator, wordSeparator, modifierSeparator } = ruleSet;
+
+  if (!elementSeparator) return 'Enter an element separator.';
+  if (![elementSeparator, wordSeparator, modifierSeparator].every(separator => /^[-_]*$/.test(separator))) {
+    return 'Separators can only use - and _.';
+  }
+  // A modifier separator found inside the others would cut names at the wrong place
+  if (modifierSeparator && [elementSeparator, wordSeparator].some(separator => separator.includes(modifierSeparator))) {
+    return 'The modifier separator must differ from the other separators.';
+  }
+  return null;
+};
+
+/**
+ * Convert a class name between two naming systems
+ */
+export const convertClassName = (name: string, from: NamingRuleSet, to: NamingRuleSet): string => {
+  const parts = parseClassName(name, from);
+  if (parts.block.length === 0) return name;
+  return formatClassName(parts, to);
+};
+
+/**
+ * Guess which rule set a list of class names follows
+ */
+export const detectNamingRuleSet = (names: string[]): NamingRuleSet | null => {
+  const scores = new Map<string, number>();
+  const score = (id: string) => scores.set(id, (scores.get(id) || 0) + 1);
+
+  names.forEach(name => {
+    if (name.includes('__') || name.includes('--')) {
+      score('bem');
+    } else if (/^[a-z0-9-]+_[a-z0-9_-]+$/.test(name)) {
+      score('client-first');
+    } else if (/^[a-z][a-zA-Z0-9]*[A-Z][a-zA-Z0-9]*$/.test(name)) {
+      score('camel');
+    } else if (/^[a-z0-9]+(-[a-z0-9]+)+$/.test(name)) {
+      score('kebab');
+    }
+  });
+
+  const best = Array.from(scores.entries()).sort((a, b) => b[1] - a[1])[0];
+  return best ? NAMING_RULE_SETS.find(ruleSet => ruleSet.id === best[0]) || null : null;
+};
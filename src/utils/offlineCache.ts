@@ -0,0 +1,48 @@
+import { isNetworkError } from './syncQueue';
+
+const CACHE_PREFIX = 'offline-cache:';
+
+const storageKey = (key: readonly unknown[]) => `${CACHE_PREFIX}${JSON.stringify(key)}`;
+
+export const readOfflineCache = <T>(key: readonly unknown[]): T | undefined => {
+  try {
+    const stored = localStorage.getItem(storageKey(key));
+    return stored ? JSON.parse(stored) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeOfflineCache = (key: readonly unknown[], data: unknown) => {
+  try {
+    localStorage.setItem(storageKey(key), JSON.stringify(data));
+  } catch (error) {
+    // A full cache only costs the offline copy
+    console.error('Error caching data for offline use:', error);
+  }
+};
+
+/**
+ * Fetch and keep a copy for later. Without a connection, the last copy is
+ * returned instead of failing.
+ */
+export const withOfflineCache = async <T>(key: readonly unknown[], fetcher: () => Promise<T>): Promise<T> => {
+  try {
+    const data = await fetcher();
+    writeOfflineCache(key, data);
+    return data;
+  } catch (error) {
+    const cached = readOfflineCache<T>(key);
+    if (cached !== undefined && isNetworkError(error)) return cached;
+    throw error;
+  }
+};
+
+/**
+ * Drop every cached copy, e.g. when the user signs out
+ */
+export const clearOfflineCache = (): void => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,118 @@
+import { BulkResult, runBulk } from './bulkItems';
+import { removeScreenshots } from './imageStorage';
+import { deleteLibraryItem, LibraryItem } from './libraries';
+
+// Deletes that can still be undone. They are kept in storage, so a reload
+// or a closed tab sends them later rather than dropping them.
+const STORAGE_KEY = 'pending-deletes';
+
+interface PendingDelete {
+  item_id: string;
+  user_id: string;
+  due_at: string;
+  screenshots: (string | null)[];
+}
+
+const readPending = (): PendingDelete[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const savePending = (pending: PendingDelete[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+  } catch (error) {
+    // The delete still runs at the end of the undo window, just not after a reload
+    console.error('Error saving pending deletes:', error);
+  }
+};
+
+let pending = readPending();
+// Deletes being sent, which can no longer be undone
+const sending = new Set<string>();
+
+export const isDeletePending = (itemId: string): boolean =>
+  sending.has(itemId) || pending.some(entry => entry.item_id === itemId);
+
+/**
+ * A library's items without the ones waiting to be deleted
+ */
+export const withoutPendingDeletes = (items: LibraryItem[]): LibraryItem[] =>
+  items.filter(item => !isDeletePending(item.id));
+
+const sendDeletes = async (entries: PendingDelete[]): Promise<BulkResult> => {
+  entries.forEach(entry => sending.add(entry.item_id));
+  const result = await runBulk(entries.map(entry => entry.item_id), async itemId => {
+    await deleteLibraryItem(itemId);
+    return itemId;
+  });
+
+  // Failed deletes are dropped too, so the items show up again
+  const ids = entries.map(entry => entry.item_id);
+  pending = readPending().filter(entry => !ids.includes(entry.item_id));
+  savePending(pending);
+  ids.forEach(itemId => sending.delete(itemId));
+
+  // The items are gone, so a failed cleanup only leaves unused files behind
+  removeScreenshots(
+    entries.filter(entry => result.succeeded.includes(entry.item_id)).flatMap(entry => entry.screenshots)
+  ).catch(err => console.error('Error removing screenshots:', err));
+
+  return result;
+};
+
+/**
+ * Delete items once `delay` has passed. Returns a function that cancels the
+ * delete, which resolves to false when the delete was already sent.
+ */
+export const scheduleItemDeletes = (
+  items: LibraryItem[],
+  userId: string,
+  delay: number,
+  onDeleted: (result: BulkResult) => void
+): (() => boolean) => {
+  const dueAt = new Date(Date.now() + delay).toISOString();
+  const entries: PendingDelete[] = items.map(item => ({
+    item_id: item.id,
+    user_id: userId,
+    due_at: dueAt,
+    screenshots: [item.screenshot_url, item.thumbnail_url]
+  }));
+  const ids = entries.map(entry => entry.item_id);
+  pending = [...readPending().filter(entry => !ids.includes(entry.item_id)), ...entries];
+  savePending(pending);
+
+  const timer = window.setTimeout(async () => {
+    // Already sent if the page was hidden in the meantime
+    const due = pending.filter(entry => ids.includes(entry.item_id) && !sending.has(entry.item_id));
+    if (due.length > 0) onDeleted(await sendDeletes(due));
+  }, delay);
+
+  return () => {
+    if (ids.some(itemId => sending.has(itemId))) return false;
+    window.clearTimeout(timer);
+    pending = readPending().filter(entry => !ids.includes(entry.item_id));
+    savePending(pending);
+    return true;
+  };
+};
+
+/**
+ * Send the user's deletes whose undo window has passed, or all of them when
+ * the page is going away
+ */
+export const flushPendingDeletes = async (userId: string, all = false): Promise<void> => {
+  const now = new Date().toISOString();
+  const due = readPending().filter(entry =>
+    entry.user_id === userId && !sending.has(entry.item_id) && (all || entry.due_at <= now)
+  );
+  if (due.length === 0) return;
+
+  const result = await sendDeletes(due);
+  if (result.failed.length > 0) {
+    console.error(`${result.failed.length} pending deletes failed:`, result.failed);
+  }
+};
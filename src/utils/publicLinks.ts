@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface PublicLibraryLink {
+  id: string;
+  library_id: string;
+  token: string;
+  created_at: string;
+  expires_at: string | null;
+  has_password: boolean;
+}
+
+/**
+ * What a visitor learns about a link before entering its password
+ */
+export interface PublicLinkStatus {
+  library_name: string;
+  requires_password: boolean;
+  expires_at: string | null;
+  expired: boolean;
+}
+
+export interface PublicLibraryItem {
+  id: string;
+  title: string;
+  content: string;
+  content_type: string;
+  created_at: string;
+  screenshot_url: string | null;
+  thumbnail_url: string | null;
+}
+
+export interface PublicLibrary {
+  library_name: string;
+  items: PublicLibraryItem[];
+}
+
+const LINK_COLUMNS = 'id, library_id, token, created_at, expires_at, has_password';
+
+export const getPublicLinkUrl = (token: string): string => `${window.location.origin}/p/${token}`;
+
+export const isPublicLinkExpired = (link: { expires_at: string | null }): boolean =>
+  !!link.expires_at && new Date(link.expires_at).getTime() < Date.now();
+
+/**
+ * Public links of a library, newest first. Only admins can list them.
+ */
+export const fetchPublicLinks = async (libraryId: string): Promise<PublicLibraryLink[]> => {
+  const { data, error } = await supabase
+    .from('library_public_links')
+    .select(LINK_COLUMNS)
+    .eq('library_id', libraryId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Publish a library at a new link. The password is hashed by the database.
+ */
+export const createPublicLink = async (
+  libraryId: string,
+  expiresAt: string | null,
+  password: string | null
+): Promise<PublicLibraryLink> => {
+  const { data: linkId, error: createError } = await supabase.rpc('create_public_library_link', {
+    library_id: libraryId,
+    expires_at: expiresAt,
+    link_password: password || null
+  });
+
+  if (createError) throw createError;
+
+  const { data, error } = await supabase
+    .from('library_public_links')
+    .select(LINK_COLUMNS)
+    .eq('id', linkId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const revokePublicLink = async (linkId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('library_public_links')
+    .delete()
+    .eq('id', linkId);
+
+  if (error) throw error;
+};
+
+/**
+ * Revoke every public link of a library, used when sharing is turned off
+ */
+export const revokeAllPublicLinks = async (libraryId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('library_public_links')
+    .delete()
+    .eq('library_id', libraryId);
+
+  if (error) throw error;
+};
+
+/**
+ * Returns null when the link was revoked or never existed
+ */
+export const fetchPublicLinkStatus = async (token: string): Promise<PublicLinkStatus | null> => {
+  const { data, error } = await supabase.rpc('get_public_link_status', { link_token: token });
+
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+/**
+ * Items of a published library. Throws when the link expired, the password
+ * is wrong or the visitor is locked out for a few minutes after too many
+ * wrong passwords.
+ */
+export const fetchPublicLibrary = async (token: string, password: string | null): Promise<PublicLibrary> => {
+  const { data, error } = await supabase.rpc('get_public_library', {
+    link_token: token,
+    link_password: password || null
+  });
+
+  if (error) throw error;
+
+  // Refused passwords come back as a result so the attempt is still recorded
+  const result = data as unknown as PublicLibrary | { error: string };
+  if ('error' in result) throw new Error(result.error);
+  return result;
+};
@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getBackend } from '@/integrations/backend';
+import { Tables } from '@/integrations/supabase/types';
+
+type ClipboardItemRow = Tables<'shared_clipboard_items'>;
+
+/**
+ * A change to an item as seen from one library. An item moved into the
+ * library arrives as `upsert` and one moved out of it as `remove`.
+ */
+export type LibraryItemChange =
+  | { type: 'insert'; item: ClipboardItemRow }
+  | { type: 'upsert'; item: ClipboardItemRow }
+  | { type: 'remove'; itemId: string };
+
+// Membership tables, with the column naming the member
+const MEMBERSHIP_TABLES = [
+  { table: 'shared_library_permissions', column: 'shared_with' },
+  { table: 'workspace_members', column: 'user_id' }
+] as const;
+
+type RowId = { id?: string };
+
+/**
+ * Follow item changes in a library. Returns a function that unsubscribes.
+ *
+ * Updates aren't filtered by library so moves out of it are seen too. Moves
+ * to a library the user can't see only reach them as a recorded move. Deleted
+ * rows only carry their id, so removals may name items the caller doesn't have.
+ */
+export const subscribeToLibraryItems = (
+  libraryId: string,
+  onChange: (change: LibraryItemChange) => void
+): (() => void) => {
+  // The local backend has no other clients to hear from
+  if (getBackend().name !== 'supabase') return () => {};
+
+  const channel = supabase
+    .channel(`library-items-${libraryId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'shared_clipboard_items' }, payload => {
+      if (payload.eventType === 'DELETE') {
+        const itemId = (payload.old as Partial<ClipboardItemRow>).id;
+        if (itemId) onChange({ type: 'remove', itemId });
+        return;
+      }
+
+      const item = payload.new as ClipboardItemRow;
+      if (item.library_id === libraryId) {
+        onChange({ type: payload.eventType === 'INSERT' ? 'insert' : 'upsert', item });
+      } else if (payload.eventType === 'UPDATE') {
+        onChange({ type: 'remove', itemId: item.id });
+      }
+    })
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'library_item_moves', filter: `from_library_id=eq.${libraryId}` },
+      payload => onChange({ type: 'remove', itemId: (payload.new as Tables<'library_item_moves'>).item_id })
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Call `onChange` whenever libraries or memberships change in a way that may
+ * affect which libraries the user can open. Returns a function that
+ * unsubscribes.
+ *
+ * Realtime doesn't check deletes against RLS and can't filter them, and a
+ * deleted row only carries its id. Deletes are matched against the rows the
+ * user is known to see, so a delete elsewhere in the project is ignored.
+ */
+export const subscribeToLibraryAccess = (userId: string, onChange: () => void): (() => void) => {
+  if (getBackend().name !== 'supabase') return () => {};
+
+  const known = new Set<string>();
+  const handleUpsert = (payload: { new: RowId }) => {
+    if (payload.new.id) known.add(payload.new.id);
+    onChange();
+  };
+  const handleDelete = (payload: { old: RowId }) => {
+    if (payload.old.id && known.delete(payload.old.id)) onChange();
+  };
+
+  const channel = MEMBERSHIP_TABLES.reduce(
+    (current, { table, column }) => current
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: `${column}=eq.${userId}` }, handleUpsert)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: `${column}=eq.${userId}` }, handleUpsert)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handleDelete),
+    supabase
+      .channel(`library-access-${userId}`)
+      // RLS limits these to libraries the user can see
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'user_libraries' }, handleUpsert)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'user_libraries' }, handleUpsert)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'user_libraries' }, handleDelete)
+  ).subscribe();
+
+  Promise.all([
+    supabase.from('user_libraries').select('id'),
+    supabase.from('shared_library_permissions').select('id').eq('shared_with', userId),
+    supabase.from('workspace_members').select('id').eq('user_id', userId)
+  ])
+    .then(results => results.forEach(({ data, error }) => {
+      if (error) throw error;
+      data.forEach(row => known.add(row.id));
+    }))
+    .catch(error => console.error('Error loading library access:', error));
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
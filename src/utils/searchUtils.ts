@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type SearchResult = Database['public']['Functions']['search_clipboard_items']['Returns'][number];
+
+export interface ParsedSearchQuery {
+  text: string;
+  classQuery: string | null;
+  typeQuery: string | null;
+}
+
+export interface SearchFilters {
+  libraryId: string | null;
+  authorId: string | null;
+  createdAfter: string | null;
+}
+
+export interface SearchFacet {
+  id: string;
+  label: string;
+}
+
+/**
+ * Split a query into free text and structured terms, e.g.
+ * `pricing class:card type:Block` or `.card`
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const words: string[] = [];
+  let classQuery: string | null = null;
+  let typeQuery: string | null = null;
+
+  query.split(/\s+/).filter(Boolean).forEach(word => {
+    const match = word.match(/^(class|type):(.+)$/i);
+    if (match) {
+      if (match[1].toLowerCase() === 'class') classQuery = match[2];
+      else typeQuery = match[2];
+    } else if (word.length > 1 && word.startsWith('.')) {
+      classQuery = word.slice(1);
+    } else {
+      words.push(word);
+    }
+  });
+
+  return { text: words.join(' '), classQuery, typeQuery };
+};
+
+/**
+ * Search items across every library the user can access
+ */
+export const searchClipboardItems = async (
+  query: string,
+  filters: SearchFilters,
+  limit: number = 50
+): Promise<SearchResult[]> => {
+  const { text, classQuery, typeQuery } = parseSearchQuery(query);
+
+  const { data, error } = await supabase.rpc('search_clipboard_items', {
+    search_text: text,
+    class_query: classQuery || undefined,
+    type_query: typeQuery || undefined,
+    filter_library_id: filters.libraryId || undefined,
+    filter_author_id: filters.authorId || undefined,
+    created_after: filters.createdAfter || undefined,
+    result_limit: limit
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Libraries and authors available as search filters
+ */
+export const fetchSearchFacets = async (): Promise<{ libraries: SearchFacet[]; authors: SearchFacet[] }> => {
+  const { data, error } = await supabase.rpc('get_search_facets');
+  if (error) throw error;
+
+  const byLabel = (a: SearchFacet, b: SearchFacet) => a.label.localeCompare(b.label);
+  return {
+    libraries: (data || []).filter(facet => facet.kind === 'library').sort(byLabel),
+    authors: (data || []).filter(facet => facet.kind === 'author').sort(byLabel)
+  };
+};
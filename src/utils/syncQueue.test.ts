@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LibraryItem } from './libraries';
+
+const libraries = vi.hoisted(() => ({
+  createLibraryItem: vi.fn(),
+  updateLibraryItem: vi.fn()
+}));
+
+vi.mock('./libraries', () => libraries);
+vi.mock('./tagUtils', () => ({ setItemTags: vi.fn() }));
+
+const item = (changes: Partial<LibraryItem> = {}): LibraryItem => ({
+  id: 'item-1',
+  title: 'Navbar',
+  content: '{}',
+  content_type: 'text',
+  class_names: [],
+  element_types: [],
+  created_by: 'user-1',
+  library_id: 'library-1',
+  screenshot_url: null,
+  thumbnail_url: null,
+  search_vector: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...changes
+});
+
+// A request that resolves or fails when the test says so
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const loadQueue = async () => {
+  vi.resetModules();
+  const syncQueue = await import('./syncQueue');
+  syncQueue.setSyncUser('user-1');
+  return syncQueue;
+};
+
+describe('syncQueue', () => {
+  beforeEach(() => {
+    const stored = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+      removeItem: (key: string) => stored.delete(key)
+    });
+    libraries.createLibraryItem.mockReset();
+    libraries.updateLibraryItem.mockReset();
+  });
+
+  it('shows every queued edit to an item', async () => {
+    const { flushSyncQueue, queueItemUpdate, withPendingChanges } = await loadQueue();
+    const request = deferred<LibraryItem>();
+    libraries.updateLibraryItem.mockReturnValueOnce(request.promise);
+
+    queueItemUpdate(item(), { title: 'Header' });
+    const flushing = flushSyncQueue();
+    // The first edit is being sent, so this one is queued on its own
+    queueItemUpdate(item(), { content: '{"edited":true}' });
+
+    expect(withPendingChanges(['library-1'], [item()])).toEqual([
+      item({ title: 'Header', content: '{"edited":true}' })
+    ]);
+
+    libraries.updateLibraryItem.mockResolvedValueOnce(item({ updated_at: '2026-01-01T00:02:00.000Z' }));
+    request.resolve(item({ title: 'Header', updated_at: '2026-01-01T00:01:00.000Z' }));
+    await flushing;
+  });
+
+  it('expects the version its own earlier edit wrote', async () => {
+    const { flushSyncQueue, getSyncStatus, queueItemUpdate } = await loadQueue();
+    const request = deferred<LibraryItem>();
+    libraries.updateLibraryItem.mockReturnValueOnce(request.promise);
+    libraries.updateLibraryItem.mockResolvedValueOnce(item({ updated_at: '2026-01-01T00:02:00.000Z' }));
+
+    queueItemUpdate(item(), { title: 'Header' });
+    const flushing = flushSyncQueue();
+    queueItemUpdate(item(), { title: 'Top bar' });
+    request.resolve(item({ title: 'Header', updated_at: '2026-01-01T00:01:00.000Z' }));
+    await flushing;
+
+    expect(libraries.updateLibraryItem).toHaveBeenLastCalledWith('item-1', { title: 'Top bar' }, '2026-01-01T00:01:00.000Z');
+    expect(getSyncStatus()).toMatchObject({ pending: 0, conflicts: [] });
+  });
+
+  it('keeps edits to a new item with its failed save', async () => {
+    const { flushSyncQueue, getSyncStatus, queueItemCreate, queueItemUpdate } = await loadQueue();
+    const request = deferred<LibraryItem>();
+    libraries.createLibraryItem.mockReturnValueOnce(request.promise);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const pending = queueItemCreate({ title: 'Hero', content: '{}', content_type: 'text', created_by: 'user-1', library_id: 'library-1' });
+    const flushing = flushSyncQueue();
+    queueItemUpdate(pending, { title: 'Hero section' });
+    request.reject(new Error('new row violates row-level security policy'));
+    await flushing;
+
+    const { pending: queued, conflicts } = getSyncStatus();
+    expect(queued).toBe(0);
+    expect(libraries.updateLibraryItem).not.toHaveBeenCalled();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      reason: 'failed',
+      operation: { type: 'create', values: { title: 'Hero section' } }
+    });
+  });
+
+  it("keeps each user's changes to themselves", async () => {
+    const { getSyncStatus, queueItemUpdate, setSyncUser } = await loadQueue();
+
+    queueItemUpdate(item(), { title: 'Header' });
+    setSyncUser('user-2');
+    expect(getSyncStatus().pending).toBe(0);
+
+    setSyncUser('user-1');
+    expect(getSyncStatus().pending).toBe(1);
+  });
+});
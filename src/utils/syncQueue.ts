@@ -0,0 +1,328 @@
+import { NewLibraryItem } from '@/integrations/backend';
+import { createLibraryItem, LibraryItem, updateLibraryItem } from './libraries';
+import { setItemTags } from './tagUtils';
+
+type ItemChanges = { title?: string; content?: string };
+
+interface CreateOperation {
+  id: string;
+  type: 'create';
+  queued_at: string;
+  // Stands in for the item's id until it is saved
+  item_id: string;
+  values: NewLibraryItem & { library_id: string; created_by: string };
+  tags: string[];
+}
+
+interface UpdateOperation {
+  id: string;
+  type: 'update';
+  queued_at: string;
+  item_id: string;
+  library_id: string | null;
+  values: ItemChanges;
+  // The version the edit started from, unset to save over whatever is there
+  expected_updated_at?: string;
+}
+
+export type SyncOperation = CreateOperation | UpdateOperation;
+
+export interface SyncConflict {
+  operation: SyncOperation;
+  // 'changed' when someone else saved the item first, 'failed' when the server refused the change
+  reason: 'changed' | 'failed';
+  message: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+}
+
+const STORAGE_PREFIX = 'sync-queue:';
+const PENDING_PREFIX = 'pending-';
+
+interface StoredQueue {
+  operations: SyncOperation[];
+  conflicts: SyncConflict[];
+}
+
+const EMPTY_QUEUE: StoredQueue = { operations: [], conflicts: [] };
+
+// Each user has their own queue, so whoever signs in next on this browser
+// never sends someone else's changes
+const readQueue = (userId: string | null): StoredQueue => {
+  if (!userId) return EMPTY_QUEUE;
+  try {
+    const stored = JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}${userId}`) || 'null');
+    return stored || EMPTY_QUEUE;
+  } catch {
+    return EMPTY_QUEUE;
+  }
+};
+
+let userId: string | null = null;
+let queue = EMPTY_QUEUE;
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' || navigator.onLine,
+  syncing: false,
+  pending: queue.operations.length,
+  conflicts: queue.conflicts,
+  lastSyncedAt: null
+};
+const listeners = new Set<() => void>();
+let flushing: Promise<void> | null = null;
+// The operation being sent, which later edits must not fold into
+let inFlightId: string | null = null;
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+const saveQueue = (next: StoredQueue, owner = userId) => {
+  if (!owner) throw new Error('Sign in to keep changes while offline');
+  // Throws when storage is full, so the caller can tell the change wasn't kept
+  localStorage.setItem(`${STORAGE_PREFIX}${owner}`, JSON.stringify(next));
+  if (owner !== userId) return;
+  queue = next;
+  setStatus({ pending: next.operations.length, conflicts: next.conflicts });
+};
+
+/**
+ * Switch to the signed-in user's queue. A user's queue stays stored when
+ * they sign out and is sent the next time they sign in.
+ */
+export const setSyncUser = (nextUserId: string | null): void => {
+  if (nextUserId === userId) return;
+  userId = nextUserId;
+  queue = readQueue(nextUserId);
+  setStatus({ pending: queue.operations.length, conflicts: queue.conflicts });
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const setOnline = (online: boolean): void => setStatus({ online });
+
+/**
+ * Whether a failed request never reached the server, as opposed to being refused
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as Error | null)?.message || '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+export const isPendingItem = (item: { id: string }): boolean => item.id.startsWith(PENDING_PREFIX);
+
+/**
+ * Queue a new item to be saved once the connection is back. Returns the
+ * item as it will look, with a temporary id.
+ */
+export const queueItemCreate = (values: CreateOperation['values'], tags: string[] = []): LibraryItem => {
+  const queuedAt = new Date().toISOString();
+  const operation: CreateOperation = {
+    id: crypto.randomUUID(),
+    type: 'create',
+    queued_at: queuedAt,
+    item_id: `${PENDING_PREFIX}${crypto.randomUUID()}`,
+    values,
+    tags
+  };
+  saveQueue({ ...queue, operations: [...queue.operations, operation] });
+  return toPendingItem(operation);
+};
+
+/**
+ * Queue changes to an item. Edits to an item that is itself still queued, or
+ * that already has queued changes, are folded into the queued operation.
+ */
+export const queueItemUpdate = (
+  item: Pick<LibraryItem, 'id' | 'library_id'> & { updated_at?: string },
+  values: ItemChanges
+): void => {
+  const existing = queue.operations.find(operation => operation.item_id === item.id && operation.id !== inFlightId);
+  if (existing) {
+    saveQueue({
+      ...queue,
+      operations: queue.operations.map((operation): SyncOperation => {
+        if (operation !== existing) return operation;
+        return operation.type === 'create'
+          ? { ...operation, values: { ...operation.values, ...values } }
+          : { ...operation, values: { ...operation.values, ...values } };
+      })
+    });
+    return;
+  }
+
+  const operation: UpdateOperation = {
+    id: crypto.randomUUID(),
+    type: 'update',
+    queued_at: new Date().toISOString(),
+    item_id: item.id,
+    library_id: item.library_id,
+    values,
+    expected_updated_at: item.updated_at
+  };
+  saveQueue({ ...queue, operations: [...queue.operations, operation] });
+};
+
+const toPendingItem = (operation: CreateOperation): LibraryItem => ({
+  class_names: [],
+  element_types: [],
+  screenshot_url: null,
+  thumbnail_url: null,
+  search_vector: null,
+  ...operation.values,
+  id: operation.item_id,
+  created_at: operation.queued_at,
+  updated_at: operation.queued_at
+});
+
+/**
+ * A library's items with queued new items first and queued edits applied
+ */
+export const withPendingChanges = (libraryIds: string[], items: LibraryItem[]): LibraryItem[] => {
+  const created = queue.operations
+    .filter((operation): operation is CreateOperation =>
+      operation.type === 'create' && libraryIds.includes(operation.values.library_id)
+    )
+    .map(toPendingItem)
+    .reverse();
+  // An item can have several queued updates, e.g. while one is being sent
+  const updates = new Map<string, ItemChanges>();
+  queue.operations.forEach(operation => {
+    if (operation.type === 'update') {
+      updates.set(operation.item_id, { ...updates.get(operation.item_id), ...operation.values });
+    }
+  });
+
+  return [...created, ...items.map(item => updates.has(item.id) ? { ...item, ...updates.get(item.id) } : item)];
+};
+
+interface SyncResult {
+  itemId: string;
+  updatedAt: string;
+}
+
+// Resolves to the saved item, or a conflict when the item changed underneath
+const runOperation = async (operation: SyncOperation): Promise<SyncResult | SyncConflict> => {
+  if (operation.type === 'create') {
+    const item = await createLibraryItem(operation.values);
+    if (operation.tags.length > 0) {
+      // The item is saved even if tagging fails
+      await setItemTags(item.id, operation.values.library_id, operation.tags, operation.values.created_by).catch(error =>
+        console.error('Error tagging synced item:', error)
+      );
+    }
+    return { itemId: item.id, updatedAt: item.updated_at };
+  }
+
+  const updated = await updateLibraryItem(operation.item_id, operation.values, operation.expected_updated_at);
+  return updated ? { itemId: updated.id, updatedAt: updated.updated_at } : {
+    operation,
+    reason: 'changed',
+    message: 'Someone else saved this item while you were offline.'
+  };
+};
+
+// Fold queued edits to the conflicting operation's item into it
+const withLaterEdits = (conflict: SyncConflict, operations: SyncOperation[]): SyncConflict => {
+  const values = operations
+    .filter(entry => entry.item_id === conflict.operation.item_id)
+    .reduce<ItemChanges>((merged, entry) => ({ ...merged, ...entry.values }), {});
+  const { operation } = conflict;
+
+  return {
+    ...conflict,
+    operation: operation.type === 'create'
+      ? { ...operation, values: { ...operation.values, ...values } }
+      : { ...operation, values: { ...operation.values, ...values } }
+  };
+};
+
+/**
+ * Send queued changes in the order they were made. Stops at the first
+ * network error and leaves the rest queued; changes the server refuses
+ * are set aside as conflicts.
+ */
+export const flushSyncQueue = (): Promise<void> => {
+  if (flushing) return flushing;
+
+  // Only the user who started the flush has their changes sent
+  const owner = userId;
+  flushing = (async () => {
+    setStatus({ syncing: true });
+    try {
+      while (owner === userId && queue.operations.length > 0) {
+        const operation = queue.operations[0];
+        inFlightId = operation.id;
+        let result: SyncResult | SyncConflict;
+        try {
+          result = await runOperation(operation);
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          console.error('Error syncing change:', error);
+          result = { operation, reason: 'failed', message: (error as Error).message };
+        }
+        // The user may have signed out while the change was being sent
+        const current = owner === userId ? queue : readQueue(owner);
+        const rest = current.operations.filter(entry => entry.id !== operation.id);
+        saveQueue('itemId' in result ? {
+          // Edits made while this change was being sent build on it, so they
+          // point at the saved item and expect the version just written
+          operations: rest.map((entry): SyncOperation => {
+            if (entry.item_id !== operation.item_id) return entry;
+            return entry.type === 'update' && entry.expected_updated_at
+              ? { ...entry, item_id: result.itemId, expected_updated_at: result.updatedAt }
+              : { ...entry, item_id: result.itemId };
+          }),
+          conflicts: current.conflicts
+        } : {
+          // Later edits to the item are kept with the conflict rather than
+          // sent on their own, which would fail the same way or, for a new
+          // item that was never saved, point at nothing
+          operations: rest.filter(entry => entry.item_id !== operation.item_id),
+          conflicts: [...current.conflicts, withLaterEdits(result, rest)]
+        }, owner);
+      }
+      if (owner === userId && queue.operations.length === 0) {
+        setStatus({ lastSyncedAt: new Date().toISOString() });
+      }
+    } finally {
+      flushing = null;
+      inFlightId = null;
+      setStatus({ syncing: false });
+    }
+  })();
+
+  return flushing;
+};
+
+/**
+ * Settle a conflict by saving over the other change or dropping this one
+ */
+export const resolveConflict = async (operationId: string, resolution: 'overwrite' | 'discard'): Promise<void> => {
+  const conflict = queue.conflicts.find(entry => entry.operation.id === operationId);
+  if (!conflict) return;
+
+  const conflicts = queue.conflicts.filter(entry => entry !== conflict);
+  if (resolution === 'discard') {
+    saveQueue({ ...queue, conflicts });
+    return;
+  }
+
+  const operation: SyncOperation = conflict.operation.type === 'update'
+    ? { ...conflict.operation, expected_updated_at: undefined }
+    : conflict.operation;
+  saveQueue({ operations: [...queue.operations, operation], conflicts });
+  await flushSyncQueue();
+};
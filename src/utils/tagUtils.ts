@@ -0,0 +1,128 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LibraryTag {
+  id: string;
+  library_id: string;
+  name: string;
+}
+
+/**
+ * Trim a tag name and collapse inner whitespace
+ */
+export const normalizeTagName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+const sameTag = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Tag vocabulary of a library, sorted by name
+ */
+export const fetchLibraryTags = async (libraryId: string): Promise<LibraryTag[]> => {
+  const { data, error } = await supabase
+    .from('library_tags')
+    .select('id, library_id, name')
+    .eq('library_id', libraryId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Tags of several items, keyed by item id
+ */
+export const fetchItemTags = async (itemIds: string[]): Promise<Record<string, LibraryTag[]>> => {
+  if (itemIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('clipboard_item_tags')
+    .select('item_id, tag:library_tags(id, library_id, name)')
+    .in('item_id', itemIds);
+
+  if (error) throw error;
+
+  const tagsByItem: Record<string, LibraryTag[]> = {};
+  (data || []).forEach(({ item_id, tag }) => {
+    if (!tag) return;
+    tagsByItem[item_id] = [...(tagsByItem[item_id] || []), tag];
+  });
+  Object.values(tagsByItem).forEach(tags => tags.sort((a, b) => a.name.localeCompare(b.name)));
+
+  return tagsByItem;
+};
+
+/**
+ * Add names missing from a library's vocabulary and return the whole
+ * vocabulary. Existing tags are matched case-insensitively.
+ */
+export const ensureLibraryTags = async (
+  libraryId: string,
+  names: string[],
+  userId: string
+): Promise<LibraryTag[]> => {
+  const vocabulary = await fetchLibraryTags(libraryId);
+  const missing = names
+    .map(normalizeTagName)
+    .filter(Boolean)
+    .filter((name, index, all) => all.findIndex(other => sameTag(other, name)) === index)
+    .filter(name => !vocabulary.some(tag => sameTag(tag.name, name)));
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase
+      .from('library_tags')
+      .insert(missing.map(name => ({ library_id: libraryId, name, created_by: userId })))
+      .select('id, library_id, name');
+
+    if (error) throw error;
+    vocabulary.push(...(data || []));
+  }
+
+  return vocabulary;
+};
+
+/**
+ * Replace an item's tags. Names missing from the library's vocabulary are
+ * added to it; existing tags are matched case-insensitively.
+ */
+export const setItemTags = async (
+  itemId: string,
+  libraryId: string,
+  names: string[],
+  userId: string
+): Promise<LibraryTag[]> => {
+  const wanted = names.map(normalizeTagName).filter(Boolean);
+  const vocabulary = await ensureLibraryTags(libraryId, wanted, userId);
+
+  const tags = vocabulary.filter(tag => wanted.some(name => sameTag(tag.name, name)));
+  const tagIds = tags.map(tag => tag.id);
+
+  const { data: current, error: currentError } = await supabase
+    .from('clipboard_item_tags')
+    .select('tag_id')
+    .eq('item_id', itemId);
+
+  if (currentError) throw currentError;
+
+  const currentIds = (current || []).map(row => row.tag_id);
+  const removed = currentIds.filter(id => !tagIds.includes(id));
+  const added = tagIds.filter(id => !currentIds.includes(id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('clipboard_item_tags')
+      .delete()
+      .eq('item_id', itemId)
+      .in('tag_id', removed);
+
+    if (error) throw error;
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('clipboard_item_tags')
+      .insert(added.map(tag_id => ({ item_id: itemId, tag_id })));
+
+    if (error) throw error;
+  }
+
+  return tags.sort((a, b) => a.name.localeCompare(b.name));
+};
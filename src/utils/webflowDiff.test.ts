@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { diffWebflowData, parseStyleLess } from './webflowDiff';
+import { WebflowNode, WebflowStyle, WebflowXscpData } from './webflowTypes';
+
+const style = (id: string, name: string, changes: Partial<WebflowStyle> = {}): WebflowStyle => ({
+  _id: id,
+  fake: false,
+  type: 'class',
+  name,
+  namespace: '',
+  comb: '',
+  styleLess: '',
+  variants: {},
+  children: [],
+  ...changes
+});
+
+const block = (id: string, classes: string[], children: string[] = []): WebflowNode => ({
+  _id: id,
+  type: 'Block',
+  tag: 'div',
+  classes,
+  children,
+  data: {}
+});
+
+const text = (id: string, v: string): WebflowNode => ({ _id: id, text: true, v });
+
+const payload = (nodes: WebflowNode[], styles: WebflowStyle[]): WebflowXscpData => ({
+  type: '@webflow/XscpData',
+  payload: { nodes, styles, assets: [], ix1: [], ix2: { interactions: [], events: [], actionLists: [] } }
+});
+
+const styles = [style('s-card', 'card'), style('s-title', 'card-title'), style('s-body', 'card-body')];
+
+// A card with a title and a body, each holding text
+const card = (titleText = 'Pricing') => payload([
+  block('card', ['s-card'], ['title', 'body']),
+  block('title', ['s-title'], ['title-text']),
+  text('title-text', titleText),
+  block('body', ['s-body'], ['body-text']),
+  text('body-text', 'Pick a plan')
+], styles);
+
+describe('parseStyleLess', () => {
+  it('splits declarations, keeping semicolons inside parentheses', () => {
+    const properties = parseStyleLess('color: red; background-image: url("data:image/png;base64,AAA"); ');
+    expect(Array.from(properties.entries())).toEqual([
+      ['color', 'red'],
+      ['background-image', 'url("data:image/png;base64,AAA")']
+    ]);
+  });
+});
+
+describe('diffWebflowData', () => {
+  it('finds nothing between identical payloads', () => {
+    expect(diffWebflowData(card(), card())).toEqual({ nodes: [], styles: [], identical: true });
+  });
+
+  it('reports changed text', () => {
+    const { nodes } = diffWebflowData(card(), card('Plans'));
+    expect(nodes).toEqual([{
+      kind: 'changed',
+      nodeId: 'title-text',
+      label: 'Text',
+      path: 'Block .card > Block .card-title > Text',
+      text: { before: 'Pricing', after: 'Plans' }
+    }]);
+  });
+
+  it('reports an added element once, with what it contains', () => {
+    const after = card();
+    after.payload.nodes[0] = block('card', ['s-card'], ['title', 'body', 'footer']);
+    after.payload.nodes.push(block('footer', [], ['footer-text']), text('footer-text', 'Billed yearly'));
+
+    const { nodes } = diffWebflowData(card(), after);
+    expect(nodes).toEqual([{ kind: 'added', nodeId: 'footer', label: 'Block', path: 'Block .card > Block', descendants: 1 }]);
+  });
+
+  it('reports a removed element', () => {
+    const after = card();
+    after.payload.nodes = after.payload.nodes.filter(node => !['body', 'body-text'].includes(node._id));
+    after.payload.nodes[0] = block('card', ['s-card'], ['title']);
+
+    const { nodes } = diffWebflowData(card(), after);
+    expect(nodes).toEqual([{ kind: 'removed', nodeId: 'body', label: 'Block .card-body', path: 'Block .card > Block .card-body', descendants: 1 }]);
+  });
+
+  it('reports reordered elements as moved', () => {
+    const after = card();
+    after.payload.nodes[0] = block('card', ['s-card'], ['body', 'title']);
+
+    // Moving one of two siblings is enough to swap them
+    const moved = diffWebflowData(card(), after).nodes.filter(change => change.kind === 'moved');
+    expect(moved.map(change => change.nodeId)).toEqual(['body']);
+  });
+
+  it('pairs elements whose ids changed by their place in the tree', () => {
+    const after = card();
+    after.payload.nodes = after.payload.nodes.map((node): WebflowNode => 'children' in node
+      ? { ...node, _id: `copy-${node._id}`, children: node.children.map(id => `copy-${id}`) }
+      : { ...node, _id: `copy-${node._id}` });
+
+    expect(diffWebflowData(card(), after).identical).toBe(true);
+  });
+
+  it('reports class changes by name', () => {
+    const after = card();
+    after.payload.styles = [...styles, style('s-large', 'is-large', { comb: '&' })];
+    after.payload.styles[0] = style('s-card', 'card', { children: ['s-large'] });
+    after.payload.nodes[0] = block('card', ['s-card', 's-large'], ['title', 'body']);
+
+    const { nodes } = diffWebflowData(card(), after);
+    expect(nodes[0]).toMatchObject({ nodeId: 'card', classes: { added: ['card.is-large'], removed: [] } });
+  });
+
+  it('reports style properties per breakpoint and state', () => {
+    const before = payload([], [style('s-card', 'card', { styleLess: 'color: red;', variants: { medium: { styleLess: 'padding: 8px;' } } })]);
+    const after = payload([], [style('s-card', 'card', { styleLess: 'color: blue;', variants: { main_hover: { styleLess: 'opacity: 0.8;' } } })]);
+
+    expect(diffWebflowData(before, after).styles).toEqual([{
+      kind: 'changed',
+      name: 'card',
+      properties: [
+        { variant: 'main', name: 'color', before: 'red', after: 'blue' },
+        { variant: 'medium', name: 'padding', before: '8px', after: undefined },
+        { variant: 'main_hover', name: 'opacity', before: undefined, after: '0.8' }
+      ]
+    }]);
+  });
+
+  it('reports added and removed styles', () => {
+    const before = payload([], [style('s1', 'old')]);
+    const after = payload([], [style('s2', 'new', { styleLess: 'margin: 0;' })]);
+
+    expect(diffWebflowData(before, after).styles).toEqual([
+      { kind: 'removed', name: 'old', properties: [] },
+      { kind: 'added', name: 'new', properties: [{ variant: 'main', name: 'margin', before: undefined, after: '0' }] }
+    ]);
+  });
+});
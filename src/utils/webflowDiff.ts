@@ -0,0 +1,407 @@
+import { isWebflowTextNode } from './clipboardUtils';
+import { WebflowElementNode, WebflowNode, WebflowStyle, WebflowXscpData } from './webflowTypes';
+
+export type WebflowChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface WebflowValueChange {
+  name: string;
+  before?: string;
+  after?: string;
+}
+
+export interface WebflowNodeChange {
+  kind: WebflowChangeKind;
+  // Id in the new payload, or in the old one for removed nodes
+  nodeId: string;
+  label: string;
+  path: string;
+  // Nested nodes added or removed together with this one
+  descendants?: number;
+  previousPath?: string;
+  classes?: { added: string[]; removed: string[] };
+  text?: { before: string; after: string };
+  attributes?: WebflowValueChange[];
+}
+
+export interface WebflowPropertyChange extends WebflowValueChange {
+  // Variant key such as `main`, `medium` or `main_hover`
+  variant: string;
+}
+
+export interface WebflowStyleChange {
+  kind: 'added' | 'removed' | 'changed';
+  name: string;
+  properties: WebflowPropertyChange[];
+}
+
+export interface WebflowDiff {
+  nodes: WebflowNodeChange[];
+  styles: WebflowStyleChange[];
+  identical: boolean;
+}
+
+interface IndexedNode {
+  node: WebflowNode;
+  parentId: string | null;
+  index: number;
+  label: string;
+  path: string;
+  // Position in the tree by labels, used to pair nodes whose ids differ
+  signature: string;
+  descendants: number;
+}
+
+interface PayloadIndex {
+  nodes: Map<string, IndexedNode>;
+  order: string[];
+  styleNames: Map<string, string>;
+}
+
+/**
+ * Split a `styleLess` string into properties. Semicolons inside
+ * parentheses, e.g. in data URLs, don't end a declaration.
+ */
+export const parseStyleLess = (styleLess: string): Map<string, string> => {
+  const properties = new Map<string, string>();
+  let depth = 0;
+  let current = '';
+
+  const flush = () => {
+    const colon = current.indexOf(':');
+    if (colon > 0) {
+      properties.set(current.slice(0, colon).trim(), current.slice(colon + 1).trim());
+    }
+    current = '';
+  };
+
+  for (const char of styleLess) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ';' && depth === 0) {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+  flush();
+
+  return properties;
+};
+
+// Combo classes are named after their base, e.g. `button.is-large`
+const getStyleNames = (styles: WebflowStyle[]): Map<string, string> => {
+  const byId = new Map(styles.map(style => [style._id, style]));
+  const parentById = new Map<string, string>();
+  styles.forEach(style => style.children.forEach(id => parentById.set(id, style._id)));
+
+  const names = new Map<string, string>();
+  const resolve = (style: WebflowStyle, seen: Set<string>): string => {
+    const parentId = style.comb === '&' ? parentById.get(style._id) : undefined;
+    const parent = parentId ? byId.get(parentId) : undefined;
+    if (!parent || seen.has(parent._id)) return style.name;
+    seen.add(parent._id);
+    return `${resolve(parent, seen)}.${style.name}`;
+  };
+
+  styles.forEach(style => names.set(style._id, resolve(style, new Set([style._id]))));
+  return names;
+};
+
+const getNodeLabel = (node: WebflowNode, styleNames: Map<string, string>): string => {
+  if (isWebflowTextNode(node)) return 'Text';
+  const firstClass = node.classes.map(id => styleNames.get(id)).find(Boolean);
+  const name = node.data?.displayName || node.type || node.tag;
+  return firstClass ? `${name} .${firstClass.split('.')[0]}` : name;
+};
+
+const indexPayload = (data: WebflowXscpData): PayloadIndex => {
+  const styleNames = getStyleNames(data.payload.styles);
+  const nodesById = new Map(data.payload.nodes.map(node => [node._id, node]));
+  const childIds = new Set<string>();
+  data.payload.nodes.forEach(node => {
+    if (!isWebflowTextNode(node)) node.children.forEach(id => childIds.add(id));
+  });
+
+  const nodes = new Map<string, IndexedNode>();
+  const order: string[] = [];
+
+  const visit = (node: WebflowNode, parent: IndexedNode | null, index: number, siblingIndex: number): number => {
+    const label = getNodeLabel(node, styleNames);
+    const entry: IndexedNode = {
+      node,
+      parentId: parent ? parent.node._id : null,
+      index,
+      label,
+      path: parent ? `${parent.path} > ${label}` : label,
+      signature: `${parent ? parent.signature : ''}/${label}[${siblingIndex}]`,
+      descendants: 0
+    };
+    nodes.set(node._id, entry);
+    order.push(node._id);
+
+    if (isWebflowTextNode(node)) return 1;
+
+    const labelCounts = new Map<string, number>();
+    node.children
+      .map(id => nodesById.get(id))
+      .filter(child => child && !nodes.has(child._id))
+      .forEach((child, childIndex) => {
+        const childLabel = getNodeLabel(child as WebflowNode, styleNames);
+        const count = labelCounts.get(childLabel) || 0;
+        labelCounts.set(childLabel, count + 1);
+        entry.descendants += visit(child as WebflowNode, entry, childIndex, count);
+      });
+
+    return entry.descendants + 1;
+  };
+
+  const rootCounts = new Map<string, number>();
+  data.payload.nodes
+    .filter(node => !childIds.has(node._id))
+    .forEach((node, i) => {
+      const label = getNodeLabel(node, styleNames);
+      const count = rootCounts.get(label) || 0;
+      rootCounts.set(label, count + 1);
+      visit(node, null, i, count);
+    });
+
+  return { nodes, order, styleNames };
+};
+
+// Attributes worth reporting, flattened to strings
+const getNodeAttributes = (node: WebflowElementNode): Map<string, string> => {
+  const attributes = new Map<string, string>();
+  attributes.set('tag', node.tag);
+  attributes.set('type', node.type);
+  Object.entries(node.data?.attr || {}).forEach(([name, value]) => {
+    if (value !== null && value !== undefined && value !== '') attributes.set(name, String(value));
+  });
+  (node.data?.xattr || []).forEach(attr => attributes.set(attr.name, attr.value));
+  if (node.data?.link?.url) attributes.set('link', node.data.link.url);
+  if (node.data?.img?.id) attributes.set('image', String(node.data.img.id));
+  return attributes;
+};
+
+const diffMaps = (before: Map<string, string>, after: Map<string, string>): WebflowValueChange[] => {
+  const names = new Set([...before.keys(), ...after.keys()]);
+  return Array.from(names)
+    .filter(name => before.get(name) !== after.get(name))
+    .map(name => ({ name, before: before.get(name), after: after.get(name) }));
+};
+
+/**
+ * Positions that are not part of the longest increasing run have moved
+ */
+const findReordered = (positions: number[]): Set<number> => {
+  const tails: number[] = [];
+  const tailIndex: number[] = [];
+  const previous: number[] = new Array(positions.length).fill(-1);
+
+  positions.forEach((position, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (tails[mid] < position) low = mid + 1;
+      else high = mid;
+    }
+    tails[low] = position;
+    tailIndex[low] = i;
+    previous[i] = low > 0 ? tailIndex[low - 1] : -1;
+  });
+
+  const stable = new Set<number>();
+  let i = tailIndex[tails.length - 1] ?? -1;
+  while (i !== -1) {
+    stable.add(i);
+    i = previous[i];
+  }
+
+  return new Set(positions.map((_, j) => j).filter(j => !stable.has(j)));
+};
+
+const diffNodes = (before: PayloadIndex, after: PayloadIndex): WebflowNodeChange[] => {
+  // Pair nodes by id first, then by their position in the tree
+  const matches = new Map<string, string>();
+  const matchedBefore = new Set<string>();
+
+  after.order.forEach(id => {
+    if (before.nodes.has(id)) {
+      matches.set(id, id);
+      matchedBefore.add(id);
+    }
+  });
+
+  const bySignature = new Map<string, string>();
+  before.order
+    .filter(id => !matchedBefore.has(id))
+    .forEach(id => bySignature.set((before.nodes.get(id) as IndexedNode).signature, id));
+
+  after.order
+    .filter(id => !matches.has(id))
+    .forEach(id => {
+      const beforeId = bySignature.get((after.nodes.get(id) as IndexedNode).signature);
+      if (beforeId && !matchedBefore.has(beforeId)) {
+        matches.set(id, beforeId);
+        matchedBefore.add(beforeId);
+      }
+    });
+
+  const afterIdByBefore = new Map(Array.from(matches.entries()).map(([afterId, beforeId]) => [beforeId, afterId]));
+
+  // Nodes under the same parent whose relative order changed
+  const moved = new Set<string>();
+  const childrenByParent = new Map<string | null, string[]>();
+  after.order.forEach(id => {
+    const parentId = (after.nodes.get(id) as IndexedNode).parentId;
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), id]);
+  });
+
+  childrenByParent.forEach((childIds, parentId) => {
+    const stayed: string[] = [];
+    childIds.forEach(id => {
+      const beforeId = matches.get(id);
+      if (!beforeId) return;
+      const beforeParent = (before.nodes.get(beforeId) as IndexedNode).parentId;
+      const sameParent = parentId === null
+        ? beforeParent === null
+        : beforeParent !== null && afterIdByBefore.get(beforeParent) === parentId;
+      if (sameParent) stayed.push(id);
+      else moved.add(id);
+    });
+
+    const positions = stayed.map(id => (before.nodes.get(matches.get(id) as string) as IndexedNode).index);
+    findReordered(positions).forEach(i => moved.add(stayed[i]));
+  });
+
+  const changes: WebflowNodeChange[] = [];
+
+  after.order.forEach(id => {
+    const entry = after.nodes.get(id) as IndexedNode;
+    const beforeId = matches.get(id);
+
+    if (!beforeId) {
+      // Only the topmost added node is reported
+      if (entry.parentId && !matches.has(entry.parentId)) return;
+      changes.push({
+        kind: 'added',
+        nodeId: id,
+        label: entry.label,
+        path: entry.path,
+        descendants: entry.descendants
+      });
+      return;
+    }
+
+    const previous = before.nodes.get(beforeId) as IndexedNode;
+    const change: WebflowNodeChange = {
+      kind: moved.has(id) ? 'moved' : 'changed',
+      nodeId: id,
+      label: entry.label,
+      path: entry.path
+    };
+    if (moved.has(id)) change.previousPath = previous.path;
+
+    const oldNode = previous.node;
+    const newNode = entry.node;
+
+    if (isWebflowTextNode(oldNode) && isWebflowTextNode(newNode)) {
+      if ((oldNode.v || '') !== (newNode.v || '')) {
+        change.text = { before: oldNode.v || '', after: newNode.v || '' };
+      }
+    } else if (!isWebflowTextNode(oldNode) && !isWebflowTextNode(newNode)) {
+      const oldClasses = oldNode.classes.map(styleId => before.styleNames.get(styleId) || styleId);
+      const newClasses = newNode.classes.map(styleId => after.styleNames.get(styleId) || styleId);
+      const added = newClasses.filter(name => !oldClasses.includes(name));
+      const removed = oldClasses.filter(name => !newClasses.includes(name));
+      if (added.length > 0 || removed.length > 0) change.classes = { added, removed };
+
+      const attributes = diffMaps(getNodeAttributes(oldNode), getNodeAttributes(newNode));
+      if (attributes.length > 0) change.attributes = attributes;
+    } else {
+      change.attributes = [{
+        name: 'type',
+        before: isWebflowTextNode(oldNode) ? 'Text' : oldNode.type,
+        after: isWebflowTextNode(newNode) ? 'Text' : newNode.type
+      }];
+    }
+
+    if (change.kind === 'moved' || change.text || change.classes || change.attributes) {
+      changes.push(change);
+    }
+  });
+
+  before.order.forEach(id => {
+    if (matchedBefore.has(id)) return;
+    const entry = before.nodes.get(id) as IndexedNode;
+    if (entry.parentId && !matchedBefore.has(entry.parentId)) return;
+    changes.push({
+      kind: 'removed',
+      nodeId: id,
+      label: entry.label,
+      path: entry.path,
+      descendants: entry.descendants
+    });
+  });
+
+  return changes;
+};
+
+const getStyleVariants = (style: WebflowStyle): Map<string, Map<string, string>> => {
+  const variants = new Map<string, Map<string, string>>();
+  variants.set('main', parseStyleLess(style.styleLess || ''));
+  Object.entries(style.variants).forEach(([key, variant]) => {
+    variants.set(key, parseStyleLess(variant?.styleLess || ''));
+  });
+  return variants;
+};
+
+const diffStyles = (before: WebflowXscpData, after: WebflowXscpData): WebflowStyleChange[] => {
+  const collect = (data: WebflowXscpData) => {
+    const names = getStyleNames(data.payload.styles);
+    return new Map(data.payload.styles.map(style => [names.get(style._id) as string, style]));
+  };
+  const oldStyles = collect(before);
+  const newStyles = collect(after);
+  const names = Array.from(new Set([...oldStyles.keys(), ...newStyles.keys()]));
+
+  const changes: WebflowStyleChange[] = [];
+  names.forEach(name => {
+    const oldStyle = oldStyles.get(name);
+    const newStyle = newStyles.get(name);
+    const oldVariants = oldStyle ? getStyleVariants(oldStyle) : new Map<string, Map<string, string>>();
+    const newVariants = newStyle ? getStyleVariants(newStyle) : new Map<string, Map<string, string>>();
+
+    const properties: WebflowPropertyChange[] = [];
+    new Set([...oldVariants.keys(), ...newVariants.keys()]).forEach(variant => {
+      diffMaps(oldVariants.get(variant) || new Map(), newVariants.get(variant) || new Map())
+        .forEach(property => properties.push({ ...property, variant }));
+    });
+
+    if (!oldStyle) {
+      changes.push({ kind: 'added', name, properties });
+    } else if (!newStyle) {
+      changes.push({ kind: 'removed', name, properties });
+    } else if (properties.length > 0) {
+      changes.push({ kind: 'changed', name, properties });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Structural diff of two Webflow payloads: added, removed and moved
+ * elements, changed classes, attributes and text, and changed style
+ * properties per breakpoint and state
+ */
+export const diffWebflowData = (before: WebflowXscpData, after: WebflowXscpData): WebflowDiff => {
+  const nodes = diffNodes(indexPayload(before), indexPayload(after));
+  const styles = diffStyles(before, after);
+
+  return {
+    nodes,
+    styles,
+    identical: nodes.length === 0 && styles.length === 0
+  };
+};
@@ -0,0 +1,235 @@
+import { isWebflowTextNode } from './clipboardUtils';
+import {
+  WEBFLOW_BREAKPOINTS,
+  WEBFLOW_PSEUDO_STATES,
+  WebflowElementNode,
+  WebflowNode,
+  WebflowStyle,
+  WebflowXscpData
+} from './webflowTypes';
+
+export interface WebflowHtmlExport {
+  html: string;
+  css: string;
+}
+
+const VOID_TAGS = new Set(['img', 'br', 'hr', 'input', 'meta', 'link', 'source']);
+
+// Minimal reset so exports look close to a fresh Webflow site
+const BASE_CSS = `html { height: 100%; }
+body { margin: 0; min-height: 100%; font-family: Arial, sans-serif; font-size: 14px; line-height: 20px; color: #333; }
+img { max-width: 100%; vertical-align: middle; display: inline-block; }
+a { color: inherit; }`;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Turn a Webflow class name into the class Webflow publishes, e.g. `Hero Title` to `hero-title`
+ */
+export const toCssClassName = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const getNodeTag = (node: WebflowElementNode): string => {
+  if (node.type === 'LineBreak') return 'br';
+  return node.tag || node.data?.tag || 'div';
+};
+
+/**
+ * Render a Webflow payload to static HTML and a matching stylesheet,
+ * including breakpoint variants and pseudo states
+ */
+export const convertWebflowToHtml = (data: WebflowXscpData): WebflowHtmlExport => {
+  const nodesById = new Map(data.payload.nodes.map(node => [node._id, node]));
+  const stylesById = new Map(data.payload.styles.map(style => [style._id, style]));
+  const assetsById = new Map(data.payload.assets.map(asset => [asset._id, asset]));
+
+  const childIds = new Set<string>();
+  data.payload.nodes.forEach(node => {
+    if (!isWebflowTextNode(node)) {
+      node.children.forEach(id => childIds.add(id));
+    }
+  });
+
+  const rendered = new Set<string>();
+  const renderNode = (node: WebflowNode, indent: string): string => {
+    rendered.add(node._id);
+
+    if (isWebflowTextNode(node)) {
+      return `${indent}${escapeHtml(node.v || '')}`;
+    }
+
+    const tag = getNodeTag(node);
+    const attributes: string[] = [];
+    const classNames = node.classes
+      .map(id => stylesById.get(id))
+      .filter(Boolean)
+      .map(style => toCssClassName((style as WebflowStyle).name));
+
+    if (node.data?.attr?.id) attributes.push(`id="${escapeHtml(String(node.data.attr.id))}"`);
+    if (classNames.length > 0) attributes.push(`class="${classNames.join(' ')}"`);
+
+    if (node.data?.link?.url) {
+      attributes.push(`href="${escapeHtml(node.data.link.url)}"`);
+      if (node.data.link.target) attributes.push(`target="${escapeHtml(node.data.link.target)}"`);
+    } else if (tag === 'a') {
+      attributes.push('href="#"');
+    }
+
+    if (tag === 'img') {
+      const asset = node.data?.img?.id ? assetsById.get(node.data.img.id) : undefined;
+      const src = asset?.cdnUrl || node.data?.attr?.src || '';
+      attributes.push(`src="${escapeHtml(String(src))}"`);
+      attributes.push(`alt="${escapeHtml(String(node.data?.attr?.alt || ''))}"`);
+      attributes.push('loading="lazy"');
+    }
+
+    (node.data?.xattr || []).forEach(attr => {
+      attributes.push(`${attr.name}="${escapeHtml(attr.value)}"`);
+    });
+
+    const open = `<${tag}${attributes.length > 0 ? ' ' + attributes.join(' ') : ''}>`;
+    if (VOID_TAGS.has(tag)) {
+      return `${indent}${open}`;
+    }
+
+    // Custom code embeds carry their markup as is
+    const embedHtml = (node.data?.embed as { meta?: { html?: string } } | undefined)?.meta?.html;
+    if (node.type === 'HtmlEmbed' && embedHtml) {
+      return `${indent}${open}${embedHtml}</${tag}>`;
+    }
+
+    const children = node.children
+      .map(id => nodesById.get(id))
+      .filter(child => child && !rendered.has(child._id)) as WebflowNode[];
+
+    if (children.length === 0) {
+      return `${indent}${open}</${tag}>`;
+    }
+
+    // Keep text-level content on one line so no whitespace is introduced
+    if (node.data?.text || children.every(isWebflowTextNode)) {
+      return `${indent}${open}${children.map(child => renderNode(child, '')).join('')}</${tag}>`;
+    }
+
+    return [
+      `${indent}${open}`,
+      ...children.map(child => renderNode(child, indent + '  ')),
+      `${indent}</${tag}>`
+    ].join('\n');
+  };
+
+  const html = data.payload.nodes
+    .filter(node => !childIds.has(node._id))
+    .map(node => renderNode(node, ''))
+    .join('\n');
+
+  // Combo classes only apply together with their base class
+  const parentById = new Map<string, WebflowStyle>();
+  data.payload.styles.forEach(style => {
+    style.children.forEach(id => parentById.set(id, style));
+  });
+
+  const getSelector = (style: WebflowStyle): string => {
+    const parent = style.comb === '&' ? parentById.get(style._id) : undefined;
+    const own = `.${toCssClassName(style.name)}`;
+    return parent ? `${getSelector(parent)}${own}` : own;
+  };
+
+  const resolveAssets = (styleLess: string): string =>
+    styleLess.replace(/@img_([a-zA-Z0-9]+)/g, (match, id) => {
+      const asset = assetsById.get(id);
+      return asset ? `url("${asset.cdnUrl}")` : match;
+    });
+
+  const formatRule = (selector: string, styleLess: string, indent: string): string => {
+    const declarations = resolveAssets(styleLess)
+      .split(';')
+      .map(declaration => declaration.trim())
+      .filter(Boolean)
+      .map(declaration => `${indent}  ${declaration};`);
+    return `${indent}${selector} {\n${declarations.join('\n')}\n${indent}}`;
+  };
+
+  const rulesByBreakpoint = new Map<string, string[]>(WEBFLOW_BREAKPOINTS.map(bp => [bp.id, []]));
+
+  data.payload.styles.forEach(style => {
+    const selector = getSelector(style);
+
+    if (style.styleLess) {
+      rulesByBreakpoint.get('main')?.push(formatRule(selector, style.styleLess, ''));
+    }
+
+    Object.entries(style.variants).forEach(([key, variant]) => {
+      if (!variant?.styleLess) return;
+
+      const [breakpoint, ...stateParts] = key.split('_');
+      const state = stateParts.join('_');
+      const pseudo = state ? WEBFLOW_PSEUDO_STATES[state] : '';
+      if (!rulesByBreakpoint.has(breakpoint) || pseudo === undefined) return;
+
+      const indent = breakpoint === 'main' ? '' : '  ';
+      rulesByBreakpoint.get(breakpoint)?.push(formatRule(`${selector}${pseudo}`, variant.styleLess, indent));
+    });
+  });
+
+  // Base styles first, then wider screens up, then the desktop-first cascade down
+  const order = ['main', 'large', 'xl', 'xxl', 'medium', 'small', 'tiny'];
+  const css = order
+    .map(id => {
+      const rules = rulesByBreakpoint.get(id) || [];
+      if (rules.length === 0) return '';
+      if (id === 'main') return rules.join('\n\n');
+
+      const breakpoint = WEBFLOW_BREAKPOINTS.find(bp => bp.id === id);
+      const query = breakpoint?.minWidth
+        ? `(min-width: ${breakpoint.minWidth}px)`
+        : `(max-width: ${breakpoint?.maxWidth}px)`;
+      return `@media screen and ${query} {\n${rules.join('\n\n')}\n}`;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { html, css };
+};
+
+/**
+ * Wrap exported markup into a complete HTML document. The stylesheet is
+ * either inlined or linked by file name.
+ */
+export const buildHtmlDocument = (
+  title: string,
+  { html, css }: WebflowHtmlExport,
+  stylesheetHref?: string
+): string => {
+  const styles = stylesheetHref
+    ? `  <link rel="stylesheet" href="${escapeHtml(stylesheetHref)}">`
+    : `  <style>\n${BASE_CSS}\n\n${css}\n  </style>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+${styles}
+</head>
+<body>
+${html}
+</body>
+</html>
+`;
+};
+
+/**
+ * Stylesheet to ship next to a document built with a linked stylesheet
+ */
+export const buildStylesheet = ({ css }: WebflowHtmlExport): string => `${BASE_CSS}\n\n${css}\n`;
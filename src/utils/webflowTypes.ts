@@ -0,0 +1,172 @@
+/**
+ * Types describing the `@webflow/XscpData` payload that the Webflow Designer
+ * writes to the clipboard when elements are copied.
+ */
+
+export const WEBFLOW_XSCP_TYPE = '@webflow/XscpData';
+
+export interface WebflowAttribute {
+  name: string;
+  value: string;
+}
+
+export interface WebflowLink {
+  mode?: string;
+  url?: string;
+  target?: string;
+  [key: string]: unknown;
+}
+
+export interface WebflowNodeData {
+  tag?: string;
+  text?: boolean;
+  xattr?: WebflowAttribute[];
+  attr?: Record<string, string | boolean | number | null>;
+  link?: WebflowLink;
+  img?: { id?: string; [key: string]: unknown };
+  dyn?: Record<string, unknown>;
+  embed?: Record<string, unknown>;
+  displayName?: string;
+  [key: string]: unknown;
+}
+
+export interface WebflowElementNode {
+  _id: string;
+  type: string;
+  tag: string;
+  classes: string[];
+  children: string[];
+  data?: WebflowNodeData;
+  text?: false;
+}
+
+export interface WebflowTextNode {
+  _id: string;
+  text: true;
+  v: string;
+}
+
+export type WebflowNode = WebflowElementNode | WebflowTextNode;
+
+export interface WebflowStyleVariant {
+  styleLess: string;
+}
+
+export interface WebflowStyle {
+  _id: string;
+  fake: boolean;
+  type: string;
+  name: string;
+  namespace?: string;
+  comb: string;
+  styleLess: string;
+  variants: Record<string, WebflowStyleVariant>;
+  children: string[];
+  selector?: string | null;
+  [key: string]: unknown;
+}
+
+export interface WebflowAsset {
+  _id?: string;
+  cdnUrl: string;
+  siteId?: string;
+  width?: number;
+  height?: number;
+  fileName?: string;
+  origFileName?: string;
+  fileHash?: string;
+  fileSize?: number;
+  mimeType?: string;
+  isHD?: boolean;
+  createdOn?: string;
+  variants?: unknown[];
+  [key: string]: unknown;
+}
+
+export interface WebflowIx2 {
+  interactions: unknown[];
+  events: unknown[];
+  actionLists: unknown[];
+}
+
+export interface WebflowPayload {
+  nodes: WebflowNode[];
+  styles: WebflowStyle[];
+  assets: WebflowAsset[];
+  ix1: unknown[];
+  ix2: WebflowIx2;
+}
+
+export interface WebflowMeta {
+  unlinkedSymbolCount?: number;
+  droppedLinks?: number;
+  dynBindRemovedCount?: number;
+  dynListBindRemovedCount?: number;
+  paginationRemovedCount?: number;
+  [key: string]: unknown;
+}
+
+export interface WebflowXscpData {
+  type: typeof WEBFLOW_XSCP_TYPE;
+  payload: WebflowPayload;
+  meta?: WebflowMeta;
+}
+
+export interface WebflowParseError {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export interface WebflowParseResult {
+  data: WebflowXscpData | null;
+  errors: WebflowParseError[];
+  valid: boolean;
+}
+
+export interface WebflowTreeNode {
+  id: string;
+  node: WebflowNode;
+  styles: WebflowStyle[];
+  children: WebflowTreeNode[];
+  depth: number;
+}
+
+export interface WebflowStyleReference {
+  style: WebflowStyle;
+  nodeIds: string[];
+}
+
+export interface WebflowBreakpoint {
+  id: string;
+  label: string;
+  minWidth?: number;
+  maxWidth?: number;
+}
+
+// Ordered from widest to narrowest, `main` is the desktop base
+export const WEBFLOW_BREAKPOINTS: WebflowBreakpoint[] = [
+  { id: 'xxl', label: '1920px', minWidth: 1920 },
+  { id: 'xl', label: '1440px', minWidth: 1440 },
+  { id: 'large', label: '1280px', minWidth: 1280 },
+  { id: 'main', label: 'Desktop' },
+  { id: 'medium', label: 'Tablet', maxWidth: 991 },
+  { id: 'small', label: 'Mobile landscape', maxWidth: 767 },
+  { id: 'tiny', label: 'Mobile portrait', maxWidth: 479 }
+];
+
+// Style variant suffixes (`main_hover`) and the CSS pseudo selectors they stand for
+export const WEBFLOW_PSEUDO_STATES: Record<string, string> = {
+  'hover': ':hover',
+  'focus': ':focus',
+  'focus-visible': ':focus-visible',
+  'focus-within': ':focus-within',
+  'pressed': ':active',
+  'visited': ':visited',
+  'placeholder': '::placeholder',
+  'first-child': ':first-child',
+  'last-child': ':last-child',
+  'nth-child(odd)': ':nth-child(odd)',
+  'nth-child(even)': ':nth-child(even)',
+  'empty': ':empty'
+};
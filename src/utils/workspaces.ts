@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LibraryRole } from './libraryPermissions';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  // The current user's role
+  role: LibraryRole;
+}
+
+export interface WorkspaceMember {
+  // Null for the owner, who has no membership row
+  member_id: string | null;
+  user_id: string;
+  email: string | null;
+  role: LibraryRole;
+  created_at: string;
+}
+
+/**
+ * Workspaces the user owns or belongs to, by name
+ */
+export const fetchWorkspaces = async (userId: string): Promise<Workspace[]> => {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('id, name, created_by, created_at, workspace_members(user_id, role)')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(({ workspace_members, ...workspace }) => ({
+    ...workspace,
+    role: workspace.created_by === userId
+      ? 'owner'
+      : workspace_members.find(member => member.user_id === userId)?.role || 'viewer'
+  }));
+};
+
+export const createWorkspace = async (name: string, userId: string): Promise<Workspace> => {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ name: name.trim(), created_by: userId })
+    .select('id, name, created_by, created_at')
+    .single();
+
+  if (error) throw error;
+  return { ...data, role: 'owner' };
+};
+
+export const renameWorkspace = async (workspaceId: string, name: string): Promise<void> => {
+  const { error } = await supabase
+    .from('workspaces')
+    .update({ name: name.trim() })
+    .eq('id', workspaceId);
+
+  if (error) throw error;
+};
+
+/**
+ * Delete a workspace. Its libraries stay with their owners.
+ */
+export const deleteWorkspace = async (workspaceId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('workspaces')
+    .delete()
+    .eq('id', workspaceId);
+
+  if (error) throw error;
+};
+
+/**
+ * Everyone in a workspace, the owner first
+ */
+export const fetchWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  const { data, error } = await supabase.rpc('get_workspace_members', { workspace_id: workspaceId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Add a user by email. Returns false when no account uses the address.
+ */
+export const addWorkspaceMember = async (
+  workspaceId: string,
+  email: string,
+  role: LibraryRole,
+  userId: string
+): Promise<boolean> => {
+  const { data: memberId, error: lookupError } = await supabase.rpc('get_user_id_by_email', {
+    email_input: email.toLowerCase().trim()
+  });
+
+  if (lookupError) throw lookupError;
+  if (!memberId) return false;
+
+  const { error } = await supabase
+    .from('workspace_members')
+    .insert({ workspace_id: workspaceId, user_id: memberId, role, added_by: userId });
+
+  if (error) throw error;
+  return true;
+};
+
+export const updateWorkspaceMemberRole = async (memberId: string, role: LibraryRole): Promise<void> => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('id', memberId);
+
+  if (error) throw error;
+};
+
+export const removeWorkspaceMember = async (memberId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('id', memberId);
+
+  if (error) throw error;
+};
+
+/**
+ * Move a library into a workspace, or back to personal with null
+ */
+export const setLibraryWorkspace = async (libraryId: string, workspaceId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('user_libraries')
+    .update({ workspace_id: workspaceId })
+    .eq('id', libraryId);
+
+  if (error) throw error;
+};
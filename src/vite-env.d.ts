@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "local" keeps everything in the browser instead of Supabase
+  readonly VITE_STORAGE_BACKEND?: 'supabase' | 'local';
+}
@@ -0,0 +1,62 @@
+// Emails a library invitation with Supabase's invite template. Runs with the
+// service role so browsers never create accounts for the addresses typed in.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (request) => {
+  if (request.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const { invitation_id, site_url } = await request.json().catch(() => ({}));
+  if (typeof invitation_id !== "string" || typeof site_url !== "string") {
+    return respond({ error: "invitation_id and site_url are required" }, 400);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+
+  // Read the invitation as the caller, so only the library's admins can send it
+  const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: request.headers.get("Authorization") || "" } },
+  });
+
+  const { data: invitation, error } = await caller
+    .from("library_invitations")
+    .select("email, token, accepted_at")
+    .eq("id", invitation_id)
+    .maybeSingle();
+
+  if (error) return respond({ error: error.message }, 500);
+  if (!invitation || invitation.accepted_at) {
+    return respond({ error: "Invitation not found" }, 404);
+  }
+
+  const { data: details, error: detailsError } = await caller.rpc("get_library_invitation", {
+    invitation_token: invitation.token,
+  });
+
+  if (detailsError) return respond({ error: detailsError.message }, 500);
+
+  // The invite template can show these as {{ .Data.library_name }} and {{ .Data.invited_by }}
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(invitation.email, {
+    redirectTo: `${site_url.replace(/\/$/, "")}/invite/${invitation.token}`,
+    data: {
+      library_name: details?.[0]?.library_name ?? null,
+      invited_by: details?.[0]?.invited_by_email ?? null,
+    },
+  });
+
+  if (inviteError) return respond({ error: inviteError.message }, 422);
+  return respond({ sent: true });
+});
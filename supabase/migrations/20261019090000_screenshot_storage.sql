@@ -0,0 +1,28 @@
+-- Screenshots are stored in a public bucket instead of inline base64 strings
+insert into storage.buckets (id, name, public)
+values ('screenshots', 'screenshots', true)
+on conflict (id) do nothing;
+
+-- Files live under a folder named after the uploading user
+create policy "Screenshots are publicly readable"
+  on storage.objects for select
+  using (bucket_id = 'screenshots');
+
+create policy "Users can upload screenshots to their own folder"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'screenshots'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Users can delete screenshots in their own folder"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'screenshots'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+alter table public.shared_clipboard_items
+  add column if not exists thumbnail_url text;
@@ -0,0 +1,147 @@
+-- Searchable fields extracted from the stored clipboard content
+alter table public.shared_clipboard_items
+  add column if not exists class_names text[] not null default '{}',
+  add column if not exists element_types text[] not null default '{}',
+  add column if not exists search_vector tsvector;
+
+create or replace function public.update_clipboard_search_fields()
+returns trigger
+language plpgsql
+as $$
+declare
+  payload jsonb;
+  text_content text := '';
+begin
+  new.class_names := '{}';
+  new.element_types := '{}';
+
+  -- Content that is not Webflow JSON is searched as plain text
+  begin
+    payload := new.content::jsonb -> 'payload';
+
+    select coalesce(array_agg(distinct style ->> 'name'), '{}')
+      into new.class_names
+      from jsonb_array_elements(payload -> 'styles') as style
+      where style ->> 'name' is not null;
+
+    select coalesce(array_agg(distinct node ->> 'type'), '{}')
+      into new.element_types
+      from jsonb_array_elements(payload -> 'nodes') as node
+      where node ->> 'type' is not null;
+
+    select coalesce(string_agg(node ->> 'v', ' '), '')
+      into text_content
+      from jsonb_array_elements(payload -> 'nodes') as node
+      where (node ->> 'text')::boolean and node ->> 'v' is not null;
+  exception when others then
+    payload := null;
+  end;
+
+  if payload is null then
+    text_content := new.content;
+  end if;
+
+  new.search_vector :=
+    setweight(to_tsvector('simple', coalesce(new.title, '')), 'A') ||
+    setweight(to_tsvector('simple', array_to_string(new.class_names, ' ')), 'B') ||
+    setweight(to_tsvector('simple', left(text_content, 100000)), 'C');
+
+  return new;
+end;
+$$;
+
+create trigger update_clipboard_search_fields
+  before insert or update of title, content on public.shared_clipboard_items
+  for each row execute function public.update_clipboard_search_fields();
+
+-- Backfill existing rows through the trigger
+update public.shared_clipboard_items set content = content;
+
+create index if not exists shared_clipboard_items_search_vector_idx
+  on public.shared_clipboard_items using gin (search_vector);
+
+-- Items in every library the current user can access, optionally filtered.
+-- Class names and element types match on substrings, free text on words.
+create or replace function public.search_clipboard_items(
+  search_text text default '',
+  class_query text default null,
+  type_query text default null,
+  filter_library_id uuid default null,
+  filter_author_id uuid default null,
+  created_after timestamptz default null,
+  result_limit integer default 50
+)
+returns table (
+  id uuid,
+  title text,
+  content_type text,
+  created_at timestamptz,
+  created_by uuid,
+  author_email text,
+  library_id uuid,
+  library_name text,
+  thumbnail_url text,
+  class_names text[],
+  element_types text[],
+  rank real
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    item.id,
+    item.title,
+    item.content_type,
+    item.created_at,
+    item.created_by,
+    author.email,
+    item.library_id,
+    library.name,
+    item.thumbnail_url,
+    item.class_names,
+    item.element_types,
+    case
+      when coalesce(search_text, '') = '' then 0
+      else ts_rank(item.search_vector, websearch_to_tsquery('simple', search_text))
+    end as rank
+  from shared_clipboard_items item
+  join user_libraries library on library.id = item.library_id
+  left join users author on author.id = item.created_by
+  where has_library_access(item.library_id, auth.uid())
+    and (filter_library_id is null or item.library_id = filter_library_id)
+    and (filter_author_id is null or item.created_by = filter_author_id)
+    and (created_after is null or item.created_at >= created_after)
+    and (
+      coalesce(search_text, '') = ''
+      or item.search_vector @@ websearch_to_tsquery('simple', search_text)
+      or item.title ilike '%' || search_text || '%'
+    )
+    and (
+      class_query is null
+      or exists (select 1 from unnest(item.class_names) name where name ilike '%' || class_query || '%')
+    )
+    and (
+      type_query is null
+      or exists (select 1 from unnest(item.element_types) type where type ilike type_query || '%')
+    )
+  order by rank desc, item.created_at desc
+  limit result_limit;
+$$;
+
+-- Libraries and authors that can be used to narrow a search
+create or replace function public.get_search_facets()
+returns table (kind text, id uuid, label text)
+language sql
+stable
+set search_path = public
+as $$
+  select distinct 'library', library.id, library.name
+  from user_libraries library
+  where has_library_access(library.id, auth.uid())
+  union
+  select distinct 'author', author.id, author.email
+  from shared_clipboard_items item
+  join users author on author.id = item.created_by
+  where has_library_access(item.library_id, auth.uid());
+$$;
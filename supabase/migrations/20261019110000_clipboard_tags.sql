@@ -0,0 +1,98 @@
+-- Each library has its own tag vocabulary, e.g. Navbars, Heroes, Footers
+create table public.library_tags (
+  id uuid primary key default gen_random_uuid(),
+  library_id uuid not null references public.user_libraries (id) on delete cascade,
+  name text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (library_id, name)
+);
+
+create table public.clipboard_item_tags (
+  item_id uuid not null references public.shared_clipboard_items (id) on delete cascade,
+  tag_id uuid not null references public.library_tags (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (item_id, tag_id)
+);
+
+create index clipboard_item_tags_tag_id_idx on public.clipboard_item_tags (tag_id);
+
+-- Owners and collaborators with edit permission can change a library's content
+create or replace function public.can_edit_library(library_id uuid, current_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from user_libraries
+    where id = can_edit_library.library_id and created_by = current_user_id
+  ) or exists (
+    select 1 from shared_library_permissions
+    where shared_library_permissions.library_id = can_edit_library.library_id
+      and shared_with = current_user_id
+      and can_edit
+  );
+$$;
+
+alter table public.library_tags enable row level security;
+alter table public.clipboard_item_tags enable row level security;
+
+create policy "Library members can view tags"
+  on public.library_tags for select
+  using (has_library_access(library_id, auth.uid()));
+
+create policy "Library editors can create tags"
+  on public.library_tags for insert
+  with check (can_edit_library(library_id, auth.uid()));
+
+create policy "Library editors can delete tags"
+  on public.library_tags for delete
+  using (can_edit_library(library_id, auth.uid()));
+
+create policy "Library members can view item tags"
+  on public.clipboard_item_tags for select
+  using (exists (
+    select 1 from library_tags tag
+    where tag.id = tag_id and has_library_access(tag.library_id, auth.uid())
+  ));
+
+create policy "Library editors can tag items"
+  on public.clipboard_item_tags for insert
+  with check (exists (
+    select 1 from library_tags tag
+    join shared_clipboard_items item on item.library_id = tag.library_id
+    where tag.id = tag_id and item.id = item_id and can_edit_library(tag.library_id, auth.uid())
+  ));
+
+create policy "Library editors can untag items"
+  on public.clipboard_item_tags for delete
+  using (exists (
+    select 1 from library_tags tag
+    where tag.id = tag_id and can_edit_library(tag.library_id, auth.uid())
+  ));
+
+-- Tags belong to a library, so they don't follow an item into another one
+create or replace function public.remove_foreign_item_tags()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from clipboard_item_tags
+  where item_id = new.id
+    and tag_id in (
+      select id from library_tags
+      where library_id is distinct from new.library_id
+    );
+  return new;
+end;
+$$;
+
+create trigger remove_foreign_item_tags
+  after update of library_id on public.shared_clipboard_items
+  for each row
+  when (old.library_id is distinct from new.library_id)
+  execute function public.remove_foreign_item_tags();
@@ -0,0 +1,73 @@
+-- Every saved version of an item's title and content
+create table public.clipboard_item_revisions (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.shared_clipboard_items (id) on delete cascade,
+  title text not null,
+  content text not null,
+  created_by uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index clipboard_item_revisions_item_id_idx
+  on public.clipboard_item_revisions (item_id, created_at desc);
+
+-- Lets editors detect that someone else saved in the meantime
+alter table public.shared_clipboard_items
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.shared_clipboard_items set updated_at = created_at;
+
+create or replace function public.touch_clipboard_item()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger touch_clipboard_item
+  before update of title, content on public.shared_clipboard_items
+  for each row
+  when (old.title is distinct from new.title or old.content is distinct from new.content)
+  execute function public.touch_clipboard_item();
+
+create or replace function public.record_clipboard_item_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into clipboard_item_revisions (item_id, title, content, created_by, created_at)
+  values (new.id, new.title, new.content, coalesce(auth.uid(), new.created_by), new.updated_at);
+  return new;
+end;
+$$;
+
+create trigger record_clipboard_item_created
+  after insert on public.shared_clipboard_items
+  for each row execute function public.record_clipboard_item_revision();
+
+create trigger record_clipboard_item_revision
+  after update of title, content on public.shared_clipboard_items
+  for each row
+  when (old.title is distinct from new.title or old.content is distinct from new.content)
+  execute function public.record_clipboard_item_revision();
+
+-- The current state of existing items is their first revision
+insert into public.clipboard_item_revisions (item_id, title, content, created_by, created_at)
+select id, title, content, created_by, created_at
+from public.shared_clipboard_items;
+
+-- Revisions are only written by the triggers above
+alter table public.clipboard_item_revisions enable row level security;
+
+create policy "Users can view revisions of items they can access"
+  on public.clipboard_item_revisions for select
+  using (exists (
+    select 1 from shared_clipboard_items item
+    where item.id = item_id
+      and (item.created_by = auth.uid() or has_library_access(item.library_id, auth.uid()))
+  ));
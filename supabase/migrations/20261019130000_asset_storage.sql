@@ -0,0 +1,26 @@
+-- Assets referenced by saved Webflow components are rehosted here so items
+-- keep working after the source site's CDN files are deleted
+insert into storage.buckets (id, name, public)
+values ('assets', 'assets', true)
+on conflict (id) do nothing;
+
+-- Files live under a folder named after the uploading user
+create policy "Assets are publicly readable"
+  on storage.objects for select
+  using (bucket_id = 'assets');
+
+create policy "Users can upload assets to their own folder"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'assets'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Users can delete assets in their own folder"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'assets'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
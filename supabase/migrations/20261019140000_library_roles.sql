@@ -0,0 +1,218 @@
+-- Library members get one role instead of separate edit and delete flags.
+-- Enum values are ordered, so `role >= 'editor'` reads "editor or above".
+create type public.library_role as enum ('viewer', 'contributor', 'editor', 'admin', 'owner');
+
+alter table public.shared_library_permissions
+  add column role public.library_role not null default 'viewer';
+
+-- Either flag let a member change every item, which is what editors do
+update public.shared_library_permissions
+set role = 'editor'
+where can_edit or can_delete;
+
+-- Keep the strongest membership when a library was shared with someone twice
+delete from public.shared_library_permissions
+where id in (
+  select id from (
+    select id, row_number() over (
+      partition by library_id, shared_with
+      order by role desc, created_at
+    ) as position
+    from public.shared_library_permissions
+  ) ranked
+  where position > 1
+);
+
+create unique index if not exists shared_library_permissions_member_idx
+  on public.shared_library_permissions (library_id, shared_with);
+
+-- The owner is user_libraries.created_by and has no membership row
+alter table public.shared_library_permissions
+  add constraint shared_library_permissions_role_check check (role <> 'owner');
+
+-- Policies written before roles read the flags, so derive them from the role
+create or replace function public.sync_legacy_permission_flags()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.can_edit := new.role >= 'editor';
+  new.can_delete := new.role >= 'editor';
+  return new;
+end;
+$$;
+
+create trigger sync_legacy_permission_flags
+  before insert or update on public.shared_library_permissions
+  for each row
+  execute function public.sync_legacy_permission_flags();
+
+-- Single place that decides what a user may do in a library
+create or replace function public.get_library_role(library_id uuid, current_user_id uuid)
+returns public.library_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (
+      select 1 from user_libraries
+      where id = get_library_role.library_id and created_by = current_user_id
+    ) then 'owner'::library_role
+    else (
+      select role from shared_library_permissions
+      where shared_library_permissions.library_id = get_library_role.library_id
+        and shared_with = current_user_id
+    )
+  end;
+$$;
+
+create or replace function public.get_library_permissions(library_id uuid)
+returns table (
+  role public.library_role,
+  can_add_items boolean,
+  can_edit_items boolean,
+  can_delete_items boolean,
+  can_manage_members boolean,
+  can_manage_library boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    resolved.role,
+    coalesce(resolved.role >= 'contributor', false),
+    coalesce(resolved.role >= 'editor', false),
+    coalesce(resolved.role >= 'editor', false),
+    coalesce(resolved.role >= 'admin', false),
+    coalesce(resolved.role = 'owner', false)
+  from (
+    select get_library_role(get_library_permissions.library_id, auth.uid()) as role
+  ) resolved;
+$$;
+
+-- Contributors add content, so they can create and apply tags too
+create or replace function public.can_edit_library(library_id uuid, current_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(get_library_role(can_edit_library.library_id, current_user_id) >= 'contributor', false);
+$$;
+
+-- Members with their emails, the owner first
+create or replace function public.get_library_members(library_id uuid)
+returns table (
+  permission_id uuid,
+  user_id uuid,
+  email text,
+  role public.library_role,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select null::uuid, library.created_by, owner.email, 'owner'::library_role, library.created_at
+  from user_libraries library
+  left join users owner on owner.id = library.created_by
+  where library.id = get_library_members.library_id
+    and get_library_role(library.id, auth.uid()) is not null
+  union all
+  select permission.id, permission.shared_with, member.email, permission.role, permission.created_at
+  from shared_library_permissions permission
+  left join users member on member.id = permission.shared_with
+  where permission.library_id = get_library_members.library_id
+    and get_library_role(permission.library_id, auth.uid()) is not null
+  order by 4 desc, 3;
+$$;
+
+-- The previous owner stays on as an admin
+create or replace function public.transfer_library_ownership(library_id uuid, new_owner_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  previous_owner_id uuid;
+begin
+  select created_by into previous_owner_id
+  from user_libraries
+  where id = transfer_library_ownership.library_id;
+
+  if previous_owner_id is null or previous_owner_id <> auth.uid() then
+    raise exception 'Only the owner can transfer a library';
+  end if;
+
+  delete from shared_library_permissions
+  where shared_library_permissions.library_id = transfer_library_ownership.library_id
+    and shared_with = new_owner_id;
+
+  if not found then
+    raise exception 'The new owner must already be a member of the library';
+  end if;
+
+  update user_libraries
+  set created_by = new_owner_id
+  where id = transfer_library_ownership.library_id;
+
+  insert into shared_library_permissions (library_id, shared_by, shared_with, role)
+  values (transfer_library_ownership.library_id, new_owner_id, previous_owner_id, 'admin');
+end;
+$$;
+
+-- Admins manage members below them; only the owner can add or change admins
+create policy "Members can view library members"
+  on public.shared_library_permissions for select
+  using (get_library_role(library_id, auth.uid()) is not null);
+
+create policy "Admins can add members"
+  on public.shared_library_permissions for insert
+  with check (
+    get_library_role(library_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_library_role(library_id, auth.uid()) = 'owner')
+  );
+
+create policy "Admins can change members"
+  on public.shared_library_permissions for update
+  using (
+    get_library_role(library_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_library_role(library_id, auth.uid()) = 'owner')
+  )
+  with check (
+    get_library_role(library_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_library_role(library_id, auth.uid()) = 'owner')
+  );
+
+create policy "Admins can remove members and members can leave"
+  on public.shared_library_permissions for delete
+  using (
+    shared_with = auth.uid()
+    or (
+      get_library_role(library_id, auth.uid()) >= 'admin'
+      and (role < 'admin' or get_library_role(library_id, auth.uid()) = 'owner')
+    )
+  );
+
+-- Authors keep the existing policies for their own items
+create policy "Contributors can add items"
+  on public.shared_clipboard_items for insert
+  with check (
+    created_by = auth.uid()
+    and get_library_role(library_id, auth.uid()) >= 'contributor'
+  );
+
+create policy "Editors can update any item"
+  on public.shared_clipboard_items for update
+  using (get_library_role(library_id, auth.uid()) >= 'editor');
+
+create policy "Editors can delete any item"
+  on public.shared_clipboard_items for delete
+  using (get_library_role(library_id, auth.uid()) >= 'editor');
@@ -0,0 +1,184 @@
+-- Invitations for people who don't have an account yet. They become
+-- shared_library_permissions rows once the invitee confirms their email or
+-- opens the invite link.
+create table if not exists public.library_invitations (
+  id uuid primary key default gen_random_uuid(),
+  library_id uuid not null references public.user_libraries(id) on delete cascade,
+  email text not null,
+  role public.library_role not null default 'viewer',
+  token uuid not null unique default gen_random_uuid(),
+  invited_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  last_sent_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '14 days',
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users(id) on delete set null,
+  constraint library_invitations_role_check check (role <> 'owner'),
+  constraint library_invitations_email_check check (email = lower(trim(email)))
+);
+
+-- One pending invitation per address and library
+create unique index if not exists library_invitations_pending_idx
+  on public.library_invitations (library_id, email)
+  where accepted_at is null;
+
+create index if not exists library_invitations_email_idx
+  on public.library_invitations (email)
+  where accepted_at is null;
+
+alter table public.library_invitations enable row level security;
+
+-- Same rules as memberships: admins invite below them, the owner invites anyone
+create policy "Admins can view invitations"
+  on public.library_invitations for select
+  using (get_library_role(library_id, auth.uid()) >= 'admin');
+
+create policy "Admins can invite"
+  on public.library_invitations for insert
+  with check (
+    invited_by = auth.uid()
+    and get_library_role(library_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_library_role(library_id, auth.uid()) = 'owner')
+  );
+
+create policy "Admins can resend invitations"
+  on public.library_invitations for update
+  using (get_library_role(library_id, auth.uid()) >= 'admin')
+  with check (
+    get_library_role(library_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_library_role(library_id, auth.uid()) = 'owner')
+  );
+
+create policy "Admins can revoke invitations"
+  on public.library_invitations for delete
+  using (get_library_role(library_id, auth.uid()) >= 'admin');
+
+-- Turn an invitation into a membership. An existing membership keeps the
+-- higher of the two roles.
+create or replace function public.grant_library_invitation(invitation public.library_invitations, member_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- The owner needs no membership
+  if not exists (
+    select 1 from user_libraries
+    where id = invitation.library_id and created_by = member_id
+  ) then
+    insert into shared_library_permissions (library_id, shared_by, shared_with, role)
+    values (invitation.library_id, invitation.invited_by, member_id, invitation.role)
+    on conflict (library_id, shared_with)
+    do update set role = greatest(shared_library_permissions.role, excluded.role);
+  end if;
+
+  update library_invitations
+  set accepted_at = now(), accepted_by = member_id
+  where id = invitation.id;
+end;
+$$;
+
+-- Only reachable through the checks in the functions below
+revoke execute on function public.grant_library_invitation(public.library_invitations, uuid)
+  from public, anon, authenticated;
+
+-- What the invite page shows, readable before signing in with the token alone
+create or replace function public.get_library_invitation(invitation_token uuid)
+returns table (
+  library_id uuid,
+  library_name text,
+  email text,
+  role public.library_role,
+  invited_by_email text,
+  expires_at timestamptz,
+  accepted_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    invitation.library_id,
+    library.name,
+    invitation.email,
+    invitation.role,
+    inviter.email,
+    invitation.expires_at,
+    invitation.accepted_at
+  from library_invitations invitation
+  join user_libraries library on library.id = invitation.library_id
+  left join users inviter on inviter.id = invitation.invited_by
+  where invitation.token = invitation_token;
+$$;
+
+-- The link is the credential, so whoever opens it signed in joins the library,
+-- even with a different address than the one invited
+create or replace function public.accept_library_invitation(invitation_token uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation library_invitations;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to accept the invitation';
+  end if;
+
+  select * into invitation
+  from library_invitations
+  where token = invitation_token
+  for update;
+
+  if not found then
+    raise exception 'This invitation was revoked or does not exist';
+  end if;
+
+  if invitation.accepted_at is not null then
+    if invitation.accepted_by = auth.uid() then
+      return invitation.library_id;
+    end if;
+    raise exception 'This invitation has already been used';
+  end if;
+
+  if invitation.expires_at < now() then
+    raise exception 'This invitation has expired. Ask for a new one.';
+  end if;
+
+  perform grant_library_invitation(invitation, auth.uid());
+  return invitation.library_id;
+end;
+$$;
+
+-- Convert pending invitations once a new account's email is confirmed, so
+-- invitees find the libraries waiting for them on first sign-in
+create or replace function public.convert_library_invitations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation library_invitations;
+begin
+  for invitation in
+    select * from library_invitations
+    where email = lower(new.email)
+      and accepted_at is null
+      and expires_at >= now()
+  loop
+    perform grant_library_invitation(invitation, new.id);
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger convert_library_invitations_on_confirm
+  after insert or update of email_confirmed_at on auth.users
+  for each row
+  when (new.email_confirmed_at is not null and new.email is not null)
+  execute function public.convert_library_invitations();
@@ -0,0 +1,248 @@
+-- Workspaces group libraries for a team. Members get their workspace role in
+-- every library of the workspace; a membership row on a single library
+-- overrides it for that library.
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role public.library_role not null default 'viewer',
+  added_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- The creator owns the workspace and has no membership row
+  constraint workspace_members_role_check check (role <> 'owner'),
+  unique (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx on public.workspace_members (user_id);
+
+-- Removing a workspace keeps its libraries with their owners
+alter table public.user_libraries
+  add column if not exists workspace_id uuid references public.workspaces(id) on delete set null;
+
+create index if not exists user_libraries_workspace_idx on public.user_libraries (workspace_id);
+
+create or replace function public.get_workspace_role(workspace_id uuid, current_user_id uuid)
+returns public.library_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (
+      select 1 from workspaces
+      where id = get_workspace_role.workspace_id and created_by = current_user_id
+    ) then 'owner'::library_role
+    else (
+      select role from workspace_members
+      where workspace_members.workspace_id = get_workspace_role.workspace_id
+        and user_id = current_user_id
+    )
+  end;
+$$;
+
+-- Library owner first, then a library membership, then the workspace role.
+-- The workspace owner always administers the workspace's libraries.
+create or replace function public.get_library_role(library_id uuid, current_user_id uuid)
+returns public.library_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when library.created_by = current_user_id then 'owner'::library_role
+    when workspace_role = 'owner' then greatest(membership.role, 'admin'::library_role)
+    else coalesce(membership.role, workspace_role)
+  end
+  from user_libraries library
+  left join shared_library_permissions membership
+    on membership.library_id = library.id and membership.shared_with = current_user_id
+  cross join lateral (
+    select get_workspace_role(library.workspace_id, current_user_id) as workspace_role
+  ) workspace
+  where library.id = get_library_role.library_id;
+$$;
+
+-- Policies written before workspaces check access through this function
+create or replace function public.has_library_access(library_id uuid, current_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select get_library_role(has_library_access.library_id, current_user_id) is not null;
+$$;
+
+create policy "Members can view workspace libraries"
+  on public.user_libraries for select
+  using (get_library_role(id, auth.uid()) is not null);
+
+create policy "Members can view library items"
+  on public.shared_clipboard_items for select
+  using (get_library_role(library_id, auth.uid()) is not null);
+
+-- Only members who can add to a workspace may move their libraries into it
+create or replace function public.check_library_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.workspace_id is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.workspace_id is not distinct from old.workspace_id then
+    return new;
+  end if;
+
+  if coalesce(get_workspace_role(new.workspace_id, auth.uid()) >= 'contributor', false) = false then
+    raise exception 'You can only move libraries into workspaces you contribute to';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger check_library_workspace
+  before insert or update of workspace_id on public.user_libraries
+  for each row
+  execute function public.check_library_workspace();
+
+-- Members now include everyone with access, marked by where it comes from
+drop function if exists public.get_library_members(uuid);
+
+create or replace function public.get_library_members(library_id uuid)
+returns table (
+  permission_id uuid,
+  user_id uuid,
+  email text,
+  role public.library_role,
+  source text,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with library as (
+    select * from user_libraries
+    where id = get_library_members.library_id
+      and get_library_role(id, auth.uid()) is not null
+  )
+  select null::uuid, library.created_by, owner.email, 'owner'::library_role, 'owner', library.created_at
+  from library
+  left join users owner on owner.id = library.created_by
+  union all
+  select permission.id, permission.shared_with, member.email, permission.role, 'library', permission.created_at
+  from library
+  join shared_library_permissions permission on permission.library_id = library.id
+  left join users member on member.id = permission.shared_with
+  union all
+  select null::uuid, workspace_user.user_id, member.email, workspace_user.role, 'workspace', workspace_user.created_at
+  from library
+  join (
+    select workspace_members.workspace_id, workspace_members.user_id, workspace_members.role, workspace_members.created_at
+    from workspace_members
+    union all
+    select workspaces.id, workspaces.created_by, 'admin'::library_role, workspaces.created_at
+    from workspaces
+  ) workspace_user on workspace_user.workspace_id = library.workspace_id
+  left join users member on member.id = workspace_user.user_id
+  where workspace_user.user_id <> library.created_by
+    and not exists (
+      select 1 from shared_library_permissions permission
+      where permission.library_id = library.id and permission.shared_with = workspace_user.user_id
+    )
+  order by 4 desc, 3;
+$$;
+
+create or replace function public.get_workspace_members(workspace_id uuid)
+returns table (
+  member_id uuid,
+  user_id uuid,
+  email text,
+  role public.library_role,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select null::uuid, workspace.created_by, owner.email, 'owner'::library_role, workspace.created_at
+  from workspaces workspace
+  left join users owner on owner.id = workspace.created_by
+  where workspace.id = get_workspace_members.workspace_id
+    and get_workspace_role(workspace.id, auth.uid()) is not null
+  union all
+  select membership.id, membership.user_id, member.email, membership.role, membership.created_at
+  from workspace_members membership
+  left join users member on member.id = membership.user_id
+  where membership.workspace_id = get_workspace_members.workspace_id
+    and get_workspace_role(membership.workspace_id, auth.uid()) is not null
+  order by 4 desc, 3;
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+create policy "Members can view workspaces"
+  on public.workspaces for select
+  using (get_workspace_role(id, auth.uid()) is not null);
+
+create policy "Users can create workspaces"
+  on public.workspaces for insert
+  with check (created_by = auth.uid());
+
+create policy "Owners can rename workspaces"
+  on public.workspaces for update
+  using (created_by = auth.uid());
+
+create policy "Owners can delete workspaces"
+  on public.workspaces for delete
+  using (created_by = auth.uid());
+
+-- Same rules as library members: admins manage members below them
+create policy "Members can view workspace members"
+  on public.workspace_members for select
+  using (get_workspace_role(workspace_id, auth.uid()) is not null);
+
+create policy "Admins can add workspace members"
+  on public.workspace_members for insert
+  with check (
+    get_workspace_role(workspace_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_workspace_role(workspace_id, auth.uid()) = 'owner')
+  );
+
+create policy "Admins can change workspace members"
+  on public.workspace_members for update
+  using (
+    get_workspace_role(workspace_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_workspace_role(workspace_id, auth.uid()) = 'owner')
+  )
+  with check (
+    get_workspace_role(workspace_id, auth.uid()) >= 'admin'
+    and (role < 'admin' or get_workspace_role(workspace_id, auth.uid()) = 'owner')
+  );
+
+create policy "Admins can remove workspace members and members can leave"
+  on public.workspace_members for delete
+  using (
+    user_id = auth.uid()
+    or (
+      get_workspace_role(workspace_id, auth.uid()) >= 'admin'
+      and (role < 'admin' or get_workspace_role(workspace_id, auth.uid()) = 'owner')
+    )
+  );
@@ -0,0 +1,143 @@
+-- Read-only links that publish a library to anyone who has the URL, without
+-- an account. Links can expire, require a password and be revoked.
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.library_public_links (
+  id uuid primary key default gen_random_uuid(),
+  library_id uuid not null references public.user_libraries(id) on delete cascade,
+  -- 32 random bytes, so links can't be guessed or enumerated
+  token text not null unique default encode(extensions.gen_random_bytes(32), 'hex'),
+  created_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz,
+  password_hash text,
+  has_password boolean generated always as (password_hash is not null) stored
+);
+
+create index if not exists library_public_links_library_idx on public.library_public_links (library_id);
+
+alter table public.library_public_links enable row level security;
+
+-- The password hash never leaves the database
+revoke select on public.library_public_links from anon, authenticated;
+grant select (id, library_id, token, created_by, created_at, expires_at, has_password)
+  on public.library_public_links to authenticated;
+
+create policy "Admins can view public links"
+  on public.library_public_links for select
+  using (get_library_role(library_id, auth.uid()) >= 'admin');
+
+create policy "Admins can revoke public links"
+  on public.library_public_links for delete
+  using (get_library_role(library_id, auth.uid()) >= 'admin');
+
+-- Links are created here so the password is hashed before it is stored
+create or replace function public.create_public_library_link(
+  library_id uuid,
+  expires_at timestamptz default null,
+  link_password text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  link_id uuid;
+begin
+  if coalesce(get_library_role(create_public_library_link.library_id, auth.uid()) >= 'admin', false) = false then
+    raise exception 'Only admins can publish a library';
+  end if;
+
+  if expires_at is not null and expires_at <= now() then
+    raise exception 'The expiry date must be in the future';
+  end if;
+
+  insert into library_public_links (library_id, created_by, expires_at, password_hash)
+  values (
+    create_public_library_link.library_id,
+    auth.uid(),
+    create_public_library_link.expires_at,
+    case when nullif(link_password, '') is null then null else crypt(link_password, gen_salt('bf')) end
+  )
+  returning id into link_id;
+
+  return link_id;
+end;
+$$;
+
+-- What a visitor sees before entering a password. No row means the link was
+-- revoked or never existed.
+create or replace function public.get_public_link_status(link_token text)
+returns table (
+  library_name text,
+  requires_password boolean,
+  expires_at timestamptz,
+  expired boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    library.name,
+    link.has_password,
+    link.expires_at,
+    coalesce(link.expires_at < now(), false)
+  from library_public_links link
+  join user_libraries library on library.id = link.library_id
+  where link.token = link_token;
+$$;
+
+-- Items of a published library, newest first
+create or replace function public.get_public_library(link_token text, link_password text default null)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  link library_public_links;
+  library_name text;
+begin
+  select * into link from library_public_links where token = link_token;
+
+  if not found then
+    raise exception 'This link was revoked or does not exist';
+  end if;
+
+  if link.expires_at is not null and link.expires_at < now() then
+    raise exception 'This link has expired';
+  end if;
+
+  if link.password_hash is not null
+    and (link_password is null or crypt(link_password, link.password_hash) <> link.password_hash)
+  then
+    raise exception 'Incorrect password';
+  end if;
+
+  select name into library_name from user_libraries where id = link.library_id;
+
+  return jsonb_build_object(
+    'library_name', library_name,
+    'items', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', item.id,
+        'title', item.title,
+        'content', item.content,
+        'content_type', item.content_type,
+        'created_at', item.created_at,
+        'screenshot_url', item.screenshot_url,
+        'thumbnail_url', item.thumbnail_url
+      ) order by item.created_at desc)
+      from shared_clipboard_items item
+      where item.library_id = link.library_id
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+grant execute on function public.get_public_link_status(text) to anon, authenticated;
+grant execute on function public.get_public_library(text, text) to anon, authenticated;
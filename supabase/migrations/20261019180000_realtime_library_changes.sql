@@ -0,0 +1,23 @@
+-- Broadcast changes to libraries, their items and who can access them, so
+-- open clients update without reloading. Realtime applies the tables' RLS
+-- policies, so members only receive changes to libraries they can see.
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'shared_clipboard_items',
+    'user_libraries',
+    'shared_library_permissions',
+    'workspace_members'
+  ]
+  loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,79 @@
+-- Screenshots of deleted items, which whoever deleted the item may remove
+-- from storage even when the files sit in another user's folder. Only files
+-- in the folder of the item's author count, so an item pointing at someone
+-- else's upload can't be used to delete it.
+create table if not exists public.deleted_screenshots (
+  name text primary key,
+  deleted_by uuid not null references auth.users(id) on delete cascade,
+  deleted_at timestamptz not null default now()
+);
+
+alter table public.deleted_screenshots enable row level security;
+
+create or replace function public.record_deleted_screenshots()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return old;
+  end if;
+
+  insert into deleted_screenshots (name, deleted_by)
+  select name, auth.uid()
+  from (
+    select split_part(url, '/storage/v1/object/public/screenshots/', 2) as name
+    from unnest(array[old.screenshot_url, old.thumbnail_url]) as url
+    where url like '%/storage/v1/object/public/screenshots/%'
+  ) as files
+  where split_part(name, '/', 1) = old.created_by::text
+  on conflict (name) do update set deleted_by = excluded.deleted_by, deleted_at = now();
+
+  return old;
+end;
+$$;
+
+create trigger record_deleted_screenshots
+  after delete on public.shared_clipboard_items
+  for each row execute function public.record_deleted_screenshots();
+
+create or replace function public.can_remove_screenshot(object_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from deleted_screenshots
+    where name = object_name and deleted_by = auth.uid()
+  );
+$$;
+
+create policy "Users can delete screenshots of items they deleted"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'screenshots'
+    and public.can_remove_screenshot(name)
+  );
+
+create or replace function public.forget_deleted_screenshot()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from deleted_screenshots where name = old.name;
+  return old;
+end;
+$$;
+
+create trigger forget_deleted_screenshot
+  after delete on storage.objects
+  for each row
+  when (old.bucket_id = 'screenshots')
+  execute function public.forget_deleted_screenshot();
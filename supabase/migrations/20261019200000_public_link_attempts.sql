@@ -0,0 +1,97 @@
+-- Wrong passwords are counted per link and per visitor, and a visitor who
+-- keeps getting them stops having passwords checked for a few minutes. Other
+-- visitors of the link are not affected.
+create table if not exists public.public_link_attempts (
+  link_id uuid not null references public.library_public_links(id) on delete cascade,
+  -- The visitor's address as forwarded to the API
+  client text not null,
+  failed_attempts integer not null default 0,
+  locked_until timestamptz,
+  primary key (link_id, client)
+);
+
+-- Only get_public_library reads and writes attempts
+alter table public.public_link_attempts enable row level security;
+
+-- Failures are reported in the result rather than raised, as raising would
+-- roll back the recorded attempt. Wrong passwords and lockouts get the
+-- same message so a visitor can't tell them apart.
+create or replace function public.get_public_library(link_token text, link_password text default null)
+returns jsonb
+language plpgsql
+volatile
+security definer
+set search_path = public, extensions
+as $$
+declare
+  max_attempts constant integer := 5;
+  lockout constant interval := interval '1 minute';
+  max_lockout constant interval := interval '5 minutes';
+  denied constant text := 'Incorrect password, or too many attempts. Try again later.';
+  client_address text := coalesce(
+    nullif(trim(split_part(current_setting('request.headers', true)::json->>'x-forwarded-for', ',', 1)), ''),
+    'unknown'
+  );
+  link library_public_links;
+  attempt public_link_attempts;
+  library_name text;
+begin
+  select * into link from library_public_links where token = link_token;
+
+  if not found then
+    raise exception 'This link was revoked or does not exist';
+  end if;
+
+  if link.expires_at is not null and link.expires_at < now() then
+    raise exception 'This link has expired';
+  end if;
+
+  if link.password_hash is not null then
+    select * into attempt
+    from public_link_attempts
+    where link_id = link.id and client = client_address
+    for update;
+
+    if attempt.locked_until is not null and attempt.locked_until > now() then
+      return jsonb_build_object('error', denied);
+    end if;
+
+    if link_password is null or crypt(link_password, link.password_hash) <> link.password_hash then
+      -- Each lockout doubles the next one, up to max_lockout
+      insert into public_link_attempts as existing (link_id, client, failed_attempts)
+      values (link.id, client_address, 1)
+      on conflict (link_id, client) do update
+      set
+        failed_attempts = existing.failed_attempts + 1,
+        locked_until = case
+          when (existing.failed_attempts + 1) % max_attempts = 0
+            then now() + least(max_lockout, lockout * power(2, least((existing.failed_attempts + 1) / max_attempts - 1, 10)))
+          else existing.locked_until
+        end;
+
+      return jsonb_build_object('error', denied);
+    end if;
+
+    delete from public_link_attempts where link_id = link.id and client = client_address;
+  end if;
+
+  select name into library_name from user_libraries where id = link.library_id;
+
+  return jsonb_build_object(
+    'library_name', library_name,
+    'items', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', item.id,
+        'title', item.title,
+        'content', item.content,
+        'content_type', item.content_type,
+        'created_at', item.created_at,
+        'screenshot_url', item.screenshot_url,
+        'thumbnail_url', item.thumbnail_url
+      ) order by item.created_at desc)
+      from shared_clipboard_items item
+      where item.library_id = link.library_id
+    ), '[]'::jsonb)
+  );
+end;
+$$;
@@ -0,0 +1,50 @@
+-- Realtime checks an update against the new row, so members of the library
+-- an item left never hear about the move when they can't see where it went.
+-- Moves are recorded here for them, readable by whoever can see the library
+-- the item left.
+create table if not exists public.library_item_moves (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null,
+  from_library_id uuid not null references public.user_libraries(id) on delete cascade,
+  moved_at timestamptz not null default now()
+);
+
+alter table public.library_item_moves enable row level security;
+
+create policy "Members can view moves out of their libraries"
+  on public.library_item_moves for select
+  using (has_library_access(from_library_id, auth.uid()));
+
+create or replace function public.record_library_item_move()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into library_item_moves (item_id, from_library_id)
+  values (new.id, old.library_id);
+
+  -- Only open clients need the record, so old ones are cleared as new ones come in
+  delete from library_item_moves where moved_at < now() - interval '1 day';
+
+  return new;
+end;
+$$;
+
+create trigger record_library_item_move
+  after update of library_id on public.shared_clipboard_items
+  for each row
+  when (old.library_id is not null and old.library_id is distinct from new.library_id)
+  execute function public.record_library_item_move();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'library_item_moves'
+  ) then
+    alter publication supabase_realtime add table public.library_item_moves;
+  end if;
+end;
+$$;